@@ -0,0 +1,80 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EXIT_CODES, runAnalyzeCommand } from './analyze';
+import { UsageError, parseCliArgs } from './args';
+import type { AnalyzeArgs } from './args';
+
+// The mock provider streams its fixtures with small delays.
+const TIMEOUT_MS = 20_000;
+
+const RESUME = `Jane Doe
+jane.doe@example.com
+
+Experience
+Senior Frontend Engineer, Acme 2019 - 2024
+- Built React and TypeScript dashboards used by 40,000 customers.
+
+Skills
+React, TypeScript, Node.js, CSS`;
+
+const JOB_DESCRIPTION = `Senior Frontend Engineer
+Requirements:
+- 3+ years of React experience
+- Strong TypeScript skills`;
+
+describe('runAnalyzeCommand', () => {
+  let dir: string;
+  const path = (name: string) => join(dir, name);
+  const argsFor = (...options: string[]) =>
+    parseCliArgs(['analyze', path('resume.txt'), '--jd', path('job.txt'), '--provider', 'mock', '--out', path('report.json'), ...options]) as AnalyzeArgs;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'atsight-cli-'));
+    await writeFile(path('resume.txt'), RESUME);
+    await writeFile(path('job.txt'), JOB_DESCRIPTION);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes the report and passes without a minimum score', async () => {
+    expect(await runAnalyzeCommand(argsFor())).toBe(EXIT_CODES.passed);
+
+    const report = JSON.parse(await readFile(path('report.json'), 'utf-8'));
+    expect(report.metadata).toMatchObject({ fileName: 'resume.txt', provider: 'mock', model: 'complete' });
+    expect(report.result.resume_score).toBe(report.breakdown.total);
+  }, TIMEOUT_MS);
+
+  it('passes when the score reaches --min-score', async () => {
+    expect(await runAnalyzeCommand(argsFor('--min-score', '0'))).toBe(EXIT_CODES.passed);
+  }, TIMEOUT_MS);
+
+  it('exits with 1 when the score is below --min-score', async () => {
+    expect(await runAnalyzeCommand(argsFor('--min-score', '100'))).toBe(EXIT_CODES.belowMinScore);
+    expect(console.error).toHaveBeenCalledWith(expect.stringMatching(/is below the minimum of 100%/));
+  }, TIMEOUT_MS);
+
+  it('writes a Markdown report with --format md', async () => {
+    await runAnalyzeCommand(argsFor('--format', 'md', '--out', path('report.md')));
+    expect(await readFile(path('report.md'), 'utf-8')).toMatch(/^# Resume Analysis: resume\.txt/);
+  }, TIMEOUT_MS);
+
+  it('throws a usage error for a missing input file', async () => {
+    await rm(path('resume.txt'));
+    await expect(runAnalyzeCommand(argsFor())).rejects.toThrow(UsageError);
+  });
+
+  it('throws a usage error for an empty job description', async () => {
+    await writeFile(path('job.txt'), '  \n');
+    await expect(runAnalyzeCommand(argsFor())).rejects.toThrow(UsageError);
+  });
+
+  it('throws when the model never returns a readable analysis', async () => {
+    await expect(runAnalyzeCommand(argsFor('--model', 'invalid'))).rejects.toThrow('The model did not return a readable analysis');
+  }, TIMEOUT_MS);
+});
@@ -0,0 +1,115 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { createAnalysisController } from '../src/lib/abort';
+import { analyze } from '../src/lib/analyze';
+import { createMockProvider } from '../src/lib/providers/mock';
+import { createOpenAICompatibleProvider } from '../src/lib/providers/openaiCompatible';
+import type { LLMProvider, ProviderSettings } from '../src/lib/providers/types';
+import { buildJsonReport } from '../src/lib/report/json';
+import { buildMarkdownReport } from '../src/lib/report/markdown';
+import type { Report } from '../src/lib/report/types';
+import { buildBreakdown } from '../src/lib/rubric/score';
+import { clampContextTokens } from '../src/lib/tokens';
+import { config } from '../server/config';
+import { extractResumeText } from '../server/extractText';
+import { createGroqProvider } from '../server/groq';
+import { UsageError } from './args';
+import type { AnalyzeArgs } from './args';
+
+export const EXIT_CODES = { passed: 0, belowMinScore: 1, error: 2 };
+
+const DEFAULT_MODELS = { groq: config.defaultModel, 'openai-compatible': 'llama3.1', mock: 'complete' };
+
+const createCliProvider = (args: AnalyzeArgs, contextTokens: number): LLMProvider => {
+  const model = args.model ?? DEFAULT_MODELS[args.provider];
+  if (args.provider === 'groq') {
+    if (!config.groqApiKey) {
+      throw new UsageError('Set GROQ_API_KEY or pick another --provider');
+    }
+    return createGroqProvider({ apiKey: config.groqApiKey, model, temperature: args.temperature });
+  }
+
+  const settings: ProviderSettings = {
+    provider: args.provider,
+    model,
+    temperature: args.temperature,
+    timeoutSeconds: args.timeoutSeconds,
+    contextTokens,
+    consensusRuns: 1,
+    consensusModels: [],
+    rubric: args.rubric.weights,
+    outputLanguage: args.outputLanguage,
+    baseUrl: args.baseUrl,
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY ?? '',
+  };
+  return args.provider === 'mock' ? createMockProvider(settings) : createOpenAICompatibleProvider(settings);
+};
+
+const readInput = (path: string, label: string) =>
+  readFile(path).catch((error: NodeJS.ErrnoException) => {
+    throw new UsageError(`Cannot read ${label} ${path}: ${error.code ?? error.message}`);
+  });
+
+export const runAnalyzeCommand = async (args: AnalyzeArgs) => {
+  const fileName = basename(args.resumePath);
+  const resumeText = await extractResumeText({ name: fileName, type: '', data: await readInput(args.resumePath, 'resume') });
+  if (!resumeText.trim()) {
+    throw new Error(`No text could be extracted from ${fileName}`);
+  }
+  const jobDescription = (await readInput(args.jobDescriptionPath, 'job description')).toString('utf-8');
+  if (!jobDescription.trim()) {
+    throw new UsageError(`${args.jobDescriptionPath} is empty`);
+  }
+
+  const contextTokens = clampContextTokens(args.contextTokens ?? config.contextTokens);
+  const provider = createCliProvider(args, contextTokens);
+  const controller = createAnalysisController(args.timeoutSeconds);
+  process.once('SIGINT', controller.cancel);
+
+  const outcome = await analyze(resumeText, jobDescription, {
+    provider,
+    contextTokens,
+    outputLanguage: args.outputLanguage,
+    skipRedaction: !args.redact,
+    signal: controller.signal,
+    onChunk: ({ index, total }) => console.error(`Analyzing part ${index} of ${total}`),
+  }).finally(() => {
+    controller.dispose();
+    process.off('SIGINT', controller.cancel);
+  });
+
+  if (!outcome.result) {
+    outcome.issues.forEach((issue) => console.error(`  ${issue.path}: ${issue.message}`));
+    throw new Error('The model did not return a readable analysis');
+  }
+  const breakdown = buildBreakdown(outcome.result, resumeText, jobDescription, args.rubric.weights);
+  const result = { ...outcome.result, resume_score: breakdown.total };
+  if (outcome.status === 'partial') {
+    console.error(`Warning: ${outcome.issues.length} fields could not be read from the model's response`);
+  }
+
+  const report: Report = {
+    metadata: { fileName, provider: provider.id, model: provider.model, analyzedAt: Date.now() },
+    resumeText,
+    jobDescription,
+    result,
+    issues: outcome.issues,
+    ocr: null,
+    chunking: outcome.chunking,
+    breakdown,
+    languages: outcome.languages,
+  };
+  const content = args.format === 'md' ? buildMarkdownReport(report) : `${await buildJsonReport(report)}\n`;
+  if (args.outputPath) {
+    await writeFile(args.outputPath, content);
+  } else {
+    process.stdout.write(content);
+  }
+
+  const score = result.resume_score;
+  if (args.minScore !== null && score < args.minScore) {
+    console.error(`Resume score ${score}% is below the minimum of ${args.minScore}%`);
+    return EXIT_CODES.belowMinScore;
+  }
+  return EXIT_CODES.passed;
+};
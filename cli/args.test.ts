@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_PRESETS } from '../src/lib/rubric/presets';
+import { UsageError, parseCliArgs } from './args';
+
+describe('parseCliArgs', () => {
+  it('returns null when help is asked for or nothing is passed', () => {
+    expect(parseCliArgs([])).toBeNull();
+    expect(parseCliArgs(['--help'])).toBeNull();
+    expect(parseCliArgs(['analyze', 'resume.pdf', '--jd', 'job.txt', '-h'])).toBeNull();
+  });
+
+  it('fills in defaults', () => {
+    expect(parseCliArgs(['analyze', 'resume.pdf', '--jd', 'job.txt'])).toEqual({
+      resumePath: 'resume.pdf',
+      jobDescriptionPath: 'job.txt',
+      format: 'json',
+      minScore: null,
+      provider: 'groq',
+      model: null,
+      baseUrl: 'http://localhost:11434/v1',
+      temperature: 0.2,
+      contextTokens: null,
+      timeoutSeconds: 120,
+      outputPath: null,
+      redact: true,
+      rubric: BUILT_IN_PRESETS[0],
+      outputLanguage: 'auto',
+    });
+  });
+
+  it('reads every option', () => {
+    const args = parseCliArgs([
+      'analyze',
+      'resume.docx',
+      '--jd=job.txt',
+      '--format',
+      'md',
+      '--min-score',
+      '70',
+      '--provider',
+      'mock',
+      '--model',
+      'needs-repair',
+      '--temperature',
+      '0.5',
+      '--context-tokens',
+      '16000',
+      '--timeout',
+      '30',
+      '--out',
+      'report.md',
+      '--no-redact',
+      '--rubric',
+      BUILT_IN_PRESETS[1].id,
+      '--language',
+      'de',
+    ]);
+
+    expect(args).toMatchObject({
+      format: 'md',
+      minScore: 70,
+      provider: 'mock',
+      model: 'needs-repair',
+      temperature: 0.5,
+      contextTokens: 16000,
+      timeoutSeconds: 30,
+      outputPath: 'report.md',
+      redact: false,
+      rubric: BUILT_IN_PRESETS[1],
+      outputLanguage: 'de',
+    });
+  });
+
+  it.each([
+    [['resume.pdf', '--jd', 'job.txt'], 'Unknown command: resume.pdf'],
+    [['analyze', '--jd', 'job.txt'], 'Pass exactly one resume file'],
+    [['analyze', 'a.pdf', 'b.pdf', '--jd', 'job.txt'], 'Pass exactly one resume file'],
+    [['analyze', 'resume.pdf'], '--jd is required'],
+    [['analyze', 'resume.pdf', '--jd', 'job.txt', '--format', 'html'], '--format must be one of: json, md'],
+    [['analyze', 'resume.pdf', '--jd', 'job.txt', '--min-score', '101'], '--min-score must be a number from 0 to 100'],
+    [['analyze', 'resume.pdf', '--jd', 'job.txt', '--min-score', 'high'], '--min-score must be a number from 0 to 100'],
+    [['analyze', 'resume.pdf', '--jd', 'job.txt', '--temperature', ''], '--temperature must be a number from 0 to 1'],
+    [['analyze', 'resume.pdf', '--jd', 'job.txt', '--provider', 'openai'], '--provider must be one of'],
+    [['analyze', 'resume.pdf', '--jd', 'job.txt', '--rubric', 'nope'], '--rubric must be one of'],
+    [['analyze', 'resume.pdf', '--jd', 'job.txt', '--language', 'xx'], '--language must be one of'],
+    [['analyze', 'resume.pdf', '--jd', 'job.txt', '--verbose'], "Unknown option '--verbose'"],
+  ])('rejects %j', (argv, message) => {
+    expect(() => parseCliArgs(argv)).toThrow(UsageError);
+    expect(() => parseCliArgs(argv)).toThrow(message);
+  });
+});
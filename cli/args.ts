@@ -0,0 +1,151 @@
+import { parseArgs } from 'node:util';
+import { OUTPUT_LANGUAGES } from '../src/lib/i18n/languages';
+import type { OutputLanguage } from '../src/lib/i18n/languages';
+import { BUILT_IN_PRESETS } from '../src/lib/rubric/presets';
+import type { RubricPreset } from '../src/lib/rubric/types';
+
+export const OUTPUT_FORMATS = ['json', 'md'] as const;
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export const CLI_PROVIDERS = ['groq', 'openai-compatible', 'mock'] as const;
+export type CliProvider = typeof CLI_PROVIDERS[number];
+
+export interface AnalyzeArgs {
+  resumePath: string;
+  jobDescriptionPath: string;
+  format: OutputFormat;
+  // Scores below this exit with a non-zero code.
+  minScore: number | null;
+  provider: CliProvider;
+  // Falls back to the provider's default when unset.
+  model: string | null;
+  baseUrl: string;
+  temperature: number;
+  // Falls back to MODEL_CONTEXT_TOKENS when unset.
+  contextTokens: number | null;
+  timeoutSeconds: number;
+  outputPath: string | null;
+  redact: boolean;
+  rubric: RubricPreset;
+  outputLanguage: OutputLanguage;
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export const HELP = `Usage: atsight analyze <resume> --jd <file> [options]
+
+Analyzes a PDF, DOCX, TXT or Markdown resume against a job description.
+
+Options:
+  --jd <file>               Job description as plain text (required)
+  --format <json|md>        Report format (default: json)
+  --min-score <0-100>       Exit with code 1 when the resume score is lower
+  --rubric <preset>         Scoring weights: ${BUILT_IN_PRESETS.map((preset) => preset.id).join(', ')} (default: ${BUILT_IN_PRESETS[0].id})
+  --language <code>         Language of the analysis text: ${OUTPUT_LANGUAGES.join(', ')} (default: auto, the resume's)
+  --out <file>              Write the report to a file instead of stdout
+  --provider <name>         groq, openai-compatible or mock (default: groq)
+  --model <name>            Model to use (default: the provider's default)
+  --base-url <url>          Endpoint for openai-compatible (default: http://localhost:11434/v1)
+  --temperature <0-1>       Sampling temperature (default: 0.2)
+  --context-tokens <n>      Model context window; longer inputs are analyzed in parts
+  --timeout <seconds>       Give up after this long (default: 120)
+  --no-redact               Send personal details to the model unredacted
+  -h, --help                Show this help
+
+Environment:
+  GROQ_API_KEY              Required for the groq provider
+  OPENAI_COMPATIBLE_API_KEY Sent as a bearer token to openai-compatible endpoints
+
+Exit codes: 0 passed, 1 below --min-score, 2 usage or analysis error.
+`;
+
+const readNumber = (value: string | undefined, flag: string, min: number, max: number) => {
+  if (value === undefined) return null;
+  const number = Number(value);
+  if (!value.trim() || !Number.isFinite(number) || number < min || number > max) {
+    throw new UsageError(`${flag} must be a number from ${min} to ${max}`);
+  }
+  return number;
+};
+
+const readChoice = <T extends string>(value: string | undefined, flag: string, choices: readonly T[], fallback: T): T => {
+  if (value === undefined) return fallback;
+  if (!choices.includes(value as T)) {
+    throw new UsageError(`${flag} must be one of: ${choices.join(', ')}`);
+  }
+  return value as T;
+};
+
+const readPreset = (value: string | undefined) => {
+  if (value === undefined) return BUILT_IN_PRESETS[0];
+  const preset = BUILT_IN_PRESETS.find(({ id }) => id === value);
+  if (!preset) {
+    throw new UsageError(`--rubric must be one of: ${BUILT_IN_PRESETS.map(({ id }) => id).join(', ')}`);
+  }
+  return preset;
+};
+
+// Returns null when help was asked for.
+export const parseCliArgs = (argv: string[]): AnalyzeArgs | null => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        jd: { type: 'string' },
+        format: { type: 'string' },
+        'min-score': { type: 'string' },
+        out: { type: 'string' },
+        provider: { type: 'string' },
+        model: { type: 'string' },
+        'base-url': { type: 'string' },
+        temperature: { type: 'string' },
+        'context-tokens': { type: 'string' },
+        timeout: { type: 'string' },
+        'no-redact': { type: 'boolean' },
+        rubric: { type: 'string' },
+        language: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : 'Invalid arguments');
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help || positionals.length === 0) return null;
+
+  const [command, resumePath, ...rest] = positionals;
+  if (command !== 'analyze') {
+    throw new UsageError(`Unknown command: ${command}`);
+  }
+  if (!resumePath || rest.length > 0) {
+    throw new UsageError('Pass exactly one resume file');
+  }
+  if (!values.jd) {
+    throw new UsageError('--jd is required');
+  }
+
+  return {
+    resumePath,
+    jobDescriptionPath: values.jd,
+    format: readChoice(values.format, '--format', OUTPUT_FORMATS, 'json'),
+    minScore: readNumber(values['min-score'], '--min-score', 0, 100),
+    provider: readChoice(values.provider, '--provider', CLI_PROVIDERS, 'groq'),
+    model: values.model || null,
+    baseUrl: values['base-url'] ?? 'http://localhost:11434/v1',
+    temperature: readNumber(values.temperature, '--temperature', 0, 1) ?? 0.2,
+    contextTokens: readNumber(values['context-tokens'], '--context-tokens', 1, Number.MAX_SAFE_INTEGER),
+    timeoutSeconds: readNumber(values.timeout, '--timeout', 1, 3600) ?? 120,
+    outputPath: values.out ?? null,
+    redact: !values['no-redact'],
+    rubric: readPreset(values.rubric),
+    outputLanguage: readChoice(values.language, '--language', OUTPUT_LANGUAGES, 'auto'),
+  };
+};
@@ -0,0 +1,27 @@
+#!/usr/bin/env -S npx tsx
+import { AnalysisAbortError } from '../src/lib/abort';
+import { EXIT_CODES, runAnalyzeCommand } from './analyze';
+import { HELP, UsageError, parseCliArgs } from './args';
+
+const main = async () => {
+  const args = parseCliArgs(process.argv.slice(2));
+  if (!args) {
+    process.stdout.write(HELP);
+    return EXIT_CODES.passed;
+  }
+  return runAnalyzeCommand(args);
+};
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error(`atsight: ${error instanceof Error ? error.message : String(error)}`);
+    if (error instanceof UsageError) {
+      console.error("Run 'atsight --help' for usage.");
+    }
+    // Ctrl+C follows the shell convention for SIGINT.
+    process.exitCode = error instanceof AnalysisAbortError && error.reason === 'cancelled' ? 130 : EXIT_CODES.error;
+  },
+);
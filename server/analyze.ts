@@ -0,0 +1,119 @@
+import express, { Router } from 'express';
+import type { Request } from 'express';
+import multer from 'multer';
+import { runAnalysis } from '../src/lib/analyze';
+import { analysisCacheKey } from '../src/lib/cache/key';
+import { ANALYZE_LIMITS, NDJSON_CONTENT_TYPE } from '../src/lib/apiTypes';
+import type { AnalyzeRequestBody, AnalyzeResponse, AnalyzeStreamEvent } from '../src/lib/apiTypes';
+import { readCachedOutcome, writeCachedOutcome } from './cache';
+import { HttpError } from './errors';
+import { extractUploadedText } from './extractText';
+import { createServerProvider, toModelError } from './model';
+import { refundRateLimit } from './rateLimit';
+import { readContextTokens, readModel, readOutputLanguage, readTemperature, readText } from './validation';
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: ANALYZE_LIMITS.maxFileBytes, files: 1 },
+});
+
+const readResumeText = async (req: Request) => {
+  if (req.file) {
+    const text = await extractUploadedText(req.file).catch((error: Error) => {
+      throw new HttpError(400, error.message);
+    });
+    if (!text.trim()) {
+      throw new HttpError(422, 'No text could be extracted from the resume');
+    }
+    return readText(text, 'resume', ANALYZE_LIMITS.maxResumeChars);
+  }
+  return readText(req.body?.resumeText, 'resumeText', ANALYZE_LIMITS.maxResumeChars);
+};
+
+export const analyzeRouter = Router();
+
+analyzeRouter.post(
+  '/analyze',
+  upload.single('resume'),
+  express.json({ limit: '256kb' }),
+  async (req, res, next) => {
+    try {
+      const body: Partial<AnalyzeRequestBody> = req.body ?? {};
+      const resumeText = await readResumeText(req);
+      const jobDescription = readText(body.jobDescription, 'jobDescription', ANALYZE_LIMITS.maxJobDescriptionChars);
+      const model = readModel(body.model);
+      const temperature = readTemperature(body.temperature);
+      const contextTokens = readContextTokens(body.contextTokens);
+      const outputLanguage = readOutputLanguage(body.outputLanguage);
+
+      const provider = createServerProvider(model, temperature);
+      const cacheKey = await analysisCacheKey({
+        resumeText,
+        jobDescription,
+        provider: 'server',
+        baseUrl: '',
+        model,
+        temperature,
+        contextTokens,
+        outputLanguage,
+      });
+      const cached = req.get('Cache-Control')?.includes('no-cache') ? null : await readCachedOutcome(cacheKey);
+      if (cached) refundRateLimit(res);
+
+      // Stop paying for tokens nobody will read once the client goes away.
+      const controller = new AbortController();
+      res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+      });
+
+      if (!req.get('Accept')?.includes(NDJSON_CONTENT_TYPE)) {
+        if (cached) {
+          res.json(cached);
+          return;
+        }
+        const outcome: AnalyzeResponse = await runAnalysis(provider.complete, resumeText, jobDescription, {
+          signal: controller.signal,
+          contextTokens,
+          outputLanguage,
+        }).catch((error) => {
+          throw toModelError(error);
+        });
+        await writeCachedOutcome(cacheKey, outcome);
+        res.json(outcome);
+        return;
+      }
+
+      res.setHeader('Content-Type', NDJSON_CONTENT_TYPE);
+      res.setHeader('Cache-Control', 'no-cache');
+      res.flushHeaders();
+      const send = (event: AnalyzeStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+
+      if (cached) {
+        send({ type: 'result', outcome: cached });
+        res.end();
+        return;
+      }
+
+      try {
+        const outcome = await runAnalysis(provider.complete, resumeText, jobDescription, {
+          signal: controller.signal,
+          contextTokens,
+          outputLanguage,
+          onStage: (stage) => send({ type: 'stage', stage }),
+          onChunk: (progress) => send({ type: 'chunk', ...progress }),
+          onDelta: (text) => send({ type: 'delta', text }),
+        });
+        await writeCachedOutcome(cacheKey, outcome);
+        send({ type: 'result', outcome });
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          const { status, message } = toModelError(error);
+          send({ type: 'error', status, error: message });
+        }
+      }
+      res.end();
+    } catch (error) {
+      next(error);
+    }
+  },
+);
@@ -0,0 +1,30 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { AnalyzeResponse } from '../src/lib/apiTypes';
+import { config } from './config';
+
+// Results are stored as one JSON file per cache key when ANALYSIS_CACHE_DIR is set.
+const entryPath = (key: string) => join(config.cacheDir, `${key}.json`);
+
+export const readCachedOutcome = async (key: string): Promise<AnalyzeResponse | null> => {
+  if (!config.cacheDir) return null;
+  try {
+    const { createdAt, outcome } = JSON.parse(await readFile(entryPath(key), 'utf8'));
+    return { ...outcome, cachedAt: createdAt };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Failed to read cached analysis:', error);
+    }
+    return null;
+  }
+};
+
+export const writeCachedOutcome = async (key: string, outcome: AnalyzeResponse) => {
+  if (!config.cacheDir || outcome.status !== 'complete') return;
+  try {
+    await mkdir(config.cacheDir, { recursive: true });
+    await writeFile(entryPath(key), JSON.stringify({ createdAt: Date.now(), outcome: { ...outcome, cachedAt: undefined } }));
+  } catch (error) {
+    console.error('Failed to cache analysis:', error);
+  }
+};
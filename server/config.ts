@@ -0,0 +1,21 @@
+import 'dotenv/config';
+
+const list = (value: string | undefined, fallback: string[]) =>
+  value ? value.split(',').map((item) => item.trim()).filter(Boolean) : fallback;
+
+export const config = {
+  port: Number(process.env.PORT ?? 8787),
+  groqApiKey: process.env.GROQ_API_KEY ?? '',
+  defaultModel: process.env.GROQ_MODEL ?? 'llama-3.3-70b-versatile',
+  // Inputs longer than this are analyzed in chunks unless the client asks for a different window.
+  contextTokens: Number(process.env.MODEL_CONTEXT_TOKENS ?? 8192),
+  allowedModels: list(process.env.ALLOWED_MODELS, ['llama-3.3-70b-versatile', 'llama-3.1-8b-instant']),
+  // Directory for cached analysis results; caching is off when unset.
+  cacheDir: process.env.ANALYSIS_CACHE_DIR ?? '',
+  // Set when running behind a reverse proxy so rate limiting sees the client IP.
+  trustProxy: process.env.TRUST_PROXY === 'true',
+  rateLimit: {
+    windowMs: Number(process.env.RATE_LIMIT_WINDOW_MS ?? 60_000),
+    max: Number(process.env.RATE_LIMIT_MAX ?? 10),
+  },
+};
@@ -0,0 +1,33 @@
+import express, { Router } from 'express';
+import { ANALYZE_LIMITS, COVER_LETTER_LIMITS } from '../src/lib/apiTypes';
+import type { CoverLetterRequestBody, CoverLetterResponse } from '../src/lib/apiTypes';
+import { COVER_LETTER_LENGTHS, COVER_LETTER_TONES, runCoverLetter } from '../src/lib/coverLetter';
+import type { CoverLetterLength, CoverLetterTone } from '../src/lib/coverLetter';
+import { createServerProvider, toModelError } from './model';
+import { readChoice, readList, readModel, readResumeLines, readTemperature, readText } from './validation';
+
+export const coverLetterRouter = Router();
+
+coverLetterRouter.post('/cover-letter', express.json({ limit: '512kb' }), async (req, res, next) => {
+  try {
+    const body: Partial<CoverLetterRequestBody> = req.body ?? {};
+    const lines = readResumeLines(body.lines, COVER_LETTER_LIMITS.maxLines, COVER_LETTER_LIMITS.maxLineChars);
+    const matchedSkills = readList(body.matchedSkills, 'matchedSkills', COVER_LETTER_LIMITS.maxTerms, COVER_LETTER_LIMITS.maxTermChars);
+    const metRequirements = readList(body.metRequirements, 'metRequirements', COVER_LETTER_LIMITS.maxTerms, COVER_LETTER_LIMITS.maxRequirementChars);
+    const jobDescription = readText(body.jobDescription, 'jobDescription', ANALYZE_LIMITS.maxJobDescriptionChars);
+    const tone = readChoice<CoverLetterTone>(body.tone, 'tone', COVER_LETTER_TONES);
+    const length = readChoice(body.length, 'length', Object.keys(COVER_LETTER_LENGTHS) as CoverLetterLength[]);
+    const model = readModel(body.model);
+    const temperature = readTemperature(body.temperature);
+
+    const provider = createServerProvider(model, temperature);
+    const letter = await runCoverLetter(provider.complete, { lines, matchedSkills, metRequirements, jobDescription, tone, length }).catch(
+      (error) => {
+        throw toModelError(error);
+      },
+    );
+    res.json({ letter } satisfies CoverLetterResponse);
+  } catch (error) {
+    next(error);
+  }
+});
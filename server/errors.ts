@@ -0,0 +1,41 @@
+import type { ErrorRequestHandler } from 'express';
+import multer from 'multer';
+import type { ApiErrorBody } from '../src/lib/apiTypes';
+
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+export const errorHandler: ErrorRequestHandler = (err, _req, res, next) => {
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+
+  let status = 500;
+  let message = 'Unexpected server error';
+
+  if (err instanceof HttpError) {
+    status = err.status;
+    message = err.message;
+  } else if (err instanceof multer.MulterError) {
+    status = err.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+    message = err.code === 'LIMIT_FILE_SIZE' ? 'Resume file is too large' : err.message;
+  } else if (err?.type === 'entity.too.large') {
+    status = 413;
+    message = 'Request body is too large';
+  } else if (err?.type === 'entity.parse.failed') {
+    status = 400;
+    message = 'Request body is not valid JSON';
+  } else {
+    console.error(err);
+  }
+
+  res.status(status).json({ error: message } satisfies ApiErrorBody);
+};
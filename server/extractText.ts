@@ -0,0 +1,44 @@
+import mammoth from 'mammoth';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { detectResumeType } from '../src/lib/extraction/fileTypes';
+import { joinTextItems } from '../src/lib/extraction/pdfText';
+import { markdownToText } from '../src/lib/extraction/text';
+
+const extractPdfText = async (data: Buffer) => {
+  const pdf = await getDocument({ data: new Uint8Array(data), useSystemFonts: true }).promise;
+  const pages: string[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    pages.push(joinTextItems(content.items));
+  }
+
+  await pdf.destroy();
+  return pages.join('\n\n');
+};
+
+export interface ResumeFile {
+  name: string;
+  // MIME type, when known. The extension is checked first.
+  type: string;
+  data: Buffer;
+}
+
+export const extractResumeText = async ({ name, type, data }: ResumeFile): Promise<string> => {
+  switch (detectResumeType({ name, type })) {
+    case 'pdf':
+      return extractPdfText(data);
+    case 'docx':
+      return (await mammoth.extractRawText({ buffer: data })).value;
+    case 'markdown':
+      return markdownToText(data.toString('utf-8'));
+    case 'text':
+      return data.toString('utf-8');
+    default:
+      throw new Error(`Unsupported resume type: ${type || name}`);
+  }
+};
+
+export const extractUploadedText = (file: Express.Multer.File) =>
+  extractResumeText({ name: file.originalname, type: file.mimetype, data: file.buffer });
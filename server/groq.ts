@@ -0,0 +1,41 @@
+import Groq from 'groq-sdk';
+import type { LLMProvider } from '../src/lib/providers/types';
+
+export interface GroqProviderOptions {
+  apiKey: string;
+  model: string;
+  temperature: number;
+}
+
+export const createGroqProvider = ({ apiKey, model, temperature }: GroqProviderOptions): LLMProvider => {
+  const groq = new Groq({ apiKey });
+
+  return {
+    id: 'groq',
+    model,
+    complete: async (messages, { signal, onDelta } = {}) => {
+      const stream = await groq.chat.completions.create(
+        {
+          messages,
+          model,
+          temperature,
+          response_format: { type: 'json_object' },
+          stream: true,
+        },
+        { signal },
+      );
+
+      let content = '';
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta.content;
+        if (delta) {
+          content += delta;
+          onDelta?.(delta);
+        }
+      }
+      return content;
+    },
+  };
+};
+
+export const isRateLimitError = (error: unknown) => error instanceof Groq.RateLimitError;
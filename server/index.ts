@@ -0,0 +1,25 @@
+import express from 'express';
+import { analyzeRouter } from './analyze';
+import { config } from './config';
+import { coverLetterRouter } from './coverLetter';
+import { errorHandler } from './errors';
+import { interviewPrepRouter } from './interviewPrep';
+import { rateLimit } from './rateLimit';
+import { rewriteRouter } from './rewrite';
+
+const app = express();
+
+app.disable('x-powered-by');
+app.set('trust proxy', config.trustProxy);
+
+// Every API route calls the model, so they share one request budget per client.
+app.use('/api', rateLimit(config.rateLimit));
+app.use('/api', analyzeRouter);
+app.use('/api', rewriteRouter);
+app.use('/api', coverLetterRouter);
+app.use('/api', interviewPrepRouter);
+app.use(errorHandler);
+
+app.listen(config.port, () => {
+  console.log(`ATSight API listening on http://localhost:${config.port}`);
+});
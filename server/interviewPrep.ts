@@ -0,0 +1,43 @@
+import express, { Router } from 'express';
+import { ANALYZE_LIMITS, INTERVIEW_PREP_LIMITS } from '../src/lib/apiTypes';
+import type { InterviewPrepRequestBody, InterviewPrepResponse } from '../src/lib/apiTypes';
+import { GAP_KINDS, runInterviewPrep } from '../src/lib/interviewPrep';
+import type { GapKind, InterviewGap } from '../src/lib/interviewPrep';
+import { HttpError } from './errors';
+import { createServerProvider, toModelError } from './model';
+import { readChoice, readModel, readResumeLines, readTemperature, readText } from './validation';
+
+const readGaps = (value: unknown): InterviewGap[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new HttpError(400, 'gaps must be a non-empty array');
+  }
+  if (value.length > INTERVIEW_PREP_LIMITS.maxGaps) {
+    throw new HttpError(413, `gaps must have at most ${INTERVIEW_PREP_LIMITS.maxGaps} items`);
+  }
+  return value.map((gap, index) => ({
+    id: readText(gap?.id, `gaps[${index}].id`, 32),
+    kind: readChoice(gap?.kind, `gaps[${index}].kind`, Object.keys(GAP_KINDS) as GapKind[]),
+    label: readText(gap?.label, `gaps[${index}].label`, INTERVIEW_PREP_LIMITS.maxGapChars),
+  }));
+};
+
+export const interviewPrepRouter = Router();
+
+interviewPrepRouter.post('/interview-prep', express.json({ limit: '512kb' }), async (req, res, next) => {
+  try {
+    const body: Partial<InterviewPrepRequestBody> = req.body ?? {};
+    const gaps = readGaps(body.gaps);
+    const lines = readResumeLines(body.lines, INTERVIEW_PREP_LIMITS.maxLines, INTERVIEW_PREP_LIMITS.maxLineChars);
+    const jobDescription = readText(body.jobDescription, 'jobDescription', ANALYZE_LIMITS.maxJobDescriptionChars);
+    const model = readModel(body.model);
+    const temperature = readTemperature(body.temperature);
+
+    const provider = createServerProvider(model, temperature);
+    const questions = await runInterviewPrep(provider.complete, { gaps, lines, jobDescription }).catch((error) => {
+      throw toModelError(error);
+    });
+    res.json({ questions } satisfies InterviewPrepResponse);
+  } catch (error) {
+    next(error);
+  }
+});
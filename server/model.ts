@@ -0,0 +1,23 @@
+import { ContextWindowError } from '../src/lib/chunking';
+import { config } from './config';
+import { HttpError } from './errors';
+import { createGroqProvider, isRateLimitError } from './groq';
+
+export const createServerProvider = (model: string, temperature: number) => {
+  if (!config.groqApiKey) {
+    throw new HttpError(500, 'The server is missing GROQ_API_KEY');
+  }
+  return createGroqProvider({ apiKey: config.groqApiKey, model, temperature });
+};
+
+// Upstream errors are logged here and replaced with a message that is safe to show to clients.
+export const toModelError = (error: unknown) => {
+  if (error instanceof ContextWindowError) {
+    return new HttpError(413, error.message);
+  }
+  console.error('Model request failed:', error);
+  if (isRateLimitError(error)) {
+    return new HttpError(429, 'The model provider is rate limiting requests. Please try again shortly.');
+  }
+  return new HttpError(502, 'The model request failed. Please try again.');
+};
@@ -0,0 +1,52 @@
+import type { RequestHandler, Response } from 'express';
+import type { ApiErrorBody } from '../src/lib/apiTypes';
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+// Fixed-window limiter keyed by client IP. State is per process, which is
+// enough for the single instance this server is meant to run as.
+export const rateLimit = ({ windowMs, max }: RateLimitOptions): RequestHandler => {
+  const windows = new Map<string, Window>();
+
+  setInterval(() => {
+    const now = Date.now();
+    for (const [ip, window] of windows) {
+      if (window.resetAt <= now) windows.delete(ip);
+    }
+  }, windowMs).unref();
+
+  return (req, res, next) => {
+    const now = Date.now();
+    const ip = req.ip ?? 'unknown';
+    const existing = windows.get(ip);
+    const window = existing && existing.resetAt > now ? existing : { count: 0, resetAt: now + windowMs };
+    windows.set(ip, window);
+    window.count++;
+
+    res.locals.refundRateLimit = () => {
+      window.count = Math.max(0, window.count - 1);
+    };
+    res.setHeader('RateLimit-Limit', max);
+    res.setHeader('RateLimit-Remaining', Math.max(0, max - window.count));
+
+    if (window.count > max) {
+      res.setHeader('Retry-After', Math.ceil((window.resetAt - now) / 1000));
+      res.status(429).json({ error: 'Too many requests. Please wait a minute and try again.' } satisfies ApiErrorBody);
+      return;
+    }
+    next();
+  };
+};
+
+// Gives a request its slot back, for answers that were served without calling the model.
+export const refundRateLimit = (res: Response) => {
+  (res.locals.refundRateLimit as (() => void) | undefined)?.();
+};
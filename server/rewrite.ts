@@ -0,0 +1,45 @@
+import express, { Router } from 'express';
+import { ANALYZE_LIMITS, REWRITE_LIMITS } from '../src/lib/apiTypes';
+import type { RewriteRequestBody, RewriteResponse } from '../src/lib/apiTypes';
+import { runRewrite } from '../src/lib/rewrite';
+import type { RewriteTarget } from '../src/lib/rewrite';
+import { HttpError } from './errors';
+import { createServerProvider, toModelError } from './model';
+import { readList, readModel, readTemperature, readText } from './validation';
+
+const readBullets = (value: unknown): RewriteTarget[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new HttpError(400, 'bullets must be a non-empty array');
+  }
+  if (value.length > REWRITE_LIMITS.maxBullets) {
+    throw new HttpError(413, `bullets must have at most ${REWRITE_LIMITS.maxBullets} items`);
+  }
+  return value.map((bullet, index) => ({
+    id: readText(bullet?.id, `bullets[${index}].id`, 32),
+    text: readText(bullet?.text, `bullets[${index}].text`, REWRITE_LIMITS.maxBulletChars),
+  }));
+};
+
+export const rewriteRouter = Router();
+
+rewriteRouter.post('/rewrite', express.json({ limit: '256kb' }), async (req, res, next) => {
+  try {
+    const body: Partial<RewriteRequestBody> = req.body ?? {};
+    const bullets = readBullets(body.bullets);
+    const missingKeywords = readList(body.missingKeywords, 'missingKeywords', REWRITE_LIMITS.maxTerms, REWRITE_LIMITS.maxTermChars);
+    const missingRequirements = readList(body.missingRequirements, 'missingRequirements', REWRITE_LIMITS.maxTerms, REWRITE_LIMITS.maxRequirementChars);
+    const jobDescription = readText(body.jobDescription, 'jobDescription', ANALYZE_LIMITS.maxJobDescriptionChars);
+    const model = readModel(body.model);
+    const temperature = readTemperature(body.temperature);
+
+    const provider = createServerProvider(model, temperature);
+    const rewrites = await runRewrite(provider.complete, { bullets, missingKeywords, missingRequirements, jobDescription }).catch(
+      (error) => {
+        throw toModelError(error);
+      },
+    );
+    res.json({ rewrites } satisfies RewriteResponse);
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,78 @@
+import type { ResumeLine } from '../src/lib/coverLetter/types';
+import { OUTPUT_LANGUAGES } from '../src/lib/i18n/languages';
+import type { OutputLanguage } from '../src/lib/i18n/languages';
+import { clampContextTokens } from '../src/lib/tokens';
+import { config } from './config';
+import { HttpError } from './errors';
+
+export const readText = (value: unknown, field: string, maxChars: number) => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `${field} is required`);
+  }
+  if (value.length > maxChars) {
+    throw new HttpError(413, `${field} must be at most ${maxChars} characters`);
+  }
+  return value;
+};
+
+export const readModel = (value: unknown) => {
+  if (value === undefined || value === '') return config.defaultModel;
+  if (typeof value !== 'string' || !config.allowedModels.includes(value)) {
+    throw new HttpError(400, `model must be one of: ${config.allowedModels.join(', ')}`);
+  }
+  return value;
+};
+
+export const readTemperature = (value: unknown) => {
+  if (value === undefined || value === '') return 0.2;
+  const temperature = Number(value);
+  if (!Number.isFinite(temperature)) {
+    throw new HttpError(400, 'temperature must be a number');
+  }
+  return Math.min(1, Math.max(0, temperature));
+};
+
+export const readContextTokens = (value: unknown) => {
+  if (value === undefined || value === '') return clampContextTokens(config.contextTokens);
+  const tokens = Number(value);
+  if (!Number.isFinite(tokens)) {
+    throw new HttpError(400, 'contextTokens must be a number');
+  }
+  return clampContextTokens(tokens);
+};
+
+export const readOutputLanguage = (value: unknown): OutputLanguage => {
+  if (value === undefined || value === '') return 'auto';
+  return readChoice(value, 'outputLanguage', OUTPUT_LANGUAGES);
+};
+
+export const readList = (value: unknown, field: string, maxItems: number, maxChars: number) => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new HttpError(400, `${field} must be an array of strings`);
+  }
+  if (value.length > maxItems) {
+    throw new HttpError(413, `${field} must have at most ${maxItems} items`);
+  }
+  return value.map((item, index) => readText(item, `${field}[${index}]`, maxChars));
+};
+
+export const readChoice = <T extends string>(value: unknown, field: string, choices: readonly T[]): T => {
+  if (!choices.includes(value as T)) {
+    throw new HttpError(400, `${field} must be one of: ${choices.join(', ')}`);
+  }
+  return value as T;
+};
+
+export const readResumeLines = (value: unknown, maxLines: number, maxLineChars: number): ResumeLine[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new HttpError(400, 'lines must be a non-empty array');
+  }
+  if (value.length > maxLines) {
+    throw new HttpError(413, `lines must have at most ${maxLines} items`);
+  }
+  return value.map((line, index) => ({
+    id: readText(line?.id, `lines[${index}].id`, 32),
+    text: readText(line?.text, `lines[${index}].text`, maxLineChars),
+  }));
+};
@@ -1,163 +1,694 @@
-import React, { useState } from 'react';
-import Groq from 'groq-sdk';
-import pdfToText from 'react-pdftotext';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import 'react-toastify/dist/ReactToastify.css';
-import { FileText, Upload, Briefcase, Loader2, CheckCircle, AlertCircle, Award, Brain, Target, Lightbulb, BookOpen, Code, MessageSquare, TargetIcon, ArrowBigUpIcon, SearchIcon, Code2, AlertTriangle, BrainCircuit } from 'lucide-react';
-import { RadialBarChart, RadialBar, PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { FileText, Briefcase, Loader2, CheckCircle, AlertCircle, Award, Brain, Target, Lightbulb, BookOpen, Code, MessageSquare, SearchIcon, Code2, AlertTriangle, XCircle, ScanText, History, TrendingUp, Users, Layers, Upload, RefreshCw } from 'lucide-react';
+import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { toast, ToastContainer } from 'react-toastify';
-
-interface AnalysisResult {
-  overall_summary: string;
-  resume_score: number;
-  ats_compatibility: string;
-  resume_length: string;
-  readability_score: number;
-  skills_match: {
-    matched: string[];
-    missing: string[];
-    match_percentage: number;
-  };
-  soft_skills_match: {
-    matched: string[];
-    missing: string[];
-  };
-  technical_proficiency: {
-    strong: string[];
-    moderate: string[];
-    weak_or_missing: string[];
-  };
-  keywords_analysis: {
-    present_keywords: string[];
-    missing_keywords: string[];
-  };
-  job_requirements_coverage: {
-    met_requirements: string[];
-    missing_requirements: string[];
-  };
-  tone_of_language: string;
-  formatting_issues: string[];
-  grammar_issues: string[];
-  recommendations: string[];
-}
-
-const groq = new Groq({
-  dangerouslyAllowBrowser: true,
-  apiKey: import.meta.env.VITE_GQOQ_API_KEY,
-});
+import { AnalysisAbortError, createAnalysisController, throwIfAborted } from './lib/abort';
+import { requestAnalysis } from './lib/analysisClient';
+import type { ConsensusProgress } from './lib/analysisClient';
+import { ApiError } from './lib/api';
+import type { ChunkingSummary } from './lib/analyze';
+import { DEFAULT_CONCURRENCY, MAX_CONCURRENCY, createCandidate, runBatch } from './lib/batch';
+import type { BatchCandidate } from './lib/batch';
+import { loadProviderSettings, saveProviderSettings } from './lib/providers';
+import { validateAnalysisResult } from './lib/analysisSchema';
+import { ContextWindowError } from './lib/chunking';
+import type { ConsensusSection, ConsensusSummary, RangedScore } from './lib/consensus';
+import { BUILT_IN_PRESETS, createPreset, loadCustomPresets, rescoreBreakdown, saveCustomPresets } from './lib/rubric';
+import type { RubricWeights, ScoreBreakdown } from './lib/rubric';
+import type { SchemaIssue } from './lib/analysisSchema';
+import { findUnsupportedClaims, linkEvidence } from './lib/evidence';
+import { parseResume } from './lib/resumeParser';
+import type { ParsedResume } from './lib/resumeParser';
+import { scoreResume, scoresDisagree } from './lib/scoring';
+import type { LocalScores } from './lib/scoring';
+import type { AnalysisResult } from './types';
+import { ExtractionError, extractResume, validateResumeFile } from './lib/extraction';
+import type { ExtractedResume, HiddenText, OcrProgress, OcrSummary } from './lib/extraction';
+import { deleteAnalysis, editedFileName, getSeries, listAnalyses, saveAnalysis } from './lib/history';
+import type { AnalysisRecord } from './lib/history';
+import { createRoleRun, createSavedJob, loadSavedJobs, runRoleComparison, saveSavedJobs } from './lib/jobs';
+import type { RoleRun } from './lib/jobs';
+import { formatJobDescription, parseJobDescription, scoreRequirementCoverage } from './lib/jobParser';
+import type { ParsedJobDescription, RequirementPriority } from './lib/jobParser';
+import {
+  ReportImportError,
+  buildJsonReport,
+  buildMarkdownReport,
+  buildPdfReport,
+  describeChunking,
+  describeConsensus,
+  parseJsonReport,
+  reportFileName,
+} from './lib/report';
+import type { Report, ReportMetadata } from './lib/report';
+import { getScoreColor } from './lib/scoreColor';
+import { normalizeResultSkills } from './lib/taxonomy';
+import { countPii, screenResume } from './lib/privacy';
+import { downloadFile } from './lib/download';
+import { detectLanguage, t } from './lib/i18n';
+import type { AnalysisLanguages, LanguageCode } from './lib/i18n';
+import AgreementBadge from './components/AgreementBadge';
+import AnalysisProgress from './components/AnalysisProgress';
+import type { ProgressStage } from './components/AnalysisProgress';
+import AtsViewPanel from './components/AtsViewPanel';
+import CoverLetterWorkspace from './components/CoverLetterWorkspace';
+import EvidenceViewer from './components/EvidenceViewer';
+import HistorySidebar from './components/HistorySidebar';
+import IntegrityNotice from './components/IntegrityNotice';
+import InterviewPrepPanel from './components/InterviewPrepPanel';
+import JobDescriptionEditor from './components/JobDescriptionEditor';
+import RankingTable from './components/RankingTable';
+import RoleMatrix from './components/RoleMatrix';
+import ReportToolbar from './components/ReportToolbar';
+import type { ReportFormat } from './components/ReportToolbar';
+import ResumeDropzone from './components/ResumeDropzone';
+import RewriteWorkspace from './components/RewriteWorkspace';
+import RunComparison from './components/RunComparison';
+import SavedJobsPanel from './components/SavedJobsPanel';
+import ScoreBreakdownPanel from './components/ScoreBreakdownPanel';
+import ScoreTrendChart from './components/ScoreTrendChart';
+import SettingsPanel from './components/SettingsPanel';
+import TokenBudget from './components/TokenBudget';
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8'];
 
+const CHIP_TONES = {
+  green: 'bg-green-50 text-green-700 border-green-100 hover:bg-green-100',
+  red: 'bg-red-50 text-red-700 border-red-100 hover:bg-red-100',
+};
+
+type Mode = 'single' | 'roles' | 'batch';
+
+const MODE_OPTIONS = [
+  { id: 'single', icon: FileText },
+  { id: 'roles', icon: Layers },
+  { id: 'batch', icon: Users },
+] as const;
+
+const languageName = (language: LanguageCode) => t(`language.${language}`);
+
+const describeOcrProgress = ({ page, totalPages, progress }: OcrProgress) =>
+  t('input.ocrProgress', { page, total: totalPages, percent: Math.round(progress * 100) });
+
 const App = () => {
+  const [mode, setMode] = useState<Mode>('single');
   const [resumeFile, setResumeFile] = useState<File | null>(null);
   const [jobDescription, setJobDescription] = useState('');
+  // Edits to the parsed description, kept only while the text they were made against is unchanged.
+  const [jobEdit, setJobEdit] = useState<{ source: string; job: ParsedJobDescription } | null>(null);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [resumeText, setResumeText] = useState('');
+  const [analyzedJobDescription, setAnalyzedJobDescription] = useState('');
+  const [selectedTerm, setSelectedTerm] = useState<string | null>(null);
+  const evidenceRef = useRef<HTMLDivElement>(null);
+  const [parsedResume, setParsedResume] = useState<ParsedResume | null>(null);
+  const [localScores, setLocalScores] = useState<LocalScores | null>(null);
+  const [analysisIssues, setAnalysisIssues] = useState<SchemaIssue[]>([]);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [analysisMetadata, setAnalysisMetadata] = useState<ReportMetadata | null>(null);
+  const [exporting, setExporting] = useState<ReportFormat | null>(null);
   const [loading, setLoading] = useState(false);
+  const [progressStage, setProgressStage] = useState<ProgressStage | null>(null);
+  const [chunkProgress, setChunkProgress] = useState<{ index: number; total: number } | null>(null);
+  const [runProgress, setRunProgress] = useState<ConsensusProgress | null>(null);
+  // Top-level fields received so far while a response streams in; null once the analysis is complete.
+  const [streamedFields, setStreamedFields] = useState<Set<string> | null>(null);
+  const [ocrProgress, setOcrProgress] = useState<OcrProgress | null>(null);
+  const [ocrSummary, setOcrSummary] = useState<OcrSummary | null>(null);
+  const [hiddenText, setHiddenText] = useState<HiddenText[]>([]);
+  const [chunking, setChunking] = useState<ChunkingSummary | null>(null);
+  // When the shown analysis came from the result cache.
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const [consensus, setConsensus] = useState<ConsensusSummary | null>(null);
+  const [breakdown, setBreakdown] = useState<ScoreBreakdown | null>(null);
+  const [languages, setLanguages] = useState<AnalysisLanguages | null>(null);
+  // Selectable text of the chosen resume, read without OCR to estimate the prompt size.
+  const [resumePreview, setResumePreview] = useState<{ file: File; text: string } | null>(null);
+  const [providerSettings, setProviderSettings] = useState(loadProviderSettings);
+  const [history, setHistory] = useState<AnalysisRecord[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<[AnalysisRecord, AnalysisRecord] | null>(null);
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [batchConcurrency, setBatchConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [batchJobDescription, setBatchJobDescription] = useState('');
+  const [candidates, setCandidates] = useState<BatchCandidate[]>([]);
+  const [openCandidateId, setOpenCandidateId] = useState<string | null>(null);
+  const [savedJobs, setSavedJobs] = useState(loadSavedJobs);
+  const [customPresets, setCustomPresets] = useState(loadCustomPresets);
+  const [selectedJobIds, setSelectedJobIds] = useState<string[]>([]);
+  const [roleRuns, setRoleRuns] = useState<RoleRun[]>([]);
+  const [roleResume, setRoleResume] = useState<({ fileName: string } & ExtractedResume) | null>(null);
+  // Provider and start time of the latest batch or role comparison, used as report metadata.
+  const [queueMetadata, setQueueMetadata] = useState<Omit<ReportMetadata, 'fileName'> | null>(null);
+  const [openRoleId, setOpenRoleId] = useState<string | null>(null);
+  const resultsRef = useRef<HTMLDivElement>(null);
+  const analysisControllerRef = useRef<ReturnType<typeof createAnalysisController> | null>(null);
+
+  useEffect(() => {
+    saveProviderSettings(providerSettings);
+  }, [providerSettings]);
+
+  useEffect(() => {
+    saveSavedJobs(savedJobs);
+  }, [savedJobs]);
+
+  useEffect(() => {
+    saveCustomPresets(customPresets);
+  }, [customPresets]);
+
+  useEffect(() => {
+    listAnalyses()
+      .then(setHistory)
+      .catch((error) => console.error('Failed to load analysis history:', error));
+  }, []);
 
-  const handleResumeUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setResumeFile(e.target.files[0]);
+  const activeSeries = useMemo(() => {
+    const activeRun = history.find((record) => record.id === activeRunId);
+    return activeRun ? getSeries(history, activeRun.seriesKey) : [];
+  }, [history, activeRunId]);
+
+  const parsedJob = useMemo(() => parseJobDescription(jobDescription), [jobDescription]);
+  const confirmedJob = jobEdit?.source === jobDescription ? jobEdit.job : parsedJob;
+  // Untouched descriptions go to the model as pasted; edited ones are sent in their confirmed form.
+  const jobDescriptionToAnalyze = confirmedJob === parsedJob ? jobDescription : formatJobDescription(confirmedJob);
+
+  const requirementCoverage = useMemo(() => {
+    if (!analysisResult) return null;
+    const { requirements } = parseJobDescription(analyzedJobDescription);
+    return requirements.length ? scoreRequirementCoverage(requirements, analysisResult.job_requirements_coverage) : null;
+  }, [analysisResult, analyzedJobDescription]);
+
+  const unsupportedClaims = useMemo(() => {
+    if (!analysisResult) return new Set<string>();
+    return findUnsupportedClaims(
+      [
+        ...analysisResult.skills_match.matched,
+        ...analysisResult.soft_skills_match.matched,
+        ...analysisResult.keywords_analysis.present_keywords,
+        ...(requirementCoverage?.met.map((requirement) => requirement.text) ??
+          analysisResult.job_requirements_coverage.met_requirements),
+      ],
+      resumeText,
+    );
+  }, [analysisResult, requirementCoverage, resumeText]);
+
+  const screening = useMemo(
+    () => ({ findings: screenResume(resumeText, hiddenText), redactions: countPii(resumeText) }),
+    [resumeText, hiddenText],
+  );
+
+  const selectedEvidence = useMemo(
+    () => (selectedTerm ? linkEvidence(selectedTerm, resumeText, analyzedJobDescription) : null),
+    [selectedTerm, resumeText, analyzedJobDescription],
+  );
+
+  const selectTerm = (term: string) => {
+    setSelectedTerm(term);
+    evidenceRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    toast.error(error instanceof ExtractionError ? error.message : fallback, {
+      position: 'top-right',
+    });
+  };
+
+  const recordRun = async (record: Parameters<typeof saveAnalysis>[0]) => {
+    try {
+      const saved = await saveAnalysis(record);
+      setHistory((previous) => [saved, ...previous]);
+      setActiveRunId(saved.id);
+    } catch (error) {
+      // History is a convenience; a storage failure should not hide the analysis.
+      console.error('Failed to save analysis:', error);
+      setActiveRunId(null);
     }
   };
 
-  const extractTextFromPDF = async (file: File): Promise<string> => {
+  const showAnalysis = (view: Report) => {
+    setAnalysisMetadata(view.metadata);
+    setAnalysisResult(normalizeResultSkills(view.result));
+    setAnalysisIssues(view.issues);
+    setAnalysisError(null);
+    setResumeText(view.resumeText);
+    setAnalyzedJobDescription(view.jobDescription);
+    setSelectedTerm(null);
+    setParsedResume(parseResume(view.resumeText));
+    setLocalScores(scoreResume(view.resumeText, view.jobDescription));
+    setOcrSummary(view.ocr);
+    setHiddenText(view.hiddenText ?? []);
+    setChunking(view.chunking ?? null);
+    setCachedAt(null);
+    setConsensus(view.consensus ?? null);
+    setBreakdown(view.breakdown ?? null);
+    setLanguages(view.languages ?? null);
+    setComparison(null);
+  };
+
+  const openRun = (record: AnalysisRecord) => {
+    showAnalysis({
+      ...record,
+      metadata: { fileName: record.fileName, provider: record.provider, model: record.model, analyzedAt: record.createdAt },
+    });
+    setJobDescription(record.jobDescription);
+    setActiveRunId(record.id);
+    setOpenCandidateId(null);
+    setOpenRoleId(null);
+    setHistoryOpen(false);
+  };
+
+  const openCandidate = (candidate: BatchCandidate) => {
+    if (!candidate.result || !queueMetadata) return;
+    showAnalysis({
+      ...candidate,
+      metadata: { ...queueMetadata, fileName: candidate.fileName },
+      result: candidate.result,
+      jobDescription: batchJobDescription,
+    });
+    setActiveRunId(null);
+    setOpenCandidateId(candidate.id);
+    resultsRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const removeRun = async (id: string) => {
     try {
-      const text = await pdfToText(file);
-      return text;
+      await deleteAnalysis(id);
+      setHistory((previous) => previous.filter((record) => record.id !== id));
+      setCompareIds((previous) => previous.filter((selected) => selected !== id));
+      if (activeRunId === id) setActiveRunId(null);
+      if (comparison?.some((record) => record.id === id)) setComparison(null);
     } catch (error) {
-      console.error('Failed to extract text from PDF:', error);
-      return '';
+      console.error('Failed to delete analysis:', error);
+      toast.error(t('toast.deleteFailed'), {
+        position: 'top-right',
+      });
     }
   };
 
-  const analyzeResume = async () => {
-    if (!resumeFile || !jobDescription) {
-      alert('Please upload a resume and provide a job description');
+  const toggleCompare = (id: string) => {
+    setCompareIds((previous) =>
+      previous.includes(id) ? previous.filter((selected) => selected !== id) : [...previous, id].slice(-2),
+    );
+  };
+
+  const compareSelected = () => {
+    const runs = history
+      .filter((record) => compareIds.includes(record.id))
+      .sort((a, b) => a.createdAt - b.createdAt);
+    if (runs.length !== 2) return;
+    setComparison([runs[0], runs[1]]);
+    setHistoryOpen(false);
+  };
+
+  const handleResumeFile = (file: File) => {
+    try {
+      validateResumeFile(file);
+      setResumeFile(file);
+    } catch (error) {
+      showError(error, t('input.notAResume'));
+      return;
+    }
+    setResumePreview(null);
+    extractResume(file, { ocr: false })
+      .then(({ text }) => setResumePreview({ file, text }))
+      // Problems with the file are reported when it is analyzed.
+      .catch(() => undefined);
+  };
+
+  const openRole = (run: RoleRun) => {
+    if (!run.result || !roleResume || !queueMetadata) return;
+    showAnalysis({
+      metadata: { ...queueMetadata, fileName: roleResume.fileName },
+      result: run.result,
+      issues: run.issues,
+      resumeText: roleResume.text,
+      jobDescription: run.jobDescription,
+      ocr: roleResume.ocr,
+      hiddenText: roleResume.hiddenText,
+    });
+    setActiveRunId(null);
+    setOpenRoleId(run.jobId);
+    resultsRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  // Re-weighting only changes how the stored sub-scores add up, so no new model call is needed.
+  const changeRubric = (weights: RubricWeights) => {
+    setProviderSettings((previous) => ({ ...previous, rubric: weights }));
+    if (!breakdown || !analysisResult) return;
+    const rescored = rescoreBreakdown(breakdown, weights);
+    setBreakdown(rescored);
+    setAnalysisResult({ ...analysisResult, resume_score: rescored.total });
+  };
+
+  const saveRubricPreset = (name: string) => {
+    setCustomPresets((previous) => [...previous, createPreset(name, providerSettings.rubric)]);
+  };
+
+  const deleteRubricPreset = (id: string) => {
+    setCustomPresets((previous) => previous.filter((preset) => preset.id !== id));
+  };
+
+  const saveJob = (name: string) => {
+    const job = createSavedJob(name, jobDescription);
+    setSavedJobs((previous) => [...previous, job]);
+    setSelectedJobIds((previous) => [...previous, job.id]);
+  };
+
+  const deleteJob = (id: string) => {
+    setSavedJobs((previous) => previous.filter((job) => job.id !== id));
+    setSelectedJobIds((previous) => previous.filter((selected) => selected !== id));
+  };
+
+  const toggleJob = (id: string) => {
+    setSelectedJobIds((previous) =>
+      previous.includes(id) ? previous.filter((selected) => selected !== id) : [...previous, id],
+    );
+  };
+
+  const readResume = async (file: File) => {
+    try {
+      return await extractResume(file, { onOcrProgress: setOcrProgress });
+    } catch (error) {
+      showError(error, t('input.scanFailed'));
+      return null;
+    } finally {
+      setOcrProgress(null);
+    }
+  };
+
+  const compareRoles = async () => {
+    const jobs = savedJobs.filter((job) => selectedJobIds.includes(job.id));
+    if (!resumeFile || jobs.length === 0) {
+      alert(t('input.missingRoles'));
       return;
     }
 
     setLoading(true);
+    setAnalysisResult(null);
+    setAnalysisError(null);
+    setOpenRoleId(null);
 
     try {
-      const resumeText = await extractTextFromPDF(resumeFile);
+      const extracted = await readResume(resumeFile);
+      if (!extracted) return;
 
-      if (!resumeText.trim()) {
-        toast.error('Failed to Scan Resume', {
-          position: 'top-right',
-        });
-        setLoading(false);
-        return;
+      const queued = jobs.map(createRoleRun);
+      setRoleResume({ fileName: resumeFile.name, ...extracted });
+      setQueueMetadata({ provider: providerSettings.provider, model: providerSettings.model, analyzedAt: Date.now() });
+      setRoleRuns(queued);
+      await runRoleComparison({
+        runs: queued,
+        resumeText: extracted.text,
+        settings: providerSettings,
+        concurrency: batchConcurrency,
+        onUpdate: (jobId, changes) =>
+          setRoleRuns((previous) => previous.map((run) => (run.jobId === jobId ? { ...run, ...changes } : run))),
+      });
+      toast.success(t('toast.roleComparisonComplete'), {
+        position: 'top-right',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportReport = async (format: ReportFormat) => {
+    if (!analysisResult || !analysisMetadata) return;
+
+    const report: Report = {
+      metadata: analysisMetadata,
+      resumeText,
+      jobDescription: analyzedJobDescription,
+      result: analysisResult,
+      issues: analysisIssues,
+      ocr: ocrSummary,
+      hiddenText,
+      chunking: chunking ?? undefined,
+      consensus: consensus ?? undefined,
+      breakdown: breakdown ?? undefined,
+      languages: languages ?? undefined,
+    };
+    const baseName = reportFileName(analysisMetadata.fileName);
+
+    setExporting(format);
+    try {
+      if (format === 'json') {
+        downloadFile(await buildJsonReport(report), `${baseName}.json`, 'application/json');
+      } else if (format === 'markdown') {
+        downloadFile(buildMarkdownReport(report), `${baseName}.md`, 'text/markdown;charset=utf-8');
+      } else if (resultsRef.current) {
+        downloadFile(await buildPdfReport(resultsRef.current), `${baseName}.pdf`, 'application/pdf');
+      }
+    } catch (error) {
+      console.error('Failed to export report:', error);
+      toast.error(t('toast.exportFailed'), {
+        position: 'top-right',
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const importReport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const report = parseJsonReport(await file.text());
+      showAnalysis(report);
+      setJobDescription(report.jobDescription);
+      setActiveRunId(null);
+      setOpenCandidateId(null);
+      setOpenRoleId(null);
+      setMode('single');
+      toast.success(t('toast.reportImported'), {
+        position: 'top-right',
+      });
+    } catch (error) {
+      toast.error(error instanceof ReportImportError ? error.message : t('toast.importFailed'), {
+        position: 'top-right',
+      });
+    }
+  };
+
+  const handleBatchFiles = (files: File[]) => {
+    const valid = files.filter((file) => {
+      try {
+        validateResumeFile(file);
+        return true;
+      } catch (error) {
+        showError(error, t('input.fileNotAResume', { fileName: file.name }));
+        return false;
       }
+    });
+    setBatchFiles((previous) => [...previous, ...valid]);
+  };
 
-      const prompt = `
-You are an AI Resume Analyzer designed to help job seekers improve their resumes. Analyze the following resume against the provided job description and return a response in strict JSON format as per the schema below. Give detailed recommendations and insights based on the analysis. Analyze the resume STRICTLY based on the job description.
-
-Respond ONLY with the JSON object.
-
-Schema:
-{
-  "overall_summary": string,
-  "resume_score": number (0 to 100),
-  "ats_compatibility": "High" | "Medium" | "Low",
-  "resume_length": "Too Short" | "Optimal" | "Too Long",
-  "readability_score": number (0 to 100),
-  "skills_match": {
-    "matched": string[],
-    "missing": string[],
-    "match_percentage": number (0 to 100)
-  },
-  "soft_skills_match": {
-    "matched": string[],
-    "missing": string[]
-  },
-  "technical_proficiency": {
-    "strong": string[],
-    "moderate": string[],
-    "weak_or_missing": string[]
-  },
-  "keywords_analysis": {
-    "present_keywords": string[],
-    "missing_keywords": string[]
-  },
-  "job_requirements_coverage": {
-    "met_requirements": string[],
-    "missing_requirements": string[]
-  },
-  "tone_of_language": "Professional" | "Casual" | "Neutral" | "Aggressive",
-  "formatting_issues": string[],
-  "grammar_issues": string[],
-  "recommendations": string[]
-}
-
-Resume:
-${resumeText}
-
-Job Description:
-${jobDescription}
-`;
-
-      const completion = await groq.chat.completions.create({
-        messages: [{ role: 'user', content: prompt }],
-        model: 'llama-3.3-70b-versatile',
-        response_format: { type: "json_object" },
+  const rankResumes = async () => {
+    if (batchFiles.length === 0 || !jobDescription) {
+      alert(t('input.missingBatch'));
+      return;
+    }
+
+    const queued = batchFiles.map(createCandidate);
+    setLoading(true);
+    setCandidates(queued);
+    setBatchJobDescription(jobDescriptionToAnalyze);
+    setQueueMetadata({ provider: providerSettings.provider, model: providerSettings.model, analyzedAt: Date.now() });
+    setOpenCandidateId(null);
+    setAnalysisResult(null);
+    setAnalysisError(null);
+
+    try {
+      await runBatch({
+        files: batchFiles,
+        candidates: queued,
+        jobDescription: jobDescriptionToAnalyze,
+        settings: providerSettings,
+        concurrency: batchConcurrency,
+        onUpdate: (id, changes) =>
+          setCandidates((previous) =>
+            previous.map((candidate) => (candidate.id === id ? { ...candidate, ...changes } : candidate)),
+          ),
       });
+      toast.success(t('toast.rankingComplete'), {
+        position: 'top-right',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const analyzeText = async (
+    fileName: string,
+    resumeText: string,
+    jobDescription: string,
+    { ocr, hiddenText }: Omit<ExtractedResume, 'text'>,
+    signal: AbortSignal,
+    refresh = false,
+  ) => {
+    setOcrSummary(ocr);
+    setHiddenText(hiddenText);
+    setChunking(null);
+    setCachedAt(null);
+    setConsensus(null);
+    setBreakdown(null);
+    setLanguages(null);
+    setResumeText(resumeText);
+    setAnalyzedJobDescription(jobDescription);
+    setSelectedTerm(null);
+    setParsedResume(parseResume(resumeText));
+    setLocalScores(scoreResume(resumeText, jobDescription));
 
-      const result = JSON.parse(completion.choices[0].message.content);
-      setAnalysisResult(result);
-      toast.success('Analysis complete !', {
+    setAnalysisResult(null);
+    setAnalysisIssues([]);
+    setStreamedFields(new Set());
+
+    const outcome = await requestAnalysis(providerSettings, resumeText, jobDescription, {
+      signal,
+      refresh,
+      onStage: setProgressStage,
+      onChunk: ({ index, total }) => setChunkProgress({ index, total }),
+      onRun: (progress) => {
+        setRunProgress(progress);
+        setChunkProgress(null);
+      },
+      // Consensus runs are combined at the end, so there is nothing to show in between.
+      onPartial: providerSettings.consensusRuns > 1 ? undefined : (partial) => {
+        setStreamedFields(new Set(Object.keys(partial)));
+        setAnalysisResult(normalizeResultSkills(validateAnalysisResult(partial).value));
+      },
+    });
+    setStreamedFields(null);
+
+    if (outcome.status === 'failed' || !outcome.result) {
+      setAnalysisResult(null);
+      setAnalysisIssues(outcome.issues);
+      setAnalysisError(t('error.unreadableAnalysis'));
+      toast.error(t('toast.analysisFailed'), {
         position: 'top-right',
       });
+      return;
+    }
+
+    setAnalysisResult(outcome.result);
+    setAnalysisIssues(outcome.issues);
+    setChunking(outcome.chunking ?? null);
+    setCachedAt(outcome.cachedAt ?? null);
+    setConsensus(outcome.consensus ?? null);
+    setBreakdown(outcome.breakdown ?? null);
+    setLanguages(outcome.languages ?? null);
+    setAnalysisMetadata({
+      fileName,
+      provider: providerSettings.provider,
+      model: providerSettings.model,
+      analyzedAt: outcome.cachedAt ?? Date.now(),
+    });
+    setComparison(null);
+    setOpenCandidateId(null);
+    setOpenRoleId(null);
+    // The original run is already in the history.
+    if (outcome.cachedAt) {
+      setActiveRunId(null);
+      toast.info(t('toast.showingCached'), {
+        position: 'top-right',
+      });
+      return;
+    }
+    await recordRun({
+      fileName,
+      resumeText,
+      jobDescription,
+      provider: providerSettings.provider,
+      model: providerSettings.model,
+      result: outcome.result,
+      issues: outcome.issues,
+      ocr,
+      hiddenText,
+      chunking: outcome.chunking,
+      consensus: outcome.consensus,
+      breakdown: outcome.breakdown,
+      languages: outcome.languages,
+    });
+    if (outcome.status === 'partial') {
+      toast.warning(t('toast.analysisIncomplete'), {
+        position: 'top-right',
+      });
+    } else {
+      toast.success(t('toast.analysisComplete'), {
+        position: 'top-right',
+      });
+    }
+  };
+
+  const runAnalysisTask = async (task: (signal: AbortSignal) => Promise<void>) => {
+    const controller = createAnalysisController(providerSettings.timeoutSeconds);
+    analysisControllerRef.current = controller;
+    setLoading(true);
+    setAnalysisError(null);
+
+    try {
+      await task(controller.signal);
     } catch (error) {
+      setAnalysisResult(null);
+      setAnalysisIssues([]);
+      if (error instanceof AnalysisAbortError && error.reason === 'cancelled') {
+        toast.info(t('toast.analysisCancelled'), {
+          position: 'top-right',
+        });
+        return;
+      }
       console.error('Failed to analyze resume:', error);
-      alert('Failed to analyze resume. Please try again.');
+      setAnalysisError(
+        error instanceof ApiError || error instanceof AnalysisAbortError || error instanceof ContextWindowError
+          ? error.message
+          : t('error.analyzeFailed'),
+      );
+      toast.error(t('toast.analyzeFailed'), {
+        position: 'top-right',
+      });
     } finally {
+      controller.dispose();
+      analysisControllerRef.current = null;
+      setStreamedFields(null);
+      setProgressStage(null);
+      setChunkProgress(null);
+      setRunProgress(null);
       setLoading(false);
     }
   };
 
-  const getScoreColor = (score: number) => {
-    if (score >= 80) return 'text-green-600';
-    if (score >= 60) return 'text-yellow-600';
-    return 'text-red-600';
+  const analyzeResume = () => {
+    if (!resumeFile || !jobDescription) {
+      alert(t('input.missingSingle'));
+      return;
+    }
+
+    return runAnalysisTask(async (signal) => {
+      setProgressStage('extracting');
+      const extracted = await readResume(resumeFile);
+      if (!extracted) return;
+      throwIfAborted(signal);
+      await analyzeText(resumeFile.name, extracted.text, jobDescriptionToAnalyze, extracted, signal);
+    });
+  };
+
+  const rerunAnalysis = () => {
+    if (!analysisMetadata) return;
+    return runAnalysisTask((signal) =>
+      analyzeText(analysisMetadata.fileName, resumeText, analyzedJobDescription, { ocr: ocrSummary, hiddenText }, signal, true),
+    );
+  };
+
+  const rescoreEdited = (editedText: string) => {
+    if (!analysisMetadata) return;
+    return runAnalysisTask((signal) =>
+      analyzeText(editedFileName(analysisMetadata.fileName), editedText, analyzedJobDescription, { ocr: null, hiddenText: [] }, signal),
+    );
   };
 
   const getATSColor = (compatibility: string) => {
@@ -169,37 +700,13 @@ ${jobDescription}
     }
   };
 
-  const renderScoreChart = (score: number, color: string) => {
-    const data = [{ value: score, fill: color }];
-    return (
-      <RadialBarChart
-        width={120}
-        height={120}
-        cx={60}
-        cy={60}
-        innerRadius={30}
-        outerRadius={50}
-        barSize={10}
-        data={data}
-        startAngle={90}
-        endAngle={-270}
-      >
-        <RadialBar
-          background
-          dataKey="value"
-          cornerRadius={30}
-        />
-      </RadialBarChart>
-    );
-  };
-
   const renderSkillsDistribution = () => {
     if (!analysisResult) return null;
 
     const data = [
-      { name: 'Strong', value: analysisResult.technical_proficiency.strong.length },
-      { name: 'Moderate', value: analysisResult.technical_proficiency.moderate.length },
-      { name: 'Weak', value: analysisResult.technical_proficiency.weak_or_missing.length }
+      { name: t('chart.strong'), value: analysisResult.technical_proficiency.strong.length },
+      { name: t('chart.moderate'), value: analysisResult.technical_proficiency.moderate.length },
+      { name: t('chart.weak'), value: analysisResult.technical_proficiency.weak_or_missing.length }
     ];
 
     return (
@@ -215,7 +722,7 @@ ${jobDescription}
             dataKey="value"
             label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
           >
-            {data.map((entry, index) => (
+            {data.map((_, index) => (
               <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
             ))}
           </Pie>
@@ -230,9 +737,9 @@ ${jobDescription}
 
     const data = [
       {
-        name: 'Requirements',
-        met: analysisResult.job_requirements_coverage.met_requirements.length,
-        missing: analysisResult.job_requirements_coverage.missing_requirements.length,
+        name: t('chart.requirements'),
+        met: requirementCoverage?.met.length ?? analysisResult.job_requirements_coverage.met_requirements.length,
+        missing: requirementCoverage?.missing.length ?? analysisResult.job_requirements_coverage.missing_requirements.length,
       }
     ];
 
@@ -247,288 +754,584 @@ ${jobDescription}
           <XAxis type="number" />
           <YAxis type="category" dataKey="name" hide />
           <Tooltip />
-          <Bar dataKey="met" stackId="a" fill="#00C49F" name="Met Requirements" />
-          <Bar dataKey="missing" stackId="a" fill="#FF8042" name="Missing Requirements" />
+          <Bar dataKey="met" stackId="a" fill="#00C49F" name={t('requirements.met')} />
+          <Bar dataKey="missing" stackId="a" fill="#FF8042" name={t('requirements.missing')} />
         </BarChart>
       </ResponsiveContainer>
     );
   };
 
+  // Error bar showing how far the score moved between high-confidence runs.
+  const renderRange = (field: RangedScore, modelScores = false) => {
+    if (!consensus) return null;
+    const { median, min, max } = consensus.ranges[field];
+    const hint = t(modelScores ? 'summary.modelRangeHint' : 'summary.rangeHint', { median, count: consensus.models.length });
+    return (
+      <div className="mt-2 text-sm text-gray-500" title={hint}>
+        <div className="relative h-2 bg-gray-200 rounded-full">
+          <div className="absolute h-2 bg-blue-300 rounded-full" style={{ left: `${min}%`, width: `${Math.max(max - min, 1)}%` }} />
+          <div className="absolute w-0.5 h-4 -top-1 bg-blue-700" style={{ left: `${median}%` }} />
+        </div>
+        <div className="mt-1">
+          {t(modelScores ? 'summary.modelRange' : 'summary.range')} <span className="font-semibold text-gray-700">{min}–{max}%</span> ·{' '}
+          {t('summary.runs', { count: consensus.models.length })}
+        </div>
+      </div>
+    );
+  };
+
+  const renderAgreement = (section: ConsensusSection) =>
+    consensus && <AgreementBadge agreement={consensus.agreement[section]} runs={consensus.models.length} />;
+
+  const renderLocalCheck = (modelScore: number, localScore: number, label: string) => (
+    <div className="mt-2 text-sm text-gray-500">
+      <div>
+        {label}: <span className="font-semibold text-gray-700">{localScore}%</span>
+      </div>
+      {scoresDisagree(modelScore, localScore) && (
+        <div
+          className="mt-2 inline-flex items-center gap-1 px-2 py-1 bg-orange-50 text-orange-700 rounded-full text-xs font-medium border border-orange-100"
+          title={t('summary.differsHint')}
+        >
+          <AlertTriangle className="w-3 h-3" />
+          {t('summary.differsBy', { points: Math.abs(modelScore - localScore) })}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderChip = (term: string, index: number, tone: keyof typeof CHIP_TONES, claimed: boolean) => {
+    const unsupported = claimed && unsupportedClaims.has(term);
+    return (
+      <button
+        key={index}
+        type="button"
+        onClick={() => selectTerm(term)}
+        title={unsupported ? t('evidence.unsupported') : t('evidence.show')}
+        className={`inline-flex items-center gap-1 px-4 py-2 rounded-full text-sm font-medium border ${CHIP_TONES[tone]} ${
+          selectedTerm === term ? 'ring-2 ring-blue-500' : ''
+        }`}
+      >
+        {term}
+        {unsupported && <AlertTriangle className="w-4 h-4 text-orange-500" />}
+      </button>
+    );
+  };
+
+  const renderRequirement = (requirement: string, index: number, met: boolean, priority?: RequirementPriority) => {
+    const unsupported = met && unsupportedClaims.has(requirement);
+    const Icon = met ? CheckCircle : AlertCircle;
+    return (
+      <button
+        key={index}
+        type="button"
+        onClick={() => selectTerm(requirement)}
+        title={unsupported ? t('evidence.unsupported') : t('evidence.show')}
+        className={`flex items-center gap-2 text-left rounded hover:underline ${met ? 'text-green-600' : 'text-red-600'} ${
+          selectedTerm === requirement ? 'font-semibold' : ''
+        }`}
+      >
+        <Icon className="w-4 h-4 flex-shrink-0" />
+        <span>{requirement}</span>
+        {priority === 'must-have' && (
+          <span className="flex-shrink-0 px-2 py-0.5 bg-blue-50 text-blue-700 rounded-full text-xs font-medium border border-blue-100">
+            {t('requirements.mustHave')}
+          </span>
+        )}
+        {unsupported && <AlertTriangle className="w-4 h-4 flex-shrink-0 text-orange-500" />}
+      </button>
+    );
+  };
+
+  const renderIssueList = () => (
+    <ul className="mt-3 space-y-1 text-sm">
+      {analysisIssues.map((issue, index) => (
+        <li key={index}>
+          <code className="font-mono">{issue.path}</code> {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+
+  const renderAnalysisError = () => {
+    if (!analysisError) return null;
+
+    return (
+      <div className="mt-8 bg-white rounded-xl shadow-lg p-8 border border-red-100">
+        <div className="flex items-center gap-3 mb-4">
+          <XCircle className="w-6 h-6 text-red-600" />
+          <h2 className="text-xl font-bold text-gray-900">{t('error.title')}</h2>
+        </div>
+        <p className="text-gray-700">{analysisError}</p>
+        {analysisIssues.length > 0 && <div className="text-red-700">{renderIssueList()}</div>}
+      </div>
+    );
+  };
+
+  // While streaming, a section renders once its field has started arriving.
+  const hasField = (field: keyof AnalysisResult) => !streamedFields || streamedFields.has(field);
+
   const renderAnalysisResult = () => {
     if (!analysisResult) return null;
+    const streaming = streamedFields !== null;
 
     return (
       <div className="mt-8 space-y-6">
-        {/* Summary Section */}
-        <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
-          <div className="flex items-center gap-3 mb-6">
-            <Award className="w-8 h-8 text-blue-600" />
-            <h2 className="text-2xl font-bold text-gray-900">Analysis Summary</h2>
+        {!streaming && <ReportToolbar exporting={exporting} onExport={exportReport} />}
+
+        {/* Scanned Resume Notice */}
+        {ocrSummary && !streaming && (
+          <div className="bg-orange-50 rounded-xl p-6 border border-orange-200 text-orange-800">
+            <div className="flex items-center gap-3">
+              <ScanText className="w-6 h-6 text-orange-600" />
+              <h2 className="text-lg font-bold">{t('notice.ocrTitle')}</h2>
+            </div>
+            <p className="mt-2">{t('notice.ocrBody', { count: ocrSummary.pages, confidence: ocrSummary.confidence })}</p>
           </div>
+        )}
 
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-            <div className="bg-gray-50 rounded-lg p-6 border border-gray-100 flex items-center justify-between">
-              <div>
+        {/* Cached Result Notice */}
+        {cachedAt && !streaming && (
+          <div className="flex flex-wrap items-center justify-between gap-4 p-4 bg-gray-50 rounded-xl border border-gray-100 text-sm text-gray-600">
+            <span className="flex items-center gap-2">
+              <History className="w-5 h-5 text-blue-600" />
+              {t('notice.cached', { date: new Date(cachedAt).toLocaleString() })}
+            </span>
+            <button
+              type="button"
+              onClick={rerunAnalysis}
+              disabled={loading}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-gray-700 bg-white border border-gray-200 hover:bg-gray-50 disabled:opacity-60"
+            >
+              <RefreshCw className="w-4 h-4" />
+              {t('notice.rerun')}
+            </button>
+          </div>
+        )}
+
+        {/* High-Confidence Notice */}
+        {consensus && !streaming && (
+          <div className="bg-blue-50 rounded-xl p-6 border border-blue-200 text-blue-800">
+            <div className="flex items-center gap-3">
+              <Layers className="w-6 h-6 text-blue-600" />
+              <h2 className="text-lg font-bold">{t('notice.consensusTitle')}</h2>
+            </div>
+            <p className="mt-2">{t('notice.consensusBody', { description: describeConsensus(consensus, Boolean(breakdown)) })}</p>
+          </div>
+        )}
+
+        {/* Chunked Analysis Notice */}
+        {chunking && !streaming && (
+          <div className="bg-blue-50 rounded-xl p-6 border border-blue-200 text-blue-800">
+            <div className="flex items-center gap-3">
+              <Layers className="w-6 h-6 text-blue-600" />
+              <h2 className="text-lg font-bold">{t('notice.chunkingTitle')}</h2>
+            </div>
+            <p className="mt-2">{t('notice.chunkingBody', { description: describeChunking(chunking) })}</p>
+          </div>
+        )}
+
+        {/* Privacy & Integrity Notice */}
+        {!streaming && <IntegrityNotice findings={screening.findings} redactions={screening.redactions} />}
+
+        {/* Partial Result Notice */}
+        {analysisIssues.length > 0 && !streaming && (
+          <div className="bg-yellow-50 rounded-xl p-6 border border-yellow-200 text-yellow-800">
+            <div className="flex items-center gap-3">
+              <AlertTriangle className="w-6 h-6 text-yellow-600" />
+              <h2 className="text-lg font-bold">{t('notice.partialTitle')}</h2>
+            </div>
+            <p className="mt-2">{t('notice.partialBody')}</p>
+            {renderIssueList()}
+          </div>
+        )}
+
+        {/* Summary Section */}
+        {hasField('resume_score') && (
+          <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+            <div className="flex items-center gap-3 mb-6">
+              <Award className="w-8 h-8 text-blue-600" />
+              <h2 className="text-2xl font-bold text-gray-900">{t('summary.title')}</h2>
+              {renderAgreement('scores')}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+              <div className="bg-gray-50 rounded-lg p-6 border border-gray-100 flex items-center justify-between">
+                <div>
+                  <div className="flex items-center gap-2 mb-3">
+                    <Target className="w-5 h-5 text-blue-600" />
+                    <h3 className="font-semibold text-gray-700">{t('summary.resumeScore')}</h3>
+                  </div>
+                  <div className={`text-3xl font-bold ${getScoreColor(analysisResult.resume_score)}`}>
+                    {analysisResult.resume_score}%
+                  </div>
+                  {renderRange('resume_score', Boolean(breakdown))}
+                  {breakdown ? (
+                    <div className="mt-2 text-sm text-gray-500">{t('summary.weightedFromRubric')}</div>
+                  ) : (
+                    localScores && renderLocalCheck(analysisResult.resume_score, localScores.resumeScore, t('summary.localKeywordScore'))
+                  )}
+                </div>
+              </div>
+
+              <div className="bg-gray-50 rounded-lg p-6 border border-gray-100">
                 <div className="flex items-center gap-2 mb-3">
-                  <Target className="w-5 h-5 text-blue-600" />
-                  <h3 className="font-semibold text-gray-700">Resume Score</h3>
+                  <Brain className="w-5 h-5 text-blue-600" />
+                  <h3 className="font-semibold text-gray-700">{t('summary.atsCompatibility')}</h3>
                 </div>
-                <div className={`text-3xl font-bold ${getScoreColor(analysisResult.resume_score)}`}>
-                  {analysisResult.resume_score}%
+                <div className={`text-3xl font-bold ${getATSColor(analysisResult.ats_compatibility)}`}>
+                  {t(`ats.${analysisResult.ats_compatibility}`)}
                 </div>
               </div>
-              {/* {renderScoreChart(analysisResult.resume_score, '#0088FE')} */}
-            </div>
 
-            <div className="bg-gray-50 rounded-lg p-6 border border-gray-100">
-              <div className="flex items-center gap-2 mb-3">
-                <Brain className="w-5 h-5 text-blue-600" />
-                <h3 className="font-semibold text-gray-700">ATS Compatibility</h3>
-              </div>
-              <div className={`text-3xl font-bold ${getATSColor(analysisResult.ats_compatibility)}`}>
-                {analysisResult.ats_compatibility}
+              <div className="bg-gray-50 rounded-lg p-6 border border-gray-100 flex items-center justify-between">
+                <div>
+                  <div className="flex items-center gap-2 mb-3">
+                    <BookOpen className="w-5 h-5 text-blue-600" />
+                    <h3 className="font-semibold text-gray-700">{t('summary.readability')}</h3>
+                  </div>
+                  <div className={`text-3xl font-bold ${getScoreColor(analysisResult.readability_score)}`}>
+                    {analysisResult.readability_score}%
+                  </div>
+                  {renderRange('readability_score')}
+                  {localScores && renderLocalCheck(analysisResult.readability_score, localScores.readability.score, localScores.readability.formula)}
+                  {localScores?.readability.gradeLevel != null && (
+                    <div className="text-xs text-gray-400">{t('summary.gradeLevel', { grade: localScores.readability.gradeLevel })}</div>
+                  )}
+                </div>
               </div>
-            </div>
 
-            <div className="bg-gray-50 rounded-lg p-6 border border-gray-100 flex items-center justify-between">
-              <div>
+              <div className="bg-gray-50 rounded-lg p-6 border border-gray-100">
                 <div className="flex items-center gap-2 mb-3">
-                  <BookOpen className="w-5 h-5 text-blue-600" />
-                  <h3 className="font-semibold text-gray-700">Readability</h3>
+                  <Code2 className="w-5 h-5 text-blue-600" />
+                  <h3 className="font-semibold text-gray-700">{t('summary.skillsMatch')}</h3>
                 </div>
-                <div className={`text-3xl font-bold ${getScoreColor(analysisResult.readability_score)}`}>
-                  {analysisResult.readability_score}%
+                <div className={`text-3xl font-bold ${getScoreColor(analysisResult.skills_match.match_percentage)}`}>
+                  {analysisResult.skills_match.match_percentage}%
                 </div>
+                {renderRange('match_percentage')}
+                {localScores && renderLocalCheck(analysisResult.skills_match.match_percentage, localScores.skillsMatch, t('summary.localSkillMatch'))}
               </div>
-              {/* {renderScoreChart(analysisResult.readability_score, '#00C49F')} */}
-            </div>
 
-            <div className="bg-gray-50 rounded-lg p-6 border border-gray-100">
-              <div className="flex items-center gap-2 mb-3">
-                <Code2 className="w-5 h-5 text-blue-600" />
-                <h3 className="font-semibold text-gray-700">Skills Match</h3>
+              <div className="bg-gray-50 rounded-lg p-6 border border-gray-100">
+                <div className="flex items-center gap-2 mb-3">
+                  <CheckCircle className="w-5 h-5 text-blue-600" />
+                  <h3 className="font-semibold text-gray-700">{t('summary.matchedSkills')}</h3>
+                  {renderAgreement('skills')}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {analysisResult.skills_match.matched.map((term, index) => renderChip(term, index, 'green', true))}
+                </div>
               </div>
-              <div className={`text-3xl font-bold ${getScoreColor(analysisResult.skills_match.match_percentage)}`}>
-                {analysisResult.skills_match.match_percentage}%
+
+              <div className="bg-gray-50 rounded-lg p-6 border border-gray-100">
+                <div className="flex items-center gap-2 mb-3">
+                  <AlertTriangle className="w-5 h-5 text-blue-600" />
+                  <h3 className="font-semibold text-gray-700">{t('summary.missingSkills')}</h3>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {analysisResult.skills_match.missing.map((term, index) => renderChip(term, index, 'red', false))}
+                </div>
               </div>
             </div>
 
-            <div className="bg-gray-50 rounded-lg p-6 border border-gray-100">
-              <div className="flex items-center gap-2 mb-3">
-                <AlertTriangle className="w-5 h-5 text-blue-600" />
-                <h3 className="font-semibold text-gray-700">Missing Skills</h3>
-              </div>
-              <div className="flex flex-wrap gap-2">
-                {analysisResult.skills_match.missing.map((skill, index) => (
-                  <span key={index} className="px-4 py-2 bg-red-50 text-red-700 rounded-full text-sm font-medium border border-red-100">
-                    {skill}
-                  </span>
-                ))}
-              </div>
+            <div className="bg-blue-50 rounded-lg p-6 border border-blue-100">
+              <p className="text-gray-800 leading-relaxed">{analysisResult.overall_summary}</p>
             </div>
+
+            {breakdown && !streaming && (
+              <ScoreBreakdownPanel
+                breakdown={breakdown}
+                presets={[...BUILT_IN_PRESETS, ...customPresets]}
+                onWeightsChange={changeRubric}
+                onSavePreset={saveRubricPreset}
+                onDeletePreset={deleteRubricPreset}
+              />
+            )}
           </div>
+        )}
 
-          <div className="bg-blue-50 rounded-lg p-6 border border-blue-100">
-            <p className="text-gray-800 leading-relaxed">{analysisResult.overall_summary}</p>
+        {/* Score Trend */}
+        {activeSeries.length >= 2 && !streaming && (
+          <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+            <div className="flex items-center gap-3 mb-2">
+              <TrendingUp className="w-6 h-6 text-blue-600" />
+              <h2 className="text-xl font-bold text-gray-900">{t('trend.title')}</h2>
+            </div>
+            <p className="text-gray-600 mb-6">{t('trend.description', { count: activeSeries.length })}</p>
+            <ScoreTrendChart runs={activeSeries} />
           </div>
-        </div>
+        )}
+
+        {/* ATS View */}
+        {parsedResume && <AtsViewPanel parsed={parsedResume} />}
 
         {/* Technical Proficiency */}
-        <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
-          <div className="flex items-center gap-3 mb-6">
-            <Code className="w-6 h-6 text-blue-600" />
-            <h2 className="text-xl font-bold text-gray-900">Technical Proficiency</h2>
-          </div>
-          {renderSkillsDistribution()}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-6">
-            <div>
-              <h3 className="font-semibold text-gray-700 mb-3">Strong Skills</h3>
-              <div className="space-y-2">
-                {analysisResult.technical_proficiency.strong.map((skill, index) => (
-                  <div key={index} className="flex items-center gap-2 text-green-600">
-                    <CheckCircle className="w-4 h-4" />
-                    <span>{skill}</span>
-                  </div>
-                ))}
-              </div>
+        {hasField('technical_proficiency') && (
+          <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+            <div className="flex items-center gap-3 mb-6">
+              <Code className="w-6 h-6 text-blue-600" />
+              <h2 className="text-xl font-bold text-gray-900">{t('technical.title')}</h2>
+              {renderAgreement('technical')}
             </div>
-            <div>
-              <h3 className="font-semibold text-gray-700 mb-3">Moderate Skills</h3>
-              <div className="space-y-2">
-                {analysisResult.technical_proficiency.moderate.map((skill, index) => (
-                  <div key={index} className="flex items-center gap-2 text-yellow-600">
-                    <Target className="w-4 h-4" />
-                    <span>{skill}</span>
-                  </div>
-                ))}
+            {renderSkillsDistribution()}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-6">
+              <div>
+                <h3 className="font-semibold text-gray-700 mb-3">{t('technical.strongSkills')}</h3>
+                <div className="space-y-2">
+                  {analysisResult.technical_proficiency.strong.map((skill, index) => (
+                    <div key={index} className="flex items-center gap-2 text-green-600">
+                      <CheckCircle className="w-4 h-4" />
+                      <span>{skill}</span>
+                    </div>
+                  ))}
+                </div>
               </div>
-            </div>
-            <div>
-              <h3 className="font-semibold text-gray-700 mb-3">Areas for Improvement</h3>
-              <div className="space-y-2">
-                {analysisResult.technical_proficiency.weak_or_missing.map((skill, index) => (
-                  <div key={index} className="flex items-center gap-2 text-red-600">
-                    <AlertCircle className="w-4 h-4" />
-                    <span>{skill}</span>
-                  </div>
-                ))}
+              <div>
+                <h3 className="font-semibold text-gray-700 mb-3">{t('technical.moderateSkills')}</h3>
+                <div className="space-y-2">
+                  {analysisResult.technical_proficiency.moderate.map((skill, index) => (
+                    <div key={index} className="flex items-center gap-2 text-yellow-600">
+                      <Target className="w-4 h-4" />
+                      <span>{skill}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <h3 className="font-semibold text-gray-700 mb-3">{t('technical.improvementAreas')}</h3>
+                <div className="space-y-2">
+                  {analysisResult.technical_proficiency.weak_or_missing.map((skill, index) => (
+                    <div key={index} className="flex items-center gap-2 text-red-600">
+                      <AlertCircle className="w-4 h-4" />
+                      <span>{skill}</span>
+                    </div>
+                  ))}
+                </div>
               </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Keywords */}
-        <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
-          <div className="flex items-center gap-3 mb-6">
-            <SearchIcon className="w-6 h-6 text-blue-600" />
-            <h2 className="text-xl font-bold text-gray-900">Keyword Analysis</h2>
-          </div>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div>
-              <h3 className="font-semibold text-gray-700 mb-3">Present</h3>
-              <div className="flex flex-wrap gap-2">
-                {analysisResult.keywords_analysis.present_keywords.map((skill, index) => (
-                  <span key={index} className="px-4 py-2 bg-green-50 text-green-700 rounded-full text-sm font-medium border border-green-100">
-                    {skill}
-                  </span>
-                ))}
-              </div>
+        {hasField('keywords_analysis') && (
+          <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+            <div className="flex items-center gap-3 mb-6">
+              <SearchIcon className="w-6 h-6 text-blue-600" />
+              <h2 className="text-xl font-bold text-gray-900">{t('keywords.title')}</h2>
+              {renderAgreement('keywords')}
             </div>
-            <div>
-              <h3 className="font-semibold text-gray-700 mb-3">Missing</h3>
-              <div className="flex flex-wrap gap-2">
-                {analysisResult.keywords_analysis.missing_keywords.map((skill, index) => (
-                  <span key={index} className="px-4 py-2 bg-red-50 text-red-700 rounded-full text-sm font-medium border border-red-100">
-                    {skill}
-                  </span>
-                ))}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <h3 className="font-semibold text-gray-700 mb-3">{t('keywords.present')}</h3>
+                <div className="flex flex-wrap gap-2">
+                  {analysisResult.keywords_analysis.present_keywords.map((term, index) => renderChip(term, index, 'green', true))}
+                </div>
+              </div>
+              <div>
+                <h3 className="font-semibold text-gray-700 mb-3">{t('keywords.missing')}</h3>
+                <div className="flex flex-wrap gap-2">
+                  {analysisResult.keywords_analysis.missing_keywords.map((term, index) => renderChip(term, index, 'red', false))}
+                </div>
               </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Requirements Coverage */}
-        <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
-          <div className="flex items-center gap-3 mb-6">
-            <Target className="w-6 h-6 text-blue-600" />
-            <h2 className="text-xl font-bold text-gray-900">Job Requirements Coverage</h2>
-          </div>
-          {renderRequirementsCoverage()}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
-            <div>
-              <h3 className="font-semibold text-gray-700 mb-3">Met Requirements</h3>
-              <div className="space-y-2">
-                {analysisResult.job_requirements_coverage.met_requirements.map((req, index) => (
-                  <div key={index} className="flex items-center gap-2 text-green-600">
-                    <CheckCircle className="w-4 h-4" />
-                    <span>{req}</span>
-                  </div>
-                ))}
-              </div>
+        {hasField('job_requirements_coverage') && (
+          <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+            <div className="flex items-center gap-3 mb-6">
+              <Target className="w-6 h-6 text-blue-600" />
+              <h2 className="text-xl font-bold text-gray-900">{t('requirements.title')}</h2>
+              {renderAgreement('requirements')}
             </div>
-            <div>
-              <h3 className="font-semibold text-gray-700 mb-3">Missing Requirements</h3>
-              <div className="space-y-2">
-                {analysisResult.job_requirements_coverage.missing_requirements.map((req, index) => (
-                  <div key={index} className="flex items-center gap-2 text-red-600">
-                    <AlertCircle className="w-4 h-4" />
-                    <span>{req}</span>
-                  </div>
-                ))}
+            {requirementCoverage && (
+              <p className="text-gray-600 mb-4">
+                {t('requirements.weightedCoverage')}{' '}
+                <span className={`font-bold ${getScoreColor(requirementCoverage.score)}`}>{requirementCoverage.score}%</span> ·{' '}
+                {t('requirements.weighting', { met: requirementCoverage.mustHaves.met, total: requirementCoverage.mustHaves.total })}
+              </p>
+            )}
+            {renderRequirementsCoverage()}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+              <div>
+                <h3 className="font-semibold text-gray-700 mb-3">{t('requirements.met')}</h3>
+                <div className="space-y-2">
+                  {requirementCoverage
+                    ? requirementCoverage.met.map((requirement, index) => renderRequirement(requirement.text, index, true, requirement.priority))
+                    : analysisResult.job_requirements_coverage.met_requirements.map((term, index) => renderRequirement(term, index, true))}
+                </div>
+              </div>
+              <div>
+                <h3 className="font-semibold text-gray-700 mb-3">{t('requirements.missing')}</h3>
+                <div className="space-y-2">
+                  {requirementCoverage
+                    ? requirementCoverage.missing.map((requirement, index) =>
+                        renderRequirement(requirement.text, index, false, requirement.priority),
+                      )
+                    : analysisResult.job_requirements_coverage.missing_requirements.map((term, index) => renderRequirement(term, index, false))}
+                </div>
               </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Soft Skills */}
-        <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
-          <div className="flex items-center gap-3 mb-6">
-            <MessageSquare className="w-6 h-6 text-blue-600" />
-            <h2 className="text-xl font-bold text-gray-900">Soft Skills Analysis</h2>
-          </div>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div>
-              <h3 className="font-semibold text-gray-700 mb-3">Present Soft Skills</h3>
-              <div className="flex flex-wrap gap-2">
-                {analysisResult.soft_skills_match.matched.map((skill, index) => (
-                  <span key={index} className="px-4 py-2 bg-green-50 text-green-700 rounded-full text-sm font-medium border border-green-100">
-                    {skill}
-                  </span>
-                ))}
-              </div>
+        {hasField('soft_skills_match') && (
+          <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+            <div className="flex items-center gap-3 mb-6">
+              <MessageSquare className="w-6 h-6 text-blue-600" />
+              <h2 className="text-xl font-bold text-gray-900">{t('softSkills.title')}</h2>
+              {renderAgreement('soft_skills')}
             </div>
-            <div>
-              <h3 className="font-semibold text-gray-700 mb-3">Missing Soft Skills</h3>
-              <div className="flex flex-wrap gap-2">
-                {analysisResult.soft_skills_match.missing.map((skill, index) => (
-                  <span key={index} className="px-4 py-2 bg-red-50 text-red-700 rounded-full text-sm font-medium border border-red-100">
-                    {skill}
-                  </span>
-                ))}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <h3 className="font-semibold text-gray-700 mb-3">{t('softSkills.present')}</h3>
+                <div className="flex flex-wrap gap-2">
+                  {analysisResult.soft_skills_match.matched.map((term, index) => renderChip(term, index, 'green', true))}
+                </div>
+              </div>
+              <div>
+                <h3 className="font-semibold text-gray-700 mb-3">{t('softSkills.missing')}</h3>
+                <div className="flex flex-wrap gap-2">
+                  {analysisResult.soft_skills_match.missing.map((term, index) => renderChip(term, index, 'red', false))}
+                </div>
               </div>
             </div>
           </div>
-        </div>
-
+        )}
 
+        {/* Evidence */}
+        {!streaming && (
+          <div ref={evidenceRef} className="scroll-mt-8">
+            <EvidenceViewer
+              resumeText={resumeText}
+              jobDescription={analyzedJobDescription}
+              evidence={selectedEvidence}
+              unsupportedClaims={[...unsupportedClaims]}
+              onSelect={selectTerm}
+              onClear={() => setSelectedTerm(null)}
+            />
+          </div>
+        )}
 
         {/* Additional Information */}
-        <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
-          <div className="flex items-center gap-3 mb-6">
-            <Lightbulb className="w-6 h-6 text-blue-600" />
-            <h2 className="text-xl font-bold text-gray-900">Additional Insights</h2>
-          </div>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div>
-              <h3 className="font-semibold text-gray-700 mb-3">Resume Details</h3>
-              <div className="space-y-4">
-                <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                  <span className="text-gray-600">Length</span>
-                  <span className="font-medium">{analysisResult.resume_length}</span>
-                </div>
-                <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                  <span className="text-gray-600">Tone</span>
-                  <span className="font-medium">{analysisResult.tone_of_language}</span>
-                </div>
-              </div>
+        {hasField('resume_length') && (
+          <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+            <div className="flex items-center gap-3 mb-6">
+              <Lightbulb className="w-6 h-6 text-blue-600" />
+              <h2 className="text-xl font-bold text-gray-900">{t('insights.title')}</h2>
+              {renderAgreement('issues')}
             </div>
-            <div>
-              <h3 className="font-semibold text-gray-700 mb-3">Formatting & Grammar Issues</h3>
-              <div className="space-y-2">
-                {analysisResult.formatting_issues.map((issue, index) => (
-                  <div key={index} className="flex items-center gap-2 text-yellow-600">
-                    <AlertCircle className="w-4 h-4" />
-                    <span>{issue}</span>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <h3 className="font-semibold text-gray-700 mb-3">{t('insights.resumeDetails')}</h3>
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <span className="text-gray-600">{t('insights.length')}</span>
+                    <span className="font-medium">{t(`length.${analysisResult.resume_length}`)}</span>
                   </div>
-                ))}
-                {analysisResult.grammar_issues.map((issue, index) => (
-                  <div key={index} className="flex items-center gap-2 text-red-600">
-                    <AlertCircle className="w-4 h-4" />
-                    <span>{issue}</span>
+                  <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <span className="text-gray-600">{t('insights.tone')}</span>
+                    <span className="font-medium">{t(`tone.${analysisResult.tone_of_language}`)}</span>
                   </div>
-                ))}
+                  {languages && (
+                    <>
+                      <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                        <span className="text-gray-600">{t('insights.resumeLanguage')}</span>
+                        <span className="font-medium">{languageName(languages.resume)}</span>
+                      </div>
+                      <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                        <span className="text-gray-600">{t('insights.jobLanguage')}</span>
+                        <span className="font-medium">{languageName(languages.jobDescription)}</span>
+                      </div>
+                      <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                        <span className="text-gray-600">{t('insights.outputLanguage')}</span>
+                        <span className="font-medium">{languageName(languages.output)}</span>
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+              <div>
+                <h3 className="font-semibold text-gray-700 mb-3">{t('insights.issues')}</h3>
+                <div className="space-y-2">
+                  {analysisResult.formatting_issues.map((issue, index) => (
+                    <div key={index} className="flex items-center gap-2 text-yellow-600">
+                      <AlertCircle className="w-4 h-4" />
+                      <span>{issue}</span>
+                    </div>
+                  ))}
+                  {analysisResult.grammar_issues.map((issue, index) => (
+                    <div key={index} className="flex items-center gap-2 text-red-600">
+                      <AlertCircle className="w-4 h-4" />
+                      <span>{issue}</span>
+                    </div>
+                  ))}
+                </div>
               </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Recommendations */}
-        <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
-          <div className="flex items-center gap-3 mb-6">
-            <Lightbulb className="w-6 h-6 text-blue-600" />
-            <h2 className="text-xl font-bold text-gray-900">Recommendations</h2>
-          </div>
-          <div className="space-y-4">
-            {analysisResult.recommendations.map((recommendation, index) => (
-              <div key={index} className="flex items-start gap-3 p-4 bg-gray-50 rounded-lg border border-gray-100">
-                <div className="flex-shrink-0 mt-1">
-                  <CheckCircle className="w-5 h-5 text-blue-600" />
+        {hasField('recommendations') && (
+          <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+            <div className="flex items-center gap-3 mb-6">
+              <Lightbulb className="w-6 h-6 text-blue-600" />
+              <h2 className="text-xl font-bold text-gray-900">{t('recommendations.title')}</h2>
+              {renderAgreement('recommendations')}
+            </div>
+            <div className="space-y-4">
+              {analysisResult.recommendations.map((recommendation, index) => (
+                <div key={index} className="flex items-start gap-3 p-4 bg-gray-50 rounded-lg border border-gray-100">
+                  <div className="flex-shrink-0 mt-1">
+                    <CheckCircle className="w-5 h-5 text-blue-600" />
+                  </div>
+                  <p className="text-gray-700">{recommendation}</p>
                 </div>
-                <p className="text-gray-700">{recommendation}</p>
-              </div>
-            ))}
+              ))}
+            </div>
           </div>
-        </div>
+        )}
+
+        {/* Rewrite Workspace */}
+        {parsedResume && !streaming && (
+          <RewriteWorkspace
+            key={analysisMetadata?.analyzedAt}
+            parsed={parsedResume}
+            result={analysisResult}
+            resumeText={resumeText}
+            jobDescription={analyzedJobDescription}
+            settings={providerSettings}
+            rescoring={loading}
+            onRescore={rescoreEdited}
+          />
+        )}
+
+        {/* Cover Letter */}
+        {!streaming && (
+          <CoverLetterWorkspace
+            key={analysisMetadata?.analyzedAt}
+            result={analysisResult}
+            resumeText={resumeText}
+            jobDescription={analyzedJobDescription}
+            fileName={analysisMetadata?.fileName ?? ''}
+            settings={providerSettings}
+          />
+        )}
+
+        {/* Interview Prep */}
+        {!streaming && (
+          <InterviewPrepPanel
+            key={analysisMetadata?.analyzedAt}
+            result={analysisResult}
+            resumeText={resumeText}
+            jobDescription={analyzedJobDescription}
+            settings={providerSettings}
+          />
+        )}
       </div>
     );
   };
@@ -539,82 +1342,228 @@ ${jobDescription}
       <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
         <div className="max-w-5xl mx-auto">
           <div className="text-center mb-12">
-            <h1 className="text-4xl font-bold text-gray-900 mb-4">ATSight AI</h1>
-            <p className="text-xl text-gray-600 max-w-2xl mx-auto">
-              Upload your resume and job description to get detailed analysis and personalized recommendations!
-            </p>
+            <h1 className="text-4xl font-bold text-gray-900 mb-4">{t('app.title')}</h1>
+            <p className="text-xl text-gray-600 max-w-2xl mx-auto">{t('app.tagline')}</p>
           </div>
 
+          <div className="flex justify-end gap-2 mb-4">
+            <label className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-gray-700 bg-white border border-gray-200 shadow-sm hover:bg-gray-50 cursor-pointer">
+              <Upload className="w-4 h-4 text-blue-600" />
+              {t('app.importReport')}
+              <input type="file" accept=".json,application/json" className="sr-only" onChange={importReport} />
+            </label>
+            <button
+              type="button"
+              onClick={() => setHistoryOpen(true)}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-gray-700 bg-white border border-gray-200 shadow-sm hover:bg-gray-50"
+            >
+              <History className="w-4 h-4 text-blue-600" />
+              {t('app.history', { count: history.length })}
+            </button>
+          </div>
+
+          <SettingsPanel settings={providerSettings} onChange={setProviderSettings} />
+
           <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
             <div className="space-y-8">
-              <div>
-                <div className="flex items-center gap-3 mb-4">
-                  <FileText className="w-6 h-6 text-blue-600" />
-                  <h2 className="text-xl font-bold text-gray-900">Upload Resume</h2>
+              <div className="flex rounded-xl bg-gray-100 p-1">
+                {MODE_OPTIONS.map((option) => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => setMode(option.id)}
+                    disabled={loading}
+                    className={`flex-1 flex justify-center items-center gap-2 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
+                      mode === option.id ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    <option.icon className="w-4 h-4" />
+                    {t(`mode.${option.id}`)}
+                  </button>
+                ))}
+              </div>
+
+              {mode !== 'batch' ? (
+                <div>
+                  <div className="flex items-center gap-3 mb-4">
+                    <FileText className="w-6 h-6 text-blue-600" />
+                    <h2 className="text-xl font-bold text-gray-900">{t('input.uploadResume')}</h2>
+                  </div>
+                  <ResumeDropzone files={resumeFile ? [resumeFile] : []} onFiles={(files) => handleResumeFile(files[0])} />
                 </div>
-                <div className="mt-2 flex justify-center px-6 pt-5 pb-6 border-2 border-gray-300 border-dashed rounded-xl hover:border-blue-400 transition-colors duration-200">
-                  <div className="space-y-2 text-center">
-                    <Upload className="mx-auto h-12 w-12 text-gray-400" />
-                    <div className="flex text-sm text-gray-600">
-                      <label className="relative cursor-pointer bg-white rounded-md font-medium text-blue-600 hover:text-blue-500 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-blue-500">
-                        <span>Upload a file</span>
-                        <input
-                          type="file"
-                          accept="application/pdf"
-                          className="sr-only"
-                          onChange={handleResumeUpload}
-                        />
-                      </label>
-                      <p className="pl-1">or drag and drop</p>
+              ) : (
+                <div>
+                  <div className="flex items-center justify-between gap-3 mb-4">
+                    <div className="flex items-center gap-3">
+                      <Users className="w-6 h-6 text-blue-600" />
+                      <h2 className="text-xl font-bold text-gray-900">{t('input.uploadResumes')}</h2>
                     </div>
-                    <p className="text-xs text-gray-500">PDF up to 10MB</p>
+                    {batchFiles.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => setBatchFiles([])}
+                        disabled={loading}
+                        className="text-sm text-gray-500 hover:text-gray-700"
+                      >
+                        {t('input.clearFiles')}
+                      </button>
+                    )}
                   </div>
+                  <ResumeDropzone files={batchFiles} onFiles={handleBatchFiles} multiple />
+                  <label className="mt-4 flex items-center gap-3 text-sm text-gray-700">
+                    <span className="font-semibold">{t('input.parallelAnalyses')}</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_CONCURRENCY}
+                      value={batchConcurrency}
+                      onChange={(e) => setBatchConcurrency(Math.min(MAX_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+                      className="w-20 p-2 rounded-xl border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    />
+                    <span className="text-gray-500">{t('input.parallelHint')}</span>
+                  </label>
                 </div>
-                {resumeFile && (
-                  <div className="mt-3 text-sm text-gray-500 flex items-center gap-2">
-                    <CheckCircle className="w-4 h-4 text-green-500" />
-                    <span>Selected file: {resumeFile.name}</span>
-                  </div>
-                )}
-              </div>
+              )}
 
               <div>
                 <div className="flex items-center gap-3 mb-4">
                   <Briefcase className="w-6 h-6 text-blue-600" />
-                  <h2 className="text-xl font-bold text-gray-900">Job Description</h2>
+                  <h2 className="text-xl font-bold text-gray-900">{t('input.jobDescription')}</h2>
                 </div>
                 <textarea
                   value={jobDescription}
                   onChange={(e) => setJobDescription(e.target.value)}
                   rows={6}
                   className="mt-2 p-2 block w-full rounded-xl border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-                  placeholder="Paste the job description here..."
+                  placeholder={t('input.jobPlaceholder')}
                 />
+                {jobDescription.trim() && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    {t('input.jobLanguage', { language: languageName(detectLanguage(jobDescription)) })}
+                    {mode === 'single' && resumePreview?.file === resumeFile && resumePreview.text.trim() && (
+                      <> · {t('input.resumeLanguage', { language: languageName(detectLanguage(resumePreview.text)) })}</>
+                    )}
+                  </p>
+                )}
+                <SavedJobsPanel
+                  jobs={savedJobs}
+                  selectedIds={selectedJobIds}
+                  selectable={mode === 'roles'}
+                  canSave={!!jobDescription.trim()}
+                  onSave={saveJob}
+                  onLoad={(job) => setJobDescription(job.description)}
+                  onToggle={toggleJob}
+                  onDelete={deleteJob}
+                />
+                {mode !== 'roles' && jobDescription.trim() && (
+                  <JobDescriptionEditor
+                    job={confirmedJob}
+                    edited={confirmedJob !== parsedJob}
+                    onChange={(job) => setJobEdit({ source: jobDescription, job })}
+                    onReset={() => setJobEdit(null)}
+                  />
+                )}
               </div>
 
-              <button
-                onClick={analyzeResume}
-                disabled={loading || !resumeFile || !jobDescription}
-                className="w-full flex justify-center items-center gap-3 py-3 px-4 border border-transparent rounded-xl text-base font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors duration-200"
-              >
-                {loading ? (
-                  <>
-                    <Loader2 className="w-5 h-5 animate-spin" />
-                    Analyzing Resume
-                  </>
-                ) : (
-                  <>
-                    <Brain className="w-5 h-5" />
-                    Analyze Resume
-                  </>
-                )}
-              </button>
+              {mode === 'single' && resumePreview?.file === resumeFile && jobDescription.trim() && (
+                <TokenBudget
+                  resumeText={resumePreview.text}
+                  jobDescription={jobDescriptionToAnalyze}
+                  contextTokens={providerSettings.contextTokens}
+                />
+              )}
+
+              {mode === 'batch' ? (
+                <button
+                  onClick={rankResumes}
+                  disabled={loading || batchFiles.length === 0 || !jobDescription}
+                  className="w-full flex justify-center items-center gap-3 py-3 px-4 border border-transparent rounded-xl text-base font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Users className="w-5 h-5" />}
+                  {loading ? t('input.ranking') : t('input.rank', { count: batchFiles.length })}
+                </button>
+              ) : mode === 'roles' ? (
+                <button
+                  onClick={compareRoles}
+                  disabled={loading || !resumeFile || selectedJobIds.length === 0}
+                  className="w-full flex justify-center items-center gap-3 py-3 px-4 border border-transparent rounded-xl text-base font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Layers className="w-5 h-5" />}
+                  {loading
+                    ? ocrProgress
+                      ? describeOcrProgress(ocrProgress)
+                      : t('input.comparingRoles')
+                    : t('input.compareRoles', { count: selectedJobIds.length })}
+                </button>
+              ) : (
+                <button
+                  onClick={analyzeResume}
+                  disabled={loading || !resumeFile || !jobDescription}
+                  className="w-full flex justify-center items-center gap-3 py-3 px-4 border border-transparent rounded-xl text-base font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                      {ocrProgress ? describeOcrProgress(ocrProgress) : t('input.analyzing')}
+                    </>
+                  ) : (
+                    <>
+                      <Brain className="w-5 h-5" />
+                      {t('input.analyze')}
+                    </>
+                  )}
+                </button>
+              )}
+
+              {loading && progressStage && (
+                <AnalysisProgress
+                  stage={progressStage}
+                  note={
+                    [
+                      runProgress && t('progress.run', { ...runProgress }),
+                      chunkProgress && t('progress.part', { ...chunkProgress }),
+                    ]
+                      .filter(Boolean)
+                      .join(' · ') || null
+                  }
+                  onCancel={() => analysisControllerRef.current?.cancel()}
+                />
+              )}
             </div>
           </div>
 
-          {renderAnalysisResult()}
+          {comparison && (
+            <RunComparison
+              before={comparison[0]}
+              after={comparison[1]}
+              series={comparison[0].seriesKey === comparison[1].seriesKey ? getSeries(history, comparison[1].seriesKey) : []}
+              onClose={() => setComparison(null)}
+            />
+          )}
+          {mode === 'roles' && roleRuns.length > 0 && (
+            <RoleMatrix runs={roleRuns} openId={openRoleId} onOpen={openRole} />
+          )}
+          {mode === 'batch' && candidates.length > 0 && (
+            <RankingTable candidates={candidates} openId={openCandidateId} onOpen={openCandidate} />
+          )}
+          {renderAnalysisError()}
+          <div ref={resultsRef} className="scroll-mt-8">
+            {renderAnalysisResult()}
+          </div>
         </div>
       </div>
+      {historyOpen && (
+        <HistorySidebar
+          records={history}
+          activeId={activeRunId}
+          compareIds={compareIds}
+          onOpen={openRun}
+          onToggleCompare={toggleCompare}
+          onCompare={compareSelected}
+          onDelete={removeRun}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
     </>
   );
 };
@@ -0,0 +1,30 @@
+import { agreementLevel } from '../lib/consensus';
+import type { AgreementLevel } from '../lib/consensus';
+import { t } from '../lib/i18n';
+
+interface AgreementBadgeProps {
+  // 0 to 1, from the consensus summary.
+  agreement: number;
+  runs: number;
+}
+
+const LEVEL_CLASSES: Record<AgreementLevel, string> = {
+  High: 'bg-green-50 text-green-700 border-green-200',
+  Medium: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  Low: 'bg-red-50 text-red-700 border-red-200',
+};
+
+const AgreementBadge = ({ agreement, runs }: AgreementBadgeProps) => {
+  const level = agreementLevel(agreement);
+
+  return (
+    <span
+      className={`ml-auto px-3 py-1 rounded-full border text-xs font-medium ${LEVEL_CLASSES[level]}`}
+      title={t('agreement.hint', { percent: Math.round(agreement * 100), count: runs })}
+    >
+      {t(`agreement.${level}`)}
+    </span>
+  );
+};
+
+export default AgreementBadge;
@@ -0,0 +1,54 @@
+import { CheckCircle, Circle, Loader2, XCircle } from 'lucide-react';
+import type { AnalysisStage } from '../lib/analyze';
+import { t } from '../lib/i18n';
+
+export type ProgressStage = 'extracting' | AnalysisStage;
+
+interface AnalysisProgressProps {
+  stage: ProgressStage;
+  // Which run or resume part is in progress, when there is more than one.
+  note: string | null;
+  onCancel: () => void;
+}
+
+// Repairing shares the waiting step; only its label differs.
+const STEPS: ProgressStage[][] = [['extracting'], ['building-prompt'], ['waiting', 'repairing'], ['streaming'], ['validating']];
+
+const AnalysisProgress = ({ stage, note, onCancel }: AnalysisProgressProps) => {
+  const current = STEPS.findIndex((stages) => stages.includes(stage));
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4 p-4 bg-gray-50 rounded-xl border border-gray-100">
+      {note && <span className="w-full text-sm font-medium text-gray-700">{note}</span>}
+      <ol className="flex flex-wrap gap-x-6 gap-y-2 text-sm">
+        {STEPS.map(([step], index) => (
+          <li
+            key={step}
+            className={`flex items-center gap-2 ${
+              index < current ? 'text-green-600' : index === current ? 'text-blue-600 font-medium' : 'text-gray-400'
+            }`}
+          >
+            {index < current ? (
+              <CheckCircle className="w-4 h-4" />
+            ) : index === current ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Circle className="w-4 h-4" />
+            )}
+            {t(`progress.${index === current ? stage : step}`)}
+          </li>
+        ))}
+      </ol>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-red-700 bg-white border border-red-200 hover:bg-red-50"
+      >
+        <XCircle className="w-4 h-4" />
+        {t('progress.cancel')}
+      </button>
+    </div>
+  );
+};
+
+export default AnalysisProgress;
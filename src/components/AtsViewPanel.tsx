@@ -0,0 +1,184 @@
+import { AlertCircle, Calendar, CheckCircle, GraduationCap, ScanSearch, User } from 'lucide-react';
+import { t } from '../lib/i18n';
+import { formatDate, formatMonths } from '../lib/resumeParser';
+import type { ExperienceEntry, ParsedResume } from '../lib/resumeParser';
+
+interface AtsViewPanelProps {
+  parsed: ParsedResume;
+}
+
+const Missing = ({ label }: { label: string }) => (
+  <span className="text-red-600 italic">{t('atsView.notFound', { label })}</span>
+);
+
+const formatRange = (entry: ExperienceEntry) => {
+  if (!entry.startDate) return null;
+  const end = entry.current ? t('atsView.present') : entry.endDate ? formatDate(entry.endDate) : '?';
+  return `${formatDate(entry.startDate)} – ${end}`;
+};
+
+const AtsViewPanel = ({ parsed }: AtsViewPanelProps) => {
+  const { contact } = parsed;
+  const contactFields = [
+    { label: t('atsView.name'), value: contact.name },
+    { label: t('atsView.email'), value: contact.email },
+    { label: t('atsView.phone'), value: contact.phone },
+    { label: t('atsView.location'), value: contact.location },
+  ];
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+      <div className="flex items-center gap-3 mb-2">
+        <ScanSearch className="w-6 h-6 text-blue-600" />
+        <h2 className="text-xl font-bold text-gray-900">{t('atsView.title')}</h2>
+      </div>
+      <p className="text-gray-600 mb-6">{t('atsView.description')}</p>
+
+      {parsed.issues.length > 0 && (
+        <div className="bg-yellow-50 rounded-lg p-4 border border-yellow-200 mb-6">
+          <h3 className="font-semibold text-yellow-800 mb-2">{t('atsView.couldNotParse')}</h3>
+          <div className="space-y-2">
+            {parsed.issues.map((issue, index) => (
+              <div key={index} className="flex items-start gap-2 text-yellow-800 text-sm">
+                <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>
+                  {issue.message}
+                  {issue.text && <span className="text-yellow-700"> — “{issue.text}”</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <div className="flex items-center gap-2 mb-3">
+            <User className="w-5 h-5 text-blue-600" />
+            <h3 className="font-semibold text-gray-700">{t('atsView.contact')}</h3>
+          </div>
+          <div className="space-y-2">
+            {contactFields.map((field) => (
+              <div key={field.label} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                <span className="text-gray-600">{field.label}</span>
+                <span className="font-medium text-right">{field.value ?? <Missing label={field.label} />}</span>
+              </div>
+            ))}
+            {contact.links.map((link) => (
+              <div key={link} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                <span className="text-gray-600">{t('atsView.link')}</span>
+                <span className="font-medium truncate ml-4">{link}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center gap-2 mb-3">
+            <Calendar className="w-5 h-5 text-blue-600" />
+            <h3 className="font-semibold text-gray-700">{t('atsView.timeline')}</h3>
+          </div>
+          <div className="space-y-2 text-sm">
+            <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+              <span className="text-gray-600">{t('atsView.datedExperience')}</span>
+              <span className="font-medium">{formatMonths(parsed.totalExperienceMonths)}</span>
+            </div>
+            <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+              <span className="text-gray-600">{t('atsView.sectionsDetected')}</span>
+              <span className="font-medium text-right">
+                {parsed.sectionsFound.map((section) => t(`section.${section}`)).join(', ') || <Missing label={t('atsView.sections')} />}
+              </span>
+            </div>
+            {parsed.gaps.map((gap, index) => (
+              <div key={index} className="flex items-center gap-2 p-3 bg-orange-50 rounded-lg text-orange-700 border border-orange-100">
+                <AlertCircle className="w-4 h-4" />
+                <span>{t('atsView.gap', { duration: formatMonths(gap.months), from: formatDate(gap.from), to: formatDate(gap.to) })}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {parsed.summary && (
+        <div className="mt-6">
+          <h3 className="font-semibold text-gray-700 mb-3">{t('section.summary')}</h3>
+          <p className="text-gray-700 p-4 bg-gray-50 rounded-lg">{parsed.summary}</p>
+        </div>
+      )}
+
+      <div className="mt-6">
+        <h3 className="font-semibold text-gray-700 mb-3">{t('section.experience')}</h3>
+        {parsed.experience.length === 0 && <Missing label={t('atsView.workExperience')} />}
+        <div className="space-y-4">
+          {parsed.experience.map((entry, index) => (
+            <div key={index} className="p-4 bg-gray-50 rounded-lg border border-gray-100">
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <div>
+                  <span className="font-semibold text-gray-900">{entry.title ?? <Missing label={t('atsView.jobTitle')} />}</span>
+                  <span className="text-gray-500"> · </span>
+                  <span className="text-gray-700">{entry.company ?? <Missing label={t('atsView.company')} />}</span>
+                </div>
+                <span className="text-sm text-gray-500">{formatRange(entry) ?? <Missing label={t('atsView.dates')} />}</span>
+              </div>
+              {entry.bullets.length > 0 && (
+                <ul className="mt-3 space-y-1 text-sm text-gray-700 list-disc list-inside">
+                  {entry.bullets.map((bullet, bulletIndex) => (
+                    <li key={bulletIndex}>{bullet}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+        <div>
+          <div className="flex items-center gap-2 mb-3">
+            <GraduationCap className="w-5 h-5 text-blue-600" />
+            <h3 className="font-semibold text-gray-700">{t('section.education')}</h3>
+          </div>
+          {parsed.education.length === 0 && <Missing label={t('section.education')} />}
+          <div className="space-y-2">
+            {parsed.education.map((entry, index) => (
+              <div key={index} className="p-3 bg-gray-50 rounded-lg text-sm">
+                <div className="font-medium text-gray-900">{entry.degree ?? <Missing label={t('atsView.degree')} />}</div>
+                <div className="text-gray-600">
+                  {entry.institution ?? <Missing label={t('atsView.institution')} />}
+                  {entry.graduationDate && ` · ${formatDate(entry.graduationDate)}`}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h3 className="font-semibold text-gray-700 mb-3">{t('section.certifications')}</h3>
+          {parsed.certifications.length === 0 && <span className="text-gray-500 text-sm">{t('atsView.noneDetected')}</span>}
+          <div className="space-y-2">
+            {parsed.certifications.map((certification, index) => (
+              <div key={index} className="flex items-center gap-2 text-green-600 text-sm">
+                <CheckCircle className="w-4 h-4" />
+                <span>{certification}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-6">
+        <h3 className="font-semibold text-gray-700 mb-3">{t('section.skills')}</h3>
+        {parsed.skills.length === 0 && <Missing label={t('atsView.skillsList')} />}
+        <div className="flex flex-wrap gap-2">
+          {parsed.skills.map((skill, index) => (
+            <span key={index} className="px-4 py-2 bg-blue-50 text-blue-700 rounded-full text-sm font-medium border border-blue-100">
+              {skill}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AtsViewPanel;
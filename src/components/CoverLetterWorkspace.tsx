@@ -0,0 +1,255 @@
+import { useMemo, useState } from 'react';
+import { Eraser, FileDown, FileText, Loader2, Mail, Pencil } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { requestCoverLetter } from '../lib/analysisClient';
+import { COVER_LETTER_LIMITS, capList } from '../lib/apiTypes';
+import { COVER_LETTER_LENGTHS, COVER_LETTER_TONES, letterToText, splitResumeLines, traceLetter } from '../lib/coverLetter';
+import type { CoverLetterLength, CoverLetterTone, LetterSentence, TracedSentence } from '../lib/coverLetter';
+import { DOCX_MIME_TYPE, buildCoverLetterDocx, buildCoverLetterPdf, coverLetterFileName } from '../lib/coverLetter/export';
+import { downloadFile } from '../lib/download';
+import { t } from '../lib/i18n';
+import type { ProviderSettings } from '../lib/providers';
+import type { AnalysisResult } from '../types';
+
+interface CoverLetterWorkspaceProps {
+  result: AnalysisResult;
+  resumeText: string;
+  jobDescription: string;
+  fileName: string;
+  settings: ProviderSettings;
+}
+
+type ExportFormat = 'docx' | 'pdf' | 'txt';
+
+const SENTENCE_CLASSES: Record<TracedSentence['status'], string> = {
+  cited: 'bg-green-50 hover:bg-green-100 cursor-pointer',
+  unsupported: 'bg-red-100 text-red-800 cursor-pointer',
+  general: 'text-gray-700',
+};
+
+const CoverLetterWorkspace = ({ result, resumeText, jobDescription, fileName, settings }: CoverLetterWorkspaceProps) => {
+  const [tone, setTone] = useState<CoverLetterTone>('Professional');
+  const [length, setLength] = useState<CoverLetterLength>('standard');
+  const [loading, setLoading] = useState(false);
+  const [draft, setDraft] = useState<LetterSentence[]>([]);
+  const [text, setText] = useState('');
+  const [editing, setEditing] = useState(false);
+  const [selected, setSelected] = useState<TracedSentence | null>(null);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const lines = useMemo(() => splitResumeLines(resumeText), [resumeText]);
+  const traced = useMemo(() => traceLetter(text, draft, lines), [text, draft, lines]);
+  const unsupported = traced.flat().filter((sentence) => sentence.status === 'unsupported').length;
+  const cited = traced.flat().filter((sentence) => sentence.status === 'cited').length;
+
+  const generate = async () => {
+    setLoading(true);
+    try {
+      const letter = await requestCoverLetter(settings, {
+        lines,
+        matchedSkills: capList(result.skills_match.matched, COVER_LETTER_LIMITS.maxTerms, COVER_LETTER_LIMITS.maxTermChars),
+        metRequirements: capList(
+          result.job_requirements_coverage.met_requirements,
+          COVER_LETTER_LIMITS.maxTerms,
+          COVER_LETTER_LIMITS.maxRequirementChars,
+        ),
+        jobDescription,
+        tone,
+        length,
+      });
+      setDraft(letter.paragraphs.flat());
+      setText(letterToText(letter));
+      setEditing(false);
+      setSelected(null);
+    } catch (error) {
+      console.error('Failed to write the cover letter:', error);
+      toast.error(t('coverLetter.failed'), {
+        position: 'top-right',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const removeUnsupported = () => {
+    setText(
+      traced
+        .map((paragraph) =>
+          paragraph
+            .filter((sentence) => sentence.status !== 'unsupported')
+            .map((sentence) => sentence.text)
+            .join(' '),
+        )
+        .filter(Boolean)
+        .join('\n\n'),
+    );
+    setSelected(null);
+  };
+
+  const exportLetter = async (format: ExportFormat) => {
+    const baseName = coverLetterFileName(fileName);
+    setExporting(format);
+    try {
+      if (format === 'docx') {
+        downloadFile(await buildCoverLetterDocx(text), `${baseName}.docx`, DOCX_MIME_TYPE);
+      } else if (format === 'pdf') {
+        downloadFile(await buildCoverLetterPdf(text), `${baseName}.pdf`, 'application/pdf');
+      } else {
+        downloadFile(text, `${baseName}.txt`, 'text/plain');
+      }
+    } catch (error) {
+      console.error('Failed to export the cover letter:', error);
+      toast.error(t('coverLetter.exportFailed'), {
+        position: 'top-right',
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+        <div className="flex items-center gap-3">
+          <Mail className="w-6 h-6 text-blue-600" />
+          <h2 className="text-xl font-bold text-gray-900">{t('coverLetter.title')}</h2>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={tone}
+            onChange={(e) => setTone(e.target.value as CoverLetterTone)}
+            className="p-2 rounded-lg border border-gray-300 text-sm"
+            aria-label={t('coverLetter.tone')}
+          >
+            {COVER_LETTER_TONES.map((option) => (
+              <option key={option} value={option}>
+                {t(`coverTone.${option}`)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={length}
+            onChange={(e) => setLength(e.target.value as CoverLetterLength)}
+            className="p-2 rounded-lg border border-gray-300 text-sm"
+            aria-label={t('coverLetter.length')}
+          >
+            {(Object.keys(COVER_LETTER_LENGTHS) as CoverLetterLength[]).map((id) => (
+              <option key={id} value={id}>
+                {t('coverLetter.lengthOption', { label: t(`coverLength.${id}`), words: COVER_LETTER_LENGTHS[id].words })}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={generate}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />}
+            {text ? t('coverLetter.regenerate') : t('coverLetter.generate')}
+          </button>
+        </div>
+      </div>
+      <p className="text-gray-600 mb-6">{t('coverLetter.description')}</p>
+
+      {text && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+            <span className="px-2 py-0.5 bg-green-50 text-green-700 rounded-full border border-green-100">{t('coverLetter.cited', { count: cited })}</span>
+            {unsupported > 0 && (
+              <>
+                <span className="px-2 py-0.5 bg-red-50 text-red-700 rounded-full border border-red-100">{t('coverLetter.unsupported', { count: unsupported })}</span>
+                <button
+                  type="button"
+                  onClick={removeUnsupported}
+                  className="flex items-center gap-1 px-3 py-1 rounded-lg font-medium text-gray-700 bg-white border border-gray-200 hover:bg-gray-50"
+                >
+                  <Eraser className="w-4 h-4" />
+                  {t('coverLetter.removeUnsupported')}
+                </button>
+              </>
+            )}
+            <button
+              type="button"
+              onClick={() => setEditing(!editing)}
+              className="ml-auto flex items-center gap-1 px-3 py-1 rounded-lg font-medium text-gray-700 bg-white border border-gray-200 hover:bg-gray-50"
+            >
+              <Pencil className="w-4 h-4" />
+              {editing ? t('action.preview') : t('action.edit')}
+            </button>
+          </div>
+
+          {editing ? (
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={16}
+              className="p-4 block w-full rounded-xl border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          ) : (
+            <div className="p-6 bg-gray-50 rounded-lg border border-gray-100 space-y-4 leading-relaxed">
+              {traced.map((paragraph, paragraphIndex) => (
+                <p key={paragraphIndex}>
+                  {paragraph.map((sentence, sentenceIndex) => (
+                    <span key={sentenceIndex}>
+                      <span
+                        className={`rounded px-0.5 ${SENTENCE_CLASSES[sentence.status]}`}
+                        onClick={() => sentence.status !== 'general' && setSelected(sentence)}
+                      >
+                        {sentence.text}
+                      </span>{' '}
+                    </span>
+                  ))}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {selected && !editing && (
+            <div className="mt-3 p-4 rounded-lg border border-gray-100 bg-white text-sm">
+              {selected.sources.length > 0 ? (
+                <>
+                  <div className="font-medium text-gray-700 mb-1">{t('coverLetter.basedOn')}</div>
+                  {selected.sources.map((line) => (
+                    <div key={line.id} className="text-gray-600">
+                      <span className="text-xs text-gray-400 mr-2">{line.id}</span>
+                      {line.text}
+                    </div>
+                  ))}
+                </>
+              ) : (
+                <div className="text-red-700">{t('coverLetter.noSources')}</div>
+              )}
+              {selected.unmatchedFigures.length > 0 && (
+                <div className="mt-2 text-red-700">{t('coverLetter.unmatchedFigures', { figures: selected.unmatchedFigures.join(', ') })}</div>
+              )}
+            </div>
+          )}
+
+          <div className="mt-4 flex flex-wrap justify-end gap-2">
+            {(['docx', 'pdf', 'txt'] as const).map((format) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => exportLetter(format)}
+                disabled={exporting !== null || !text.trim()}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium text-gray-700 bg-white border border-gray-200 shadow-sm hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {exporting === format ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : format === 'pdf' ? (
+                  <FileDown className="w-4 h-4" />
+                ) : (
+                  <FileText className="w-4 h-4" />
+                )}
+                {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CoverLetterWorkspace;
@@ -0,0 +1,142 @@
+import { useEffect, useRef } from 'react';
+import { AlertTriangle, Briefcase, FileText, Link2, X } from 'lucide-react';
+import type { Evidence, EvidenceKind, EvidenceSpan } from '../lib/evidence';
+import { t } from '../lib/i18n';
+
+interface EvidenceViewerProps {
+  resumeText: string;
+  jobDescription: string;
+  evidence: Evidence | null;
+  unsupportedClaims: string[];
+  onSelect: (term: string) => void;
+  onClear: () => void;
+}
+
+const HIGHLIGHT_CLASSES: Record<EvidenceKind, string> = {
+  exact: 'bg-green-200 text-green-900',
+  synonym: 'bg-blue-200 text-blue-900',
+  fuzzy: 'bg-yellow-200 text-yellow-900',
+};
+
+const KINDS: EvidenceKind[] = ['exact', 'synonym', 'fuzzy'];
+
+const HighlightedText = ({ text, spans }: { text: string; spans: EvidenceSpan[] }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    // Scroll only the text pane so the page itself stays put.
+    const container = containerRef.current;
+    const mark = container?.querySelector('mark');
+    if (container && mark) {
+      container.scrollTo({
+        top: mark.offsetTop - container.offsetTop - container.clientHeight / 2,
+        behavior: 'smooth',
+      });
+    }
+  }, [spans]);
+
+  const parts = [];
+  let cursor = 0;
+  spans.forEach((span, index) => {
+    if (span.start < cursor) return;
+    parts.push(text.slice(cursor, span.start));
+    parts.push(
+      <mark key={index} className={`rounded px-0.5 ${HIGHLIGHT_CLASSES[span.kind]}`} title={t(`evidence.${span.kind}`)}>
+        {text.slice(span.start, span.end)}
+      </mark>,
+    );
+    cursor = span.end;
+  });
+  parts.push(text.slice(cursor));
+
+  return (
+    <div ref={containerRef} className="h-96 overflow-y-auto p-4 bg-gray-50 rounded-lg border border-gray-100 text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">
+      {parts}
+    </div>
+  );
+};
+
+const EvidenceViewer = ({ resumeText, jobDescription, evidence, unsupportedClaims, onSelect, onClear }: EvidenceViewerProps) => (
+  <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+    <div className="flex items-center justify-between gap-3 mb-2">
+      <div className="flex items-center gap-3">
+        <Link2 className="w-6 h-6 text-blue-600" />
+        <h2 className="text-xl font-bold text-gray-900">{t('evidence.title')}</h2>
+      </div>
+      {evidence && (
+        <button
+          type="button"
+          onClick={onClear}
+          className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700"
+        >
+          <X className="w-4 h-4" />
+          {t('evidence.clear')}
+        </button>
+      )}
+    </div>
+
+    {unsupportedClaims.length > 0 && (
+      <div className="mb-6 p-4 bg-orange-50 rounded-lg border border-orange-100">
+        <div className="flex items-center gap-2 text-orange-800 font-semibold mb-3">
+          <AlertTriangle className="w-4 h-4" />
+          {t('evidence.hallucinations', { count: unsupportedClaims.length })}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {unsupportedClaims.map((claim) => (
+            <button
+              key={claim}
+              type="button"
+              onClick={() => onSelect(claim)}
+              className="px-3 py-1 bg-white text-orange-700 rounded-full text-sm font-medium border border-orange-200 hover:bg-orange-100"
+            >
+              {claim}
+            </button>
+          ))}
+        </div>
+      </div>
+    )}
+
+    {evidence ? (
+      <div className="mb-6">
+        <p className="text-gray-700">
+          <span className="font-semibold">{t('evidence.showing', { term: evidence.term })}</span>{' '}
+          {t('evidence.counts', { count: evidence.resume.length, job: evidence.job.length })}
+        </p>
+        {!evidence.supported && (
+          <div className="mt-3 flex items-center gap-2 p-3 bg-orange-50 text-orange-700 rounded-lg border border-orange-100 text-sm">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            {t('evidence.notSupported')}
+          </div>
+        )}
+        <div className="mt-3 flex flex-wrap gap-3 text-xs">
+          {KINDS.map((kind) => (
+            <span key={kind} className={`px-2 py-1 rounded ${HIGHLIGHT_CLASSES[kind]}`}>
+              {t(`evidence.${kind}`)}
+            </span>
+          ))}
+        </div>
+      </div>
+    ) : (
+      <p className="text-gray-600 mb-6">{t('evidence.hint')}</p>
+    )}
+
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div>
+        <div className="flex items-center gap-2 mb-3">
+          <FileText className="w-5 h-5 text-blue-600" />
+          <h3 className="font-semibold text-gray-700">{t('evidence.resume')}</h3>
+        </div>
+        <HighlightedText text={resumeText} spans={evidence?.resume ?? []} />
+      </div>
+      <div>
+        <div className="flex items-center gap-2 mb-3">
+          <Briefcase className="w-5 h-5 text-blue-600" />
+          <h3 className="font-semibold text-gray-700">{t('evidence.jobDescription')}</h3>
+        </div>
+        <HighlightedText text={jobDescription} spans={evidence?.job ?? []} />
+      </div>
+    </div>
+  </div>
+);
+
+export default EvidenceViewer;
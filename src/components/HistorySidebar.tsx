@@ -0,0 +1,99 @@
+import { GitCompare, History, Trash2, X } from 'lucide-react';
+import type { AnalysisRecord } from '../lib/history';
+import { t } from '../lib/i18n';
+import { getScoreColor } from '../lib/scoreColor';
+
+interface HistorySidebarProps {
+  records: AnalysisRecord[];
+  activeId: string | null;
+  compareIds: string[];
+  onOpen: (record: AnalysisRecord) => void;
+  onToggleCompare: (id: string) => void;
+  onCompare: () => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const HistorySidebar = ({
+  records,
+  activeId,
+  compareIds,
+  onOpen,
+  onToggleCompare,
+  onCompare,
+  onDelete,
+  onClose,
+}: HistorySidebarProps) => (
+  <div className="fixed inset-0 z-40 flex justify-end">
+    <div className="absolute inset-0 bg-gray-900/30" onClick={onClose} />
+    <aside className="relative w-full max-w-md h-full bg-white shadow-xl flex flex-col">
+      <div className="flex items-center justify-between px-6 py-5 border-b border-gray-100">
+        <div className="flex items-center gap-3">
+          <History className="w-6 h-6 text-blue-600" />
+          <h2 className="text-xl font-bold text-gray-900">{t('history.title')}</h2>
+        </div>
+        <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="px-6 py-3 border-b border-gray-100 flex items-center justify-between text-sm text-gray-600">
+        <span>{t('history.selectHint')}</span>
+        <button
+          type="button"
+          onClick={onCompare}
+          disabled={compareIds.length !== 2}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          <GitCompare className="w-4 h-4" />
+          {t('history.compare')}
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {records.length === 0 && <p className="text-gray-500 text-sm text-center mt-8">{t('history.empty')}</p>}
+        {records.map((record) => (
+          <div
+            key={record.id}
+            className={`p-4 rounded-lg border ${
+              record.id === activeId ? 'border-blue-300 bg-blue-50' : 'border-gray-100 bg-gray-50'
+            }`}
+          >
+            <div className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={compareIds.includes(record.id)}
+                onChange={() => onToggleCompare(record.id)}
+                disabled={!compareIds.includes(record.id) && compareIds.length >= 2}
+                className="mt-1 accent-blue-600"
+                aria-label={t('history.selectForComparison')}
+              />
+              <button type="button" onClick={() => onOpen(record)} className="flex-1 text-left">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold text-gray-900 truncate">{record.fileName}</span>
+                  <span className={`font-bold ${getScoreColor(record.result.resume_score)}`}>
+                    {record.result.resume_score}%
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {new Date(record.createdAt).toLocaleString()} · {record.model}
+                </div>
+                <div className="text-xs text-gray-500 mt-1 truncate">{record.jobDescription.slice(0, 80)}</div>
+              </button>
+              <button
+                type="button"
+                onClick={() => onDelete(record.id)}
+                className="text-gray-400 hover:text-red-600"
+                aria-label={t('history.delete')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </aside>
+  </div>
+);
+
+export default HistorySidebar;
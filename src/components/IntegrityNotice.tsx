@@ -0,0 +1,49 @@
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { t } from '../lib/i18n';
+import type { PiiKind, SecurityFinding } from '../lib/privacy';
+
+interface IntegrityNoticeProps {
+  findings: SecurityFinding[];
+  redactions: Partial<Record<PiiKind, number>>;
+}
+
+const describeRedactions = (redactions: Partial<Record<PiiKind, number>>) =>
+  (Object.entries(redactions) as [PiiKind, number][])
+    .map(([kind, count]) => t(`pii.${kind}`, { count }))
+    .join(', ');
+
+const IntegrityNotice = ({ findings, redactions }: IntegrityNoticeProps) => {
+  const redacted = describeRedactions(redactions);
+
+  if (findings.length === 0) {
+    return (
+      <div className="flex items-start gap-3 p-4 bg-gray-50 rounded-xl border border-gray-100 text-sm text-gray-600">
+        <ShieldCheck className="w-5 h-5 flex-shrink-0 text-blue-600" />
+        <p>
+          {redacted ? t('integrity.redacted', { redacted }) : t('integrity.nothingRedacted')}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-orange-50 rounded-xl p-6 border border-orange-200 text-orange-800">
+      <div className="flex items-center gap-3">
+        <ShieldAlert className="w-6 h-6 text-orange-600" />
+        <h2 className="text-lg font-bold">{t('integrity.title')}</h2>
+      </div>
+      <p className="mt-2">{t('integrity.body')}</p>
+      <ul className="mt-3 space-y-2">
+        {findings.map((finding, index) => (
+          <li key={index} className="flex flex-col">
+            <span className="font-medium">{finding.message}</span>
+            {finding.excerpt && <span className="text-sm text-orange-700 break-words">“{finding.excerpt}”</span>}
+          </li>
+        ))}
+      </ul>
+      {redacted && <p className="mt-3 text-sm">{t('integrity.redactedSummary', { redacted })}</p>}
+    </div>
+  );
+};
+
+export default IntegrityNotice;
@@ -0,0 +1,202 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CheckCircle2, ChevronDown, ChevronRight, Circle, Loader2, MessagesSquare } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { requestInterviewPrep } from '../lib/analysisClient';
+import { INTERVIEW_PREP_LIMITS } from '../lib/apiTypes';
+import { splitResumeLines } from '../lib/coverLetter';
+import { t } from '../lib/i18n';
+import { collectGaps } from '../lib/interviewPrep';
+import type { InterviewQuestion, QuestionType, StarOutline } from '../lib/interviewPrep';
+import { interviewPrepKey, loadInterviewPrep, saveInterviewPrep } from '../lib/interviewPrep/storage';
+import type { InterviewPrepSession } from '../lib/interviewPrep/storage';
+import type { ProviderSettings } from '../lib/providers';
+import type { AnalysisResult } from '../types';
+
+interface InterviewPrepPanelProps {
+  result: AnalysisResult;
+  resumeText: string;
+  jobDescription: string;
+  settings: ProviderSettings;
+}
+
+type QuestionFilter = 'all' | QuestionType;
+
+const FILTERS: QuestionFilter[] = ['all', 'technical', 'behavioral'];
+
+const STAR_STEPS: (keyof StarOutline)[] = ['situation', 'task', 'action', 'result'];
+
+const InterviewPrepPanel = ({ result, resumeText, jobDescription, settings }: InterviewPrepPanelProps) => {
+  const [storageKey, setStorageKey] = useState<string | null>(null);
+  const [session, setSession] = useState<InterviewPrepSession | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [filter, setFilter] = useState<QuestionFilter>('all');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const gaps = useMemo(() => collectGaps(result), [result]);
+  const lines = useMemo(() => splitResumeLines(resumeText, INTERVIEW_PREP_LIMITS), [resumeText]);
+  const linesById = useMemo(() => new Map(lines.map((line) => [line.id, line])), [lines]);
+
+  useEffect(() => {
+    let cancelled = false;
+    interviewPrepKey(resumeText, jobDescription).then((key) => {
+      if (cancelled) return;
+      setStorageKey(key);
+      setSession(loadInterviewPrep(key));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [resumeText, jobDescription]);
+
+  const updateSession = (next: InterviewPrepSession) => {
+    setSession(next);
+    if (storageKey) saveInterviewPrep(storageKey, next);
+  };
+
+  const generate = async () => {
+    setLoading(true);
+    try {
+      const questions = await requestInterviewPrep(settings, { gaps, lines, jobDescription });
+      updateSession({ gaps, questions, practiced: [], updatedAt: Date.now() });
+      setExpanded(null);
+    } catch (error) {
+      console.error('Failed to prepare interview questions:', error);
+      toast.error(t('interviewPrep.failed'), {
+        position: 'top-right',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const togglePracticed = (question: InterviewQuestion) => {
+    if (!session) return;
+    const practiced = session.practiced.includes(question.id)
+      ? session.practiced.filter((id) => id !== question.id)
+      : [...session.practiced, question.id];
+    updateSession({ ...session, practiced, updatedAt: Date.now() });
+  };
+
+  const questions = session?.questions ?? [];
+  const visible = questions.filter((question) => filter === 'all' || question.type === filter);
+  const practicedCount = questions.filter((question) => session?.practiced.includes(question.id)).length;
+  const gapsById = new Map((session?.gaps ?? gaps).map((gap) => [gap.id, gap]));
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+        <div className="flex items-center gap-3">
+          <MessagesSquare className="w-6 h-6 text-blue-600" />
+          <h2 className="text-xl font-bold text-gray-900">{t('interviewPrep.title')}</h2>
+        </div>
+        <button
+          type="button"
+          onClick={generate}
+          disabled={loading || gaps.length === 0}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <MessagesSquare className="w-4 h-4" />}
+          {questions.length ? t('interviewPrep.regenerate') : t('interviewPrep.generate')}
+        </button>
+      </div>
+      <p className="text-gray-600 mb-6">
+        {gaps.length ? t('interviewPrep.description', { count: gaps.length }) : t('interviewPrep.noGaps')}
+      </p>
+
+      {questions.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <div className="flex rounded-lg border border-gray-200 overflow-hidden text-sm">
+              {FILTERS.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setFilter(option)}
+                  className={`px-3 py-1.5 font-medium ${filter === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {t(`interviewPrep.${option}`)}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2 ml-auto text-sm text-gray-600">
+              <div className="w-32 h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div className="h-full bg-green-500" style={{ width: `${(practicedCount / questions.length) * 100}%` }} />
+              </div>
+              {t('interviewPrep.practiced', { count: practicedCount, total: questions.length })}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {visible.map((question) => {
+              const gap = gapsById.get(question.gapId);
+              const practiced = session?.practiced.includes(question.id) ?? false;
+              const open = expanded === question.id;
+              return (
+                <div key={question.id} className={`rounded-lg border p-4 ${practiced ? 'border-green-200 bg-green-50' : 'border-gray-100 bg-gray-50'}`}>
+                  <div className="flex items-start gap-3">
+                    <button
+                      type="button"
+                      onClick={() => togglePracticed(question)}
+                      className="mt-0.5 shrink-0"
+                      aria-label={practiced ? t('interviewPrep.markNotPracticed') : t('interviewPrep.markPracticed')}
+                      title={practiced ? t('interviewPrep.markNotPracticed') : t('interviewPrep.markPracticed')}
+                    >
+                      {practiced ? <CheckCircle2 className="w-5 h-5 text-green-600" /> : <Circle className="w-5 h-5 text-gray-400" />}
+                    </button>
+                    <div className="flex-1">
+                      <div className="flex flex-wrap gap-2 mb-1 text-xs">
+                        <span className="px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 border border-blue-100">
+                          {t(`interviewPrep.${question.type}`)}
+                        </span>
+                        {gap && (
+                          <span className="px-2 py-0.5 rounded-full bg-amber-50 text-amber-800 border border-amber-100">
+                            {t(`gap.${gap.kind}`)}: {gap.label}
+                          </span>
+                        )}
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => setExpanded(open ? null : question.id)}
+                        className="flex items-start gap-1 text-left font-medium text-gray-900"
+                      >
+                        {open ? <ChevronDown className="w-4 h-4 mt-1 shrink-0" /> : <ChevronRight className="w-4 h-4 mt-1 shrink-0" />}
+                        {question.question}
+                      </button>
+
+                      {open && (
+                        <div className="mt-3 ml-5 space-y-2 text-sm">
+                          {STAR_STEPS.map(
+                            (step) =>
+                              question.outline[step] && (
+                                <div key={step}>
+                                  <span className="font-medium text-gray-700">{t(`star.${step}`)}: </span>
+                                  <span className="text-gray-600">{question.outline[step]}</span>
+                                </div>
+                              ),
+                          )}
+                          {question.sources.length > 0 && (
+                            <div className="pt-2 border-t border-gray-200">
+                              <div className="text-xs font-medium text-gray-500 mb-1">{t('interviewPrep.fromResume')}</div>
+                              {question.sources.map((id) => (
+                                <div key={id} className="text-gray-600">
+                                  <span className="text-xs text-gray-400 mr-2">{id}</span>
+                                  {linesById.get(id)?.text}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InterviewPrepPanel;
@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, ListChecks, Plus, RotateCcw, Trash2, X } from 'lucide-react';
+import { t } from '../lib/i18n';
+import { SENIORITY_LEVELS, WORK_ARRANGEMENTS, createRequirement } from '../lib/jobParser';
+import type { JobRequirement, ParsedJobDescription, RequirementPriority, Seniority, WorkArrangement } from '../lib/jobParser';
+
+interface JobDescriptionEditorProps {
+  job: ParsedJobDescription;
+  edited: boolean;
+  onChange: (job: ParsedJobDescription) => void;
+  onReset: () => void;
+}
+
+const INPUT_CLASS = 'p-2 block w-full rounded-xl border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm';
+
+const PRIORITY_CLASSES: Record<RequirementPriority, string> = {
+  'must-have': 'bg-blue-600 text-white border-blue-600',
+  'nice-to-have': 'bg-white text-gray-600 border-gray-200',
+};
+
+const togglePriority = (priority: RequirementPriority): RequirementPriority =>
+  priority === 'must-have' ? 'nice-to-have' : 'must-have';
+
+const AddInput = ({ placeholder, onAdd }: { placeholder: string; onAdd: (value: string) => void }) => {
+  const [value, setValue] = useState('');
+
+  const add = () => {
+    if (!value.trim()) return;
+    onAdd(value.trim());
+    setValue('');
+  };
+
+  return (
+    <div className="flex gap-2 mt-2">
+      <input
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && add()}
+        placeholder={placeholder}
+        className={INPUT_CLASS}
+      />
+      <button
+        type="button"
+        onClick={add}
+        disabled={!value.trim()}
+        className="flex items-center gap-1 px-3 py-2 rounded-xl text-sm font-medium text-gray-700 bg-white border border-gray-200 hover:bg-gray-50 disabled:opacity-60"
+      >
+        <Plus className="w-4 h-4" />
+        {t('jobEditor.add')}
+      </button>
+    </div>
+  );
+};
+
+const JobDescriptionEditor = ({ job, edited, onChange, onReset }: JobDescriptionEditorProps) => {
+  const [open, setOpen] = useState(false);
+
+  const update = (changes: Partial<ParsedJobDescription>) => onChange({ ...job, ...changes });
+  const updateRequirement = (id: string, changes: Partial<JobRequirement>) =>
+    update({
+      requirements: job.requirements.map((requirement) =>
+        requirement.id === id ? { ...createRequirement(changes.text ?? requirement.text, requirement.priority, id), ...changes } : requirement,
+      ),
+    });
+
+  const mustHaves = job.requirements.filter((requirement) => requirement.priority === 'must-have').length;
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 rounded-xl border border-gray-100">
+      <button type="button" onClick={() => setOpen(!open)} className="w-full flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2">
+          <ListChecks className="w-5 h-5 text-blue-600" />
+          <span className="font-semibold text-gray-700">{t('jobEditor.title')}</span>
+          <span className="text-sm text-gray-500">
+            {t('jobEditor.summary', { mustHaves, niceToHaves: job.requirements.length - mustHaves })}
+            {edited && t('jobEditor.edited')}
+          </span>
+        </span>
+        {open ? <ChevronUp className="w-5 h-5 text-gray-500" /> : <ChevronDown className="w-5 h-5 text-gray-500" />}
+      </button>
+
+      {open && (
+        <div className="mt-4 space-y-6 text-sm">
+          <p className="text-gray-600">{t('jobEditor.description')}</p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="block">
+              <span className="text-gray-700 font-medium">{t('jobEditor.jobTitle')}</span>
+              <input value={job.title ?? ''} onChange={(e) => update({ title: e.target.value || null })} className={`mt-1 ${INPUT_CLASS}`} />
+            </label>
+            <label className="block">
+              <span className="text-gray-700 font-medium">{t('jobEditor.seniority')}</span>
+              <select
+                value={job.seniority ?? ''}
+                onChange={(e) => update({ seniority: (e.target.value || null) as Seniority | null })}
+                className={`mt-1 ${INPUT_CLASS}`}
+              >
+                <option value="">{t('jobEditor.notStated')}</option>
+                {SENIORITY_LEVELS.map((level) => (
+                  <option key={level} value={level}>
+                    {level}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-gray-700 font-medium">{t('jobEditor.minYears')}</span>
+              <input
+                type="number"
+                min={0}
+                max={40}
+                value={job.minYearsExperience ?? ''}
+                onChange={(e) => update({ minYearsExperience: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+                className={`mt-1 ${INPUT_CLASS}`}
+              />
+            </label>
+            <label className="block">
+              <span className="text-gray-700 font-medium">{t('jobEditor.location')}</span>
+              <input
+                value={job.location ?? ''}
+                onChange={(e) => update({ location: e.target.value || null })}
+                className={`mt-1 ${INPUT_CLASS}`}
+              />
+            </label>
+            <label className="block">
+              <span className="text-gray-700 font-medium">{t('jobEditor.workArrangement')}</span>
+              <select
+                value={job.workArrangement ?? ''}
+                onChange={(e) => update({ workArrangement: (e.target.value || null) as WorkArrangement | null })}
+                className={`mt-1 ${INPUT_CLASS}`}
+              >
+                <option value="">{t('jobEditor.notStated')}</option>
+                {WORK_ARRANGEMENTS.map((arrangement) => (
+                  <option key={arrangement} value={arrangement}>
+                    {arrangement}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-gray-700 mb-2">{t('jobEditor.skills')}</h4>
+            <div className="flex flex-wrap gap-2">
+              {job.skills.map((skill) => (
+                <span
+                  key={skill.name}
+                  className={`inline-flex items-center gap-1 pl-3 pr-2 py-1 rounded-full border text-sm ${PRIORITY_CLASSES[skill.priority]}`}
+                >
+                  <button
+                    type="button"
+                    onClick={() =>
+                      update({
+                        skills: job.skills.map((other) =>
+                          other.name === skill.name ? { ...other, priority: togglePriority(other.priority) } : other,
+                        ),
+                      })
+                    }
+                    title={skill.priority === 'must-have' ? t('jobEditor.mustHaveHint') : t('jobEditor.niceToHaveHint')}
+                  >
+                    {skill.name}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => update({ skills: job.skills.filter((other) => other.name !== skill.name) })}
+                    aria-label={t('jobEditor.removeSkill', { name: skill.name })}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              {job.skills.length === 0 && <span className="text-gray-500">{t('jobEditor.noSkills')}</span>}
+            </div>
+            <AddInput
+              placeholder={t('jobEditor.addSkill')}
+              onAdd={(name) =>
+                !job.skills.some((skill) => skill.name.toLowerCase() === name.toLowerCase()) &&
+                update({ skills: [...job.skills, { name, priority: 'must-have' }] })
+              }
+            />
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-gray-700 mb-2">{t('jobEditor.requirements')}</h4>
+            <div className="space-y-2">
+              {job.requirements.map((requirement) => (
+                <div key={requirement.id} className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => updateRequirement(requirement.id, { priority: togglePriority(requirement.priority) })}
+                    className={`w-28 flex-shrink-0 px-2 py-1 rounded-full border text-xs font-medium ${PRIORITY_CLASSES[requirement.priority]}`}
+                  >
+                    {requirement.priority === 'must-have' ? t('jobEditor.mustHave') : t('jobEditor.niceToHave')}
+                  </button>
+                  <input
+                    value={requirement.text}
+                    onChange={(e) => updateRequirement(requirement.id, { text: e.target.value })}
+                    className={INPUT_CLASS}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => update({ requirements: job.requirements.filter((other) => other.id !== requirement.id) })}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label={t('jobEditor.removeRequirement')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              {job.requirements.length === 0 && <p className="text-gray-500">{t('jobEditor.noRequirements')}</p>}
+            </div>
+            <AddInput
+              placeholder={t('jobEditor.addRequirement')}
+              onAdd={(text) => update({ requirements: [...job.requirements, createRequirement(text, 'must-have')] })}
+            />
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-gray-700 mb-2">{t('jobEditor.responsibilities')}</h4>
+            <div className="space-y-2">
+              {job.responsibilities.map((responsibility, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="flex-1 text-gray-700">{responsibility}</span>
+                  <button
+                    type="button"
+                    onClick={() => update({ responsibilities: job.responsibilities.filter((_, other) => other !== index) })}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label={t('jobEditor.removeResponsibility')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              {job.responsibilities.length === 0 && <p className="text-gray-500">{t('jobEditor.noResponsibilities')}</p>}
+            </div>
+          </div>
+
+          {edited && (
+            <button type="button" onClick={onReset} className="flex items-center gap-1 text-gray-500 hover:text-gray-700">
+              <RotateCcw className="w-4 h-4" />
+              {t('jobEditor.reset')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobDescriptionEditor;
@@ -0,0 +1,181 @@
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Download, Users } from 'lucide-react';
+import { isRunBusy, sortCandidates, topMissingRequirements } from '../lib/batch';
+import type { BatchCandidate, RankingKey } from '../lib/batch';
+import { toCsv } from '../lib/csv';
+import { downloadFile } from '../lib/download';
+import { t } from '../lib/i18n';
+import { getScoreColor } from '../lib/scoreColor';
+import { ATS_LEVELS } from '../types';
+import RunStatusBadge from './RunStatusBadge';
+
+interface RankingTableProps {
+  candidates: BatchCandidate[];
+  openId: string | null;
+  onOpen: (candidate: BatchCandidate) => void;
+}
+
+const COLUMNS: RankingKey[] = ['fileName', 'score', 'ats', 'match'];
+
+const RankingTable = ({ candidates, openId, onOpen }: RankingTableProps) => {
+  const [sortKey, setSortKey] = useState<RankingKey>('score');
+  const [descending, setDescending] = useState(true);
+  const [query, setQuery] = useState('');
+  const [atsFilter, setAtsFilter] = useState('');
+  const [minScore, setMinScore] = useState(0);
+
+  const rows = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const filtered = candidates.filter((candidate) => {
+      const { result } = candidate;
+      if (atsFilter && result?.ats_compatibility !== atsFilter) return false;
+      if (minScore > 0 && (result?.resume_score ?? 0) < minScore) return false;
+      if (!needle) return true;
+      return [candidate.fileName, ...topMissingRequirements(candidate)].some((text) => text.toLowerCase().includes(needle));
+    });
+    return sortCandidates(filtered, sortKey, descending);
+  }, [candidates, sortKey, descending, query, atsFilter, minScore]);
+
+  const finished = candidates.filter((candidate) => !isRunBusy(candidate.status) && candidate.status !== 'queued').length;
+
+  const toggleSort = (key: RankingKey) => {
+    if (key === sortKey) {
+      setDescending(!descending);
+    } else {
+      setSortKey(key);
+      setDescending(key !== 'fileName');
+    }
+  };
+
+  const exportCsv = () => {
+    const csv = toCsv([
+      [
+        t('ranking.rank'),
+        t('ranking.fileName'),
+        t('ranking.status'),
+        t('summary.resumeScore'),
+        t('summary.atsCompatibility'),
+        t('ranking.matchPercent'),
+        t('ranking.missingRequirements'),
+        t('ranking.error'),
+      ],
+      ...rows.map((candidate, index) => [
+        index + 1,
+        candidate.fileName,
+        t(`runStatus.${candidate.status}`),
+        candidate.result?.resume_score,
+        candidate.result && t(`ats.${candidate.result.ats_compatibility}`),
+        candidate.result?.skills_match.match_percentage,
+        topMissingRequirements(candidate).join('; '),
+        candidate.error,
+      ]),
+    ]);
+    downloadFile(csv, 'candidate-ranking.csv', 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <div className="mt-8 bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <Users className="w-6 h-6 text-blue-600" />
+          <h2 className="text-xl font-bold text-gray-900">{t('ranking.title')}</h2>
+          <span className="text-sm text-gray-500">{t('ranking.progress', { count: finished, total: candidates.length })}</span>
+        </div>
+        <button
+          type="button"
+          onClick={exportCsv}
+          disabled={rows.length === 0}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          <Download className="w-4 h-4" />
+          {t('ranking.exportCsv')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('ranking.filterPlaceholder')}
+          className="p-2 block w-full rounded-xl border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+        />
+        <select
+          value={atsFilter}
+          onChange={(e) => setAtsFilter(e.target.value)}
+          className="p-2 block w-full rounded-xl border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+        >
+          <option value="">{t('ranking.anyAts')}</option>
+          {ATS_LEVELS.map((level) => (
+            <option key={level} value={level}>
+              {t(`ats.${level}`)}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-3 text-sm text-gray-700">
+          <span className="whitespace-nowrap">{t('ranking.minScore', { score: minScore })}</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={minScore}
+            onChange={(e) => setMinScore(Number(e.target.value))}
+            className="w-full accent-blue-600"
+          />
+        </label>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead>
+            <tr className="border-b border-gray-200 text-gray-600">
+              <th className="py-3 pr-4 font-semibold">#</th>
+              {COLUMNS.map((column) => (
+                <th key={column} className="py-3 pr-4 font-semibold">
+                  <button type="button" onClick={() => toggleSort(column)} className="flex items-center gap-1 hover:text-gray-900">
+                    {t(`ranking.${column}`)}
+                    {sortKey === column &&
+                      (descending ? <ArrowDown className="w-4 h-4" /> : <ArrowUp className="w-4 h-4" />)}
+                  </button>
+                </th>
+              ))}
+              <th className="py-3 pr-4 font-semibold">{t('ranking.missingRequirements')}</th>
+              <th className="py-3 font-semibold">{t('ranking.status')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((candidate, index) => {
+              const { result } = candidate;
+              return (
+                <tr
+                  key={candidate.id}
+                  onClick={() => result && onOpen(candidate)}
+                  className={`border-b border-gray-100 ${result ? 'cursor-pointer hover:bg-gray-50' : ''} ${
+                    candidate.id === openId ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <td className="py-3 pr-4 text-gray-500">{index + 1}</td>
+                  <td className="py-3 pr-4 font-medium text-gray-900">{candidate.fileName}</td>
+                  <td className={`py-3 pr-4 font-bold ${result ? getScoreColor(result.resume_score) : 'text-gray-400'}`}>
+                    {result ? `${result.resume_score}%` : '—'}
+                  </td>
+                  <td className="py-3 pr-4">{result ? t(`ats.${result.ats_compatibility}`) : '—'}</td>
+                  <td className="py-3 pr-4">{result ? `${result.skills_match.match_percentage}%` : '—'}</td>
+                  <td className="py-3 pr-4 text-gray-600">
+                    {candidate.error ?? (topMissingRequirements(candidate).join(', ') || '—')}
+                  </td>
+                  <td className="py-3">
+                    <RunStatusBadge run={candidate} />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {rows.length === 0 && <p className="text-gray-500 text-sm text-center mt-6">{t('ranking.noMatches')}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default RankingTable;
@@ -0,0 +1,38 @@
+import { Download, FileDown, FileJson, FileText, Loader2 } from 'lucide-react';
+import { t } from '../lib/i18n';
+
+export type ReportFormat = 'pdf' | 'markdown' | 'json';
+
+interface ReportToolbarProps {
+  exporting: ReportFormat | null;
+  onExport: (format: ReportFormat) => void;
+}
+
+const FORMATS = [
+  { id: 'pdf', label: 'PDF', icon: FileDown },
+  { id: 'markdown', label: 'Markdown', icon: FileText },
+  { id: 'json', label: 'JSON', icon: FileJson },
+] as const;
+
+const ReportToolbar = ({ exporting, onExport }: ReportToolbarProps) => (
+  <div data-html2canvas-ignore className="flex flex-wrap items-center justify-end gap-2">
+    <span className="flex items-center gap-2 text-sm text-gray-600 mr-1">
+      <Download className="w-4 h-4 text-blue-600" />
+      {t('report.export')}
+    </span>
+    {FORMATS.map((format) => (
+      <button
+        key={format.id}
+        type="button"
+        onClick={() => onExport(format.id)}
+        disabled={exporting !== null}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium text-gray-700 bg-white border border-gray-200 shadow-sm hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        {exporting === format.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <format.icon className="w-4 h-4" />}
+        {format.label}
+      </button>
+    ))}
+  </div>
+);
+
+export default ReportToolbar;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { CheckCircle, Upload } from 'lucide-react';
+import { MAX_RESUME_BYTES, RESUME_ACCEPT, RESUME_TYPE_LABELS } from '../lib/extraction';
+import { t } from '../lib/i18n';
+
+interface ResumeDropzoneProps {
+  files: File[];
+  onFiles: (files: File[]) => void;
+  multiple?: boolean;
+}
+
+const ResumeDropzone = ({ files, onFiles, multiple = false }: ResumeDropzoneProps) => {
+  const [dragging, setDragging] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      onFiles(Array.from(e.target.files));
+    }
+    // Allow picking the same file again after a failed validation.
+    e.target.value = '';
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    // Ignore leave events fired when moving between children of the drop zone.
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setDragging(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      onFiles(multiple ? Array.from(e.dataTransfer.files) : [e.dataTransfer.files[0]]);
+    }
+  };
+
+  return (
+    <>
+      <div
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        className={`mt-2 flex justify-center px-6 pt-5 pb-6 border-2 border-dashed rounded-xl transition-colors duration-200 ${
+          dragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-blue-400'
+        }`}
+      >
+        <div className="space-y-2 text-center">
+          <Upload className={`mx-auto h-12 w-12 ${dragging ? 'text-blue-500' : 'text-gray-400'}`} />
+          <div className="flex text-sm text-gray-600">
+            <label className="relative cursor-pointer bg-white rounded-md font-medium text-blue-600 hover:text-blue-500 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-blue-500">
+              <span>{multiple ? t('dropzone.uploadFiles') : t('dropzone.uploadFile')}</span>
+              <input
+                type="file"
+                accept={RESUME_ACCEPT}
+                multiple={multiple}
+                className="sr-only"
+                onChange={handleChange}
+              />
+            </label>
+            <p className="pl-1">{t('dropzone.dragAndDrop')}</p>
+          </div>
+          <p className="text-xs text-gray-500">
+            {t(multiple ? 'dropzone.limitsEach' : 'dropzone.limits', {
+              types: RESUME_TYPE_LABELS,
+              size: Math.round(MAX_RESUME_BYTES / (1024 * 1024)),
+            })}
+          </p>
+        </div>
+      </div>
+      {files.length === 1 && (
+        <div className="mt-3 text-sm text-gray-500 flex items-center gap-2">
+          <CheckCircle className="w-4 h-4 text-green-500" />
+          <span>{t('dropzone.selectedFile', { name: files[0].name })}</span>
+        </div>
+      )}
+      {files.length > 1 && (
+        <div className="mt-3 text-sm text-gray-500 flex items-center gap-2">
+          <CheckCircle className="w-4 h-4 text-green-500" />
+          <span>{t('dropzone.selectedFiles', { count: files.length })}</span>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ResumeDropzone;
@@ -0,0 +1,277 @@
+import { useMemo, useState } from 'react';
+import { Check, Copy, Loader2, Pencil, RefreshCw, Undo2, Wand2, X } from 'lucide-react';
+import { toast } from 'react-toastify';
+import { requestRewrites } from '../lib/analysisClient';
+import { REWRITE_LIMITS, capList } from '../lib/apiTypes';
+import { diffWords } from '../lib/diff';
+import { t } from '../lib/i18n';
+import type { ProviderSettings } from '../lib/providers';
+import type { ParsedResume } from '../lib/resumeParser';
+import { applyRewrites, findWeakBullets } from '../lib/rewrite';
+import type { ResumeBullet } from '../lib/rewrite';
+import { scoreResume } from '../lib/scoring';
+import type { AnalysisResult } from '../types';
+
+interface RewriteWorkspaceProps {
+  parsed: ParsedResume;
+  result: AnalysisResult;
+  resumeText: string;
+  jobDescription: string;
+  settings: ProviderSettings;
+  rescoring: boolean;
+  onRescore: (resumeText: string) => void;
+}
+
+type SuggestionStatus = 'pending' | 'accepted' | 'rejected';
+
+interface Suggestion {
+  bullet: ResumeBullet;
+  draft: string;
+  status: SuggestionStatus;
+  editing: boolean;
+}
+
+const InlineDiff = ({ before, after }: { before: string; after: string }) => (
+  <p className="text-sm leading-relaxed">
+    {diffWords(before, after).map((part, index) => (
+      <span
+        key={index}
+        className={
+          part.type === 'added'
+            ? 'bg-green-100 text-green-800'
+            : part.type === 'removed'
+              ? 'bg-red-100 text-red-800 line-through'
+              : 'text-gray-700'
+        }
+      >
+        {part.value}
+      </span>
+    ))}
+  </p>
+);
+
+const ScoreDelta = ({ label, before, after }: { label: string; before: number; after: number }) => {
+  const delta = after - before;
+  return (
+    <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+      <span className="text-gray-600">{label}</span>
+      <span className="font-medium">
+        {before}% → {after}%
+        <span className={`ml-2 ${delta > 0 ? 'text-green-600' : delta < 0 ? 'text-red-600' : 'text-gray-400'}`}>
+          {delta > 0 ? `+${delta}` : delta}
+        </span>
+      </span>
+    </div>
+  );
+};
+
+const RewriteWorkspace = ({ parsed, result, resumeText, jobDescription, settings, rescoring, onRescore }: RewriteWorkspaceProps) => {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const missingKeywords = result.keywords_analysis.missing_keywords;
+  const missingRequirements = result.job_requirements_coverage.missing_requirements;
+  const weakBullets = useMemo(
+    () => findWeakBullets(parsed, [...missingKeywords, ...result.skills_match.missing]),
+    [parsed, missingKeywords, result.skills_match.missing],
+  );
+
+  const workingText = useMemo(
+    () =>
+      applyRewrites(
+        resumeText,
+        suggestions
+          .filter((suggestion) => suggestion.status === 'accepted')
+          .map((suggestion) => ({ original: suggestion.bullet.text, replacement: suggestion.draft })),
+      ),
+    [resumeText, suggestions],
+  );
+
+  const originalScores = useMemo(() => scoreResume(resumeText, jobDescription), [resumeText, jobDescription]);
+  const workingScores = useMemo(() => scoreResume(workingText, jobDescription), [workingText, jobDescription]);
+  const acceptedCount = suggestions.filter((suggestion) => suggestion.status === 'accepted').length;
+
+  const suggestRewrites = async () => {
+    setLoading(true);
+    try {
+      const rewrites = await requestRewrites(settings, {
+        bullets: weakBullets.filter(({ text }) => text.length <= REWRITE_LIMITS.maxBulletChars).map(({ id, text }) => ({ id, text })),
+        missingKeywords: capList(missingKeywords, REWRITE_LIMITS.maxTerms, REWRITE_LIMITS.maxTermChars),
+        missingRequirements: capList(missingRequirements, REWRITE_LIMITS.maxTerms, REWRITE_LIMITS.maxRequirementChars),
+        jobDescription,
+      });
+      const byId = new Map(rewrites.map((rewrite) => [rewrite.id, rewrite.rewrite]));
+      setSuggestions(
+        weakBullets.flatMap((bullet) => {
+          const rewrite = byId.get(bullet.id);
+          return rewrite ? [{ bullet, draft: rewrite, status: 'pending' as const, editing: false }] : [];
+        }),
+      );
+      if (!rewrites.length) {
+        toast.warning(t('rewrite.none'), {
+          position: 'top-right',
+        });
+      }
+    } catch (error) {
+      console.error('Failed to rewrite bullets:', error);
+      toast.error(t('rewrite.failed'), {
+        position: 'top-right',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const update = (id: string, changes: Partial<Suggestion>) => {
+    setSuggestions((previous) =>
+      previous.map((suggestion) => (suggestion.bullet.id === id ? { ...suggestion, ...changes } : suggestion)),
+    );
+  };
+
+  const copyWorkingText = async () => {
+    await navigator.clipboard.writeText(workingText);
+    toast.success(t('rewrite.copied'), {
+      position: 'top-right',
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+        <div className="flex items-center gap-3">
+          <Wand2 className="w-6 h-6 text-blue-600" />
+          <h2 className="text-xl font-bold text-gray-900">{t('rewrite.title')}</h2>
+        </div>
+        <button
+          type="button"
+          onClick={suggestRewrites}
+          disabled={loading || weakBullets.length === 0}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+          {suggestions.length ? t('rewrite.regenerate') : t('rewrite.generate', { count: weakBullets.length })}
+        </button>
+      </div>
+      <p className="text-gray-600 mb-6">{t('rewrite.description')}</p>
+
+      {weakBullets.length === 0 && <p className="text-sm text-gray-500">{t('rewrite.noWeakBullets')}</p>}
+
+      {suggestions.length === 0 && weakBullets.length > 0 && (
+        <div className="space-y-3">
+          {weakBullets.map((bullet) => (
+            <div key={bullet.id} className="p-4 bg-gray-50 rounded-lg border border-gray-100">
+              <p className="text-sm text-gray-700">{bullet.text}</p>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {bullet.reasons.map((reason) => (
+                  <span key={reason} className="px-2 py-0.5 bg-yellow-50 text-yellow-700 rounded-full text-xs border border-yellow-100">
+                    {t(`weakness.${reason}`)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {suggestions.length > 0 && (
+        <div className="space-y-4">
+          {suggestions.map(({ bullet, draft, status, editing }) => (
+            <div
+              key={bullet.id}
+              className={`p-4 rounded-lg border ${
+                status === 'accepted'
+                  ? 'bg-green-50 border-green-100'
+                  : status === 'rejected'
+                    ? 'bg-gray-50 border-gray-100 opacity-60'
+                    : 'bg-gray-50 border-gray-100'
+              }`}
+            >
+              <div className="text-xs text-gray-500 mb-2">{bullet.role}</div>
+              {editing ? (
+                <textarea
+                  value={draft}
+                  onChange={(e) => update(bullet.id, { draft: e.target.value })}
+                  rows={3}
+                  className="p-2 block w-full rounded-xl border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              ) : (
+                <InlineDiff before={bullet.text} after={status === 'rejected' ? bullet.text : draft} />
+              )}
+              <div className="mt-3 flex flex-wrap gap-2">
+                {status === 'pending' ? (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => update(bullet.id, { status: 'accepted', editing: false })}
+                      disabled={!draft.trim()}
+                      className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:bg-gray-300"
+                    >
+                      <Check className="w-4 h-4" />
+                      {t('rewrite.accept')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => update(bullet.id, { status: 'rejected', editing: false })}
+                      className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm font-medium text-gray-700 bg-white border border-gray-200 hover:bg-gray-50"
+                    >
+                      <X className="w-4 h-4" />
+                      {t('rewrite.reject')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => update(bullet.id, { editing: !editing })}
+                      className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm font-medium text-gray-700 bg-white border border-gray-200 hover:bg-gray-50"
+                    >
+                      <Pencil className="w-4 h-4" />
+                      {editing ? t('action.preview') : t('action.edit')}
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => update(bullet.id, { status: 'pending' })}
+                    className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm font-medium text-gray-700 bg-white border border-gray-200 hover:bg-gray-50"
+                  >
+                    <Undo2 className="w-4 h-4" />
+                    {status === 'accepted' ? t('rewrite.undoAccept') : t('rewrite.undoReject')}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          <div className="pt-4 border-t border-gray-100">
+            <h3 className="font-semibold text-gray-700 mb-3">{t('rewrite.workingCopy', { count: acceptedCount })}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <ScoreDelta label={t('rewrite.localScore')} before={originalScores.resumeScore} after={workingScores.resumeScore} />
+              <ScoreDelta label={t('rewrite.keywordCoverage')} before={originalScores.keywordCoverage} after={workingScores.keywordCoverage} />
+              <ScoreDelta label={t('rewrite.skillMatch')} before={originalScores.skillsMatch} after={workingScores.skillsMatch} />
+            </div>
+            <div className="mt-4 flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => onRescore(workingText)}
+                disabled={rescoring || acceptedCount === 0}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                {rescoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                {t('rewrite.rescore')}
+              </button>
+              <button
+                type="button"
+                onClick={copyWorkingText}
+                disabled={acceptedCount === 0}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-gray-700 bg-white border border-gray-200 shadow-sm hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                <Copy className="w-4 h-4" />
+                {t('rewrite.copy')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RewriteWorkspace;
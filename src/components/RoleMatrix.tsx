@@ -0,0 +1,107 @@
+import { Grid3x3, Layers } from 'lucide-react';
+import { t } from '../lib/i18n';
+import { findSharedGaps } from '../lib/jobs';
+import type { RoleRun } from '../lib/jobs';
+import { getScoreColor } from '../lib/scoreColor';
+import RunStatusBadge from './RunStatusBadge';
+
+interface RoleMatrixProps {
+  runs: RoleRun[];
+  openId: string | null;
+  onOpen: (run: RoleRun) => void;
+}
+
+const MAX_KEYWORDS_PER_ROLE = 8;
+
+const RoleMatrix = ({ runs, openId, onOpen }: RoleMatrixProps) => {
+  const sharedGaps = findSharedGaps(runs);
+  const analyzed = runs.filter((run) => run.result).length;
+
+  return (
+    <div className="mt-8 space-y-6">
+      <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+        <div className="flex items-center gap-3 mb-2">
+          <Layers className="w-6 h-6 text-blue-600" />
+          <h2 className="text-xl font-bold text-gray-900">{t('roles.sharedGapsTitle')}</h2>
+        </div>
+        <p className="text-gray-600 mb-6">{t('roles.sharedGapsDescription')}</p>
+        {sharedGaps.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {analyzed < 2 ? t('roles.needTwoRoles') : t('roles.noSharedGaps')}
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {sharedGaps.map((gap) => (
+              <span
+                key={gap.keyword}
+                title={gap.roles.join(', ')}
+                className="px-4 py-2 bg-red-50 text-red-700 rounded-full text-sm font-medium border border-red-100"
+              >
+                {gap.keyword} · {gap.roles.length}/{analyzed}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-8 border border-gray-100">
+        <div className="flex items-center gap-3 mb-6">
+          <Grid3x3 className="w-6 h-6 text-blue-600" />
+          <h2 className="text-xl font-bold text-gray-900">{t('roles.title')}</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="border-b border-gray-200 text-gray-600">
+                <th className="py-3 pr-4 font-semibold">{t('roles.role')}</th>
+                <th className="py-3 pr-4 font-semibold">{t('ranking.score')}</th>
+                <th className="py-3 pr-4 font-semibold">{t('ranking.match')}</th>
+                <th className="py-3 pr-4 font-semibold">{t('ranking.ats')}</th>
+                <th className="py-3 pr-4 font-semibold">{t('roles.missingKeywords')}</th>
+                <th className="py-3 font-semibold">{t('ranking.status')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((run) => {
+                const { result } = run;
+                return (
+                  <tr
+                    key={run.jobId}
+                    onClick={() => result && onOpen(run)}
+                    className={`border-b border-gray-100 align-top ${result ? 'cursor-pointer hover:bg-gray-50' : ''} ${
+                      run.jobId === openId ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    <td className="py-3 pr-4 font-medium text-gray-900">{run.name}</td>
+                    <td className={`py-3 pr-4 font-bold ${result ? getScoreColor(result.resume_score) : 'text-gray-400'}`}>
+                      {result ? `${result.resume_score}%` : '—'}
+                    </td>
+                    <td className={`py-3 pr-4 font-bold ${result ? getScoreColor(result.skills_match.match_percentage) : 'text-gray-400'}`}>
+                      {result ? `${result.skills_match.match_percentage}%` : '—'}
+                    </td>
+                    <td className="py-3 pr-4">{result ? t(`ats.${result.ats_compatibility}`) : '—'}</td>
+                    <td className="py-3 pr-4">
+                      {run.error && <span className="text-red-600">{run.error}</span>}
+                      <div className="flex flex-wrap gap-1">
+                        {result?.keywords_analysis.missing_keywords.slice(0, MAX_KEYWORDS_PER_ROLE).map((keyword) => (
+                          <span key={keyword} className="px-2 py-0.5 bg-red-50 text-red-700 rounded-full text-xs border border-red-100">
+                            {keyword}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="py-3">
+                      <RunStatusBadge run={run} />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RoleMatrix;
@@ -0,0 +1,131 @@
+import { ArrowDown, ArrowUp, GitCompare, Minus, X } from 'lucide-react';
+import { diffLines } from '../lib/diff';
+import { compareRuns } from '../lib/history';
+import type { AnalysisRecord, ListChange } from '../lib/history';
+import { t } from '../lib/i18n';
+import ScoreTrendChart from './ScoreTrendChart';
+
+interface RunComparisonProps {
+  before: AnalysisRecord;
+  after: AnalysisRecord;
+  series: AnalysisRecord[];
+  onClose: () => void;
+}
+
+const Delta = ({ value }: { value: number }) => {
+  if (value > 0) {
+    return (
+      <span className="flex items-center gap-1 text-green-600 font-semibold">
+        <ArrowUp className="w-4 h-4" />+{value}
+      </span>
+    );
+  }
+  if (value < 0) {
+    return (
+      <span className="flex items-center gap-1 text-red-600 font-semibold">
+        <ArrowDown className="w-4 h-4" />
+        {value}
+      </span>
+    );
+  }
+  return (
+    <span className="flex items-center gap-1 text-gray-500 font-semibold">
+      <Minus className="w-4 h-4" />0
+    </span>
+  );
+};
+
+const ChangeList = ({ title, change }: { title: string; change: ListChange }) => (
+  <div>
+    <h3 className="font-semibold text-gray-700 mb-3">{title}</h3>
+    {change.gained.length === 0 && change.lost.length === 0 && <p className="text-sm text-gray-500">{t('comparison.noChange')}</p>}
+    <div className="flex flex-wrap gap-2">
+      {change.gained.map((item) => (
+        <span key={`+${item}`} className="px-3 py-1 bg-green-50 text-green-700 rounded-full text-sm font-medium border border-green-100">
+          + {item}
+        </span>
+      ))}
+      {change.lost.map((item) => (
+        <span key={`-${item}`} className="px-3 py-1 bg-red-50 text-red-700 rounded-full text-sm font-medium border border-red-100">
+          − {item}
+        </span>
+      ))}
+    </div>
+  </div>
+);
+
+const RunComparison = ({ before, after, series, onClose }: RunComparisonProps) => {
+  const comparison = compareRuns(before, after);
+  const textDiff = diffLines(before.resumeText, after.resumeText);
+
+  return (
+    <div className="mt-8 bg-white rounded-xl shadow-lg p-8 border border-gray-100 space-y-8">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <GitCompare className="w-6 h-6 text-blue-600" />
+          <h2 className="text-xl font-bold text-gray-900">{t('comparison.title')}</h2>
+        </div>
+        <button type="button" onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-600">
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <span className="font-semibold text-gray-800">{t('comparison.before')}</span> {before.fileName} · {new Date(before.createdAt).toLocaleString()}
+        </div>
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <span className="font-semibold text-gray-800">{t('comparison.after')}</span> {after.fileName} · {new Date(after.createdAt).toLocaleString()}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {comparison.scores.map((score) => (
+          <div key={score.label} className="bg-gray-50 rounded-lg p-6 border border-gray-100">
+            <h3 className="font-semibold text-gray-700 mb-3">{score.label}</h3>
+            <div className="flex items-center justify-between">
+              <span className="text-2xl font-bold text-gray-900">
+                {score.before}% → {score.after}%
+              </span>
+              <Delta value={score.after - score.before} />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <ChangeList title={t('comparison.keywords')} change={comparison.keywords} />
+        <ChangeList title={t('comparison.skills')} change={comparison.skills} />
+      </div>
+
+      {series.length >= 2 && (
+        <div>
+          <h3 className="font-semibold text-gray-700 mb-3">{t('trend.title')}</h3>
+          <ScoreTrendChart runs={series} />
+        </div>
+      )}
+
+      <div>
+        <h3 className="font-semibold text-gray-700 mb-3">{t('comparison.textChanges')}</h3>
+        <pre className="max-h-96 overflow-y-auto p-4 bg-gray-50 rounded-lg border border-gray-100 text-sm whitespace-pre-wrap font-sans">
+          {textDiff.map((part, index) => (
+            <span
+              key={index}
+              className={
+                part.type === 'added'
+                  ? 'bg-green-100 text-green-800'
+                  : part.type === 'removed'
+                    ? 'bg-red-100 text-red-800 line-through'
+                    : 'text-gray-600'
+              }
+            >
+              {part.value}
+            </span>
+          ))}
+        </pre>
+      </div>
+    </div>
+  );
+};
+
+export default RunComparison;
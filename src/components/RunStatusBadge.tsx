@@ -0,0 +1,24 @@
+import { Loader2 } from 'lucide-react';
+import { isRunBusy } from '../lib/batch';
+import type { RunState, RunStatus } from '../lib/batch';
+import { t } from '../lib/i18n';
+
+const STATUS_CLASSES: Record<RunStatus, string> = {
+  queued: 'bg-gray-100 text-gray-600',
+  extracting: 'bg-blue-50 text-blue-700',
+  analyzing: 'bg-blue-50 text-blue-700',
+  waiting: 'bg-orange-50 text-orange-700',
+  complete: 'bg-green-50 text-green-700',
+  partial: 'bg-yellow-50 text-yellow-700',
+  failed: 'bg-red-50 text-red-700',
+};
+
+const RunStatusBadge = ({ run }: { run: RunState }) => (
+  <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${STATUS_CLASSES[run.status]}`}>
+    {isRunBusy(run.status) && <Loader2 className="w-3 h-3 animate-spin" />}
+    {t(`runStatus.${run.status}`)}
+    {run.retries > 0 && ` (${run.retries})`}
+  </span>
+);
+
+export default RunStatusBadge;
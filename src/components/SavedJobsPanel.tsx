@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { Bookmark, Save, Trash2 } from 'lucide-react';
+import { t } from '../lib/i18n';
+import type { SavedJob } from '../lib/jobs';
+
+interface SavedJobsPanelProps {
+  jobs: SavedJob[];
+  selectedIds: string[];
+  selectable: boolean;
+  canSave: boolean;
+  onSave: (name: string) => void;
+  onLoad: (job: SavedJob) => void;
+  onToggle: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const SavedJobsPanel = ({ jobs, selectedIds, selectable, canSave, onSave, onLoad, onToggle, onDelete }: SavedJobsPanelProps) => {
+  const [name, setName] = useState('');
+
+  const save = () => {
+    if (!name.trim()) return;
+    onSave(name);
+    setName('');
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 rounded-xl border border-gray-100">
+      <div className="flex items-center gap-2 mb-3">
+        <Bookmark className="w-5 h-5 text-blue-600" />
+        <h3 className="font-semibold text-gray-700">{t('jobs.title')}</h3>
+        {selectable && <span className="text-sm text-gray-500">{t('jobs.selected', { count: selectedIds.length })}</span>}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+          placeholder={t('jobs.namePlaceholder')}
+          className="flex-1 p-2 rounded-xl border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+        />
+        <button
+          type="button"
+          onClick={save}
+          disabled={!canSave || !name.trim()}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4" />
+          {t('jobs.save')}
+        </button>
+      </div>
+
+      {jobs.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {jobs.map((job) => (
+            <div key={job.id} className="flex items-center gap-3 p-3 bg-white rounded-lg border border-gray-100 text-sm">
+              {selectable && (
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(job.id)}
+                  onChange={() => onToggle(job.id)}
+                  className="accent-blue-600"
+                  aria-label={t('jobs.include', { name: job.name })}
+                />
+              )}
+              <button type="button" onClick={() => onLoad(job)} className="flex-1 text-left" title={t('jobs.load')}>
+                <span className="font-medium text-gray-900">{job.name}</span>
+                <span className="block text-xs text-gray-500 truncate">{job.description.slice(0, 100)}</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => onDelete(job.id)}
+                className="text-gray-400 hover:text-red-600"
+                aria-label={t('jobs.delete', { name: job.name })}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedJobsPanel;
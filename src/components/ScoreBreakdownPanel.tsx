@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { Bar, BarChart, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Save, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { t } from '../lib/i18n';
+import type { MessageKey } from '../lib/i18n';
+import { RUBRIC_CATEGORIES, categoryContribution, findPreset } from '../lib/rubric';
+import type { CategorySource, RubricCategory, RubricPreset, RubricWeights, ScoreBreakdown } from '../lib/rubric';
+
+interface ScoreBreakdownPanelProps {
+  breakdown: ScoreBreakdown;
+  presets: RubricPreset[];
+  onWeightsChange: (weights: RubricWeights) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+}
+
+const CATEGORY_COLORS: Record<RubricCategory, string> = {
+  keywords: '#0088FE',
+  must_haves: '#00C49F',
+  experience: '#FFBB28',
+  formatting: '#FF8042',
+  readability: '#8884d8',
+  grammar: '#FF6699',
+};
+
+const SOURCE_LABELS: Record<CategorySource, MessageKey> = {
+  model: 'breakdown.model',
+  local: 'breakdown.localCheck',
+  mixed: 'breakdown.mixed',
+};
+
+const ScoreBreakdownPanel = ({ breakdown, presets, onWeightsChange, onSavePreset, onDeletePreset }: ScoreBreakdownPanelProps) => {
+  const [presetName, setPresetName] = useState('');
+  const activePreset = findPreset(presets, breakdown.weights);
+
+  const chartData = [
+    Object.fromEntries([
+      ['name', t('breakdown.score')],
+      ...breakdown.categories.map((category) => [category.category, Number(categoryContribution(category, breakdown.weights).toFixed(1))]),
+    ]),
+  ];
+
+  const setWeight = (category: RubricCategory, value: string) => {
+    const weight = Math.max(0, Math.round(Number(value)) || 0);
+    onWeightsChange({ ...breakdown.weights, [category]: weight });
+  };
+
+  const savePreset = () => {
+    if (!presetName.trim()) return;
+    onSavePreset(presetName);
+    setPresetName('');
+  };
+
+  return (
+    <div className="mt-8">
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <SlidersHorizontal className="w-5 h-5 text-blue-600" />
+        <h3 className="font-semibold text-gray-700">{t('breakdown.title')}</h3>
+        <span className="text-sm text-gray-500">
+          {t('breakdown.summary', { total: breakdown.total, modelScore: breakdown.modelScore })}
+        </span>
+        <select
+          value={activePreset?.id ?? ''}
+          onChange={(e) => {
+            const preset = presets.find((option) => option.id === e.target.value);
+            if (preset) onWeightsChange(preset.weights);
+          }}
+          className="ml-auto p-2 rounded-lg border border-gray-300 text-sm"
+          aria-label={t('breakdown.preset')}
+        >
+          {!activePreset && <option value="">{t('breakdown.customWeights')}</option>}
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+        {activePreset && !activePreset.builtIn && (
+          <button
+            type="button"
+            onClick={() => onDeletePreset(activePreset.id)}
+            className="text-gray-400 hover:text-red-600"
+            aria-label={t('breakdown.deletePreset', { name: activePreset.name })}
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <ResponsiveContainer width="100%" height={110}>
+        <BarChart data={chartData} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <XAxis type="number" domain={[0, 100]} />
+          <YAxis type="category" dataKey="name" hide />
+          <Tooltip formatter={(value: number) => t('breakdown.points', { value })} />
+          <Legend />
+          {RUBRIC_CATEGORIES.map((category) => (
+            <Bar key={category} dataKey={category} stackId="score" fill={CATEGORY_COLORS[category]} name={t(`rubric.${category}`)} />
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+
+      <table className="w-full mt-4 text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b border-gray-100">
+            <th className="py-2 pr-4 font-medium">{t('breakdown.category')}</th>
+            <th className="py-2 pr-4 font-medium">{t('breakdown.score')}</th>
+            <th className="py-2 pr-4 font-medium">{t('breakdown.weight')}</th>
+            <th className="py-2 font-medium">{t('breakdown.pointsColumn')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {breakdown.categories.map((category) => (
+            <tr key={category.category} className="border-b border-gray-50">
+              <td className="py-2 pr-4">
+                <div className="flex items-center gap-2 font-medium text-gray-900">
+                  <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: CATEGORY_COLORS[category.category] }} />
+                  {t(`rubric.${category.category}`)}
+                  <span className="px-2 py-0.5 rounded-full bg-gray-100 text-xs font-normal text-gray-500">
+                    {t(SOURCE_LABELS[category.source])}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500">{category.detail}</div>
+              </td>
+              <td className="py-2 pr-4 font-semibold text-gray-700">{category.score}%</td>
+              <td className="py-2 pr-4">
+                <input
+                  type="number"
+                  min={0}
+                  value={breakdown.weights[category.category]}
+                  onChange={(e) => setWeight(category.category, e.target.value)}
+                  className="w-20 p-1 rounded-lg border border-gray-300 text-sm"
+                  aria-label={t('breakdown.weightLabel', { category: t(`rubric.${category.category}`) })}
+                />
+              </td>
+              <td className="py-2 text-gray-700">{categoryContribution(category, breakdown.weights).toFixed(1)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex gap-2 mt-4">
+        <input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && savePreset()}
+          placeholder={t('breakdown.presetPlaceholder')}
+          className="flex-1 p-2 rounded-xl border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+        />
+        <button
+          type="button"
+          onClick={savePreset}
+          disabled={!presetName.trim()}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4" />
+          {t('breakdown.savePreset')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ScoreBreakdownPanel;
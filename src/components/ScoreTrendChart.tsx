@@ -0,0 +1,34 @@
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { AnalysisRecord } from '../lib/history';
+import { t } from '../lib/i18n';
+
+interface ScoreTrendChartProps {
+  runs: AnalysisRecord[];
+}
+
+const ScoreTrendChart = ({ runs }: ScoreTrendChartProps) => {
+  const data = runs.map((run, index) => ({
+    name: `#${index + 1}`,
+    date: new Date(run.createdAt).toLocaleString(),
+    resume_score: run.result.resume_score,
+    readability_score: run.result.readability_score,
+    match_percentage: run.result.skills_match.match_percentage,
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height={260}>
+      <LineChart data={data} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="name" />
+        <YAxis domain={[0, 100]} />
+        <Tooltip labelFormatter={(_, payload) => payload?.[0]?.payload.date ?? ''} />
+        <Legend />
+        <Line type="monotone" dataKey="resume_score" name={t('trend.resumeScore')} stroke="#0088FE" strokeWidth={2} />
+        <Line type="monotone" dataKey="readability_score" name={t('trend.readability')} stroke="#00C49F" strokeWidth={2} />
+        <Line type="monotone" dataKey="match_percentage" name={t('trend.skillsMatch')} stroke="#FF8042" strokeWidth={2} />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
+
+export default ScoreTrendChart;
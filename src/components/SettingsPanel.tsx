@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Settings } from 'lucide-react';
+import { PROVIDER_OPTIONS, getProviderOption } from '../lib/providers';
+import type { ProviderId, ProviderSettings } from '../lib/providers';
+import { CONSENSUS_RUN_OPTIONS } from '../lib/consensus';
+import { CONTEXT_TOKEN_LIMITS, clampContextTokens } from '../lib/tokens';
+import { OUTPUT_LANGUAGES, t } from '../lib/i18n';
+import type { OutputLanguage } from '../lib/i18n';
+
+interface SettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+}
+
+const SettingsPanel = ({ settings, onChange }: SettingsPanelProps) => {
+  const [open, setOpen] = useState(false);
+  const option = getProviderOption(settings.provider);
+
+  const update = (changes: Partial<ProviderSettings>) => onChange({ ...settings, ...changes });
+
+  const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const provider = e.target.value as ProviderId;
+    update({ provider, model: getProviderOption(provider).defaultModel });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 mb-8">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-8 py-5"
+      >
+        <div className="flex items-center gap-3">
+          <Settings className="w-6 h-6 text-blue-600" />
+          <h2 className="text-xl font-bold text-gray-900">{t('settings.title')}</h2>
+          <span className="text-sm text-gray-500">
+            {option.label} · {settings.model}
+            {settings.consensusRuns > 1 && ` · ${t('settings.runs', { count: settings.consensusRuns })}`}
+          </span>
+        </div>
+        {open ? <ChevronUp className="w-5 h-5 text-gray-500" /> : <ChevronDown className="w-5 h-5 text-gray-500" />}
+      </button>
+
+      {open && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 px-8 pb-8">
+          <label className="block">
+            <span className="text-sm font-semibold text-gray-700">{t('settings.provider')}</span>
+            <select
+              value={settings.provider}
+              onChange={handleProviderChange}
+              className="mt-2 p-2 block w-full rounded-xl border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              {PROVIDER_OPTIONS.map((provider) => (
+                <option key={provider.id} value={provider.id}>
+                  {provider.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="text-sm font-semibold text-gray-700">
+              {settings.provider === 'mock' ? t('settings.scenario') : t('settings.model')}
+            </span>
+            <input
+              list="model-suggestions"
+              value={settings.model}
+              onChange={(e) => update({ model: e.target.value })}
+              className="mt-2 p-2 block w-full rounded-xl border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+            <datalist id="model-suggestions">
+              {option.suggestedModels.map((model) => (
+                <option key={model} value={model} />
+              ))}
+            </datalist>
+          </label>
+
+          <label className="block">
+            <span className="text-sm font-semibold text-gray-700">{t('settings.temperature', { value: settings.temperature.toFixed(1) })}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.1}
+              value={settings.temperature}
+              onChange={(e) => update({ temperature: Number(e.target.value) })}
+              className="mt-4 block w-full accent-blue-600"
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-sm font-semibold text-gray-700">{t('settings.timeout')}</span>
+            <input
+              type="number"
+              min={10}
+              max={600}
+              value={settings.timeoutSeconds}
+              onChange={(e) => update({ timeoutSeconds: Math.min(600, Math.max(10, Number(e.target.value) || 10)) })}
+              className="mt-2 p-2 block w-full rounded-xl border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-sm font-semibold text-gray-700">{t('settings.contextWindow')}</span>
+            <input
+              type="number"
+              min={CONTEXT_TOKEN_LIMITS.min}
+              max={CONTEXT_TOKEN_LIMITS.max}
+              step={1024}
+              value={settings.contextTokens}
+              onChange={(e) => update({ contextTokens: clampContextTokens(Number(e.target.value)) })}
+              className="mt-2 p-2 block w-full rounded-xl border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+            <span className="mt-1 block text-xs text-gray-500">{t('settings.contextHint')}</span>
+          </label>
+
+          <label className="block">
+            <span className="text-sm font-semibold text-gray-700">{t('settings.consensus')}</span>
+            <select
+              value={settings.consensusRuns}
+              onChange={(e) => update({ consensusRuns: Number(e.target.value) })}
+              className="mt-2 p-2 block w-full rounded-xl border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              {CONSENSUS_RUN_OPTIONS.map((runs) => (
+                <option key={runs} value={runs}>
+                  {runs === 1 ? t('settings.consensusOff') : t('settings.consensusRuns', { count: runs })}
+                </option>
+              ))}
+            </select>
+            <span className="mt-1 block text-xs text-gray-500">{t('settings.consensusHint')}</span>
+          </label>
+
+          <label className="block">
+            <span className="text-sm font-semibold text-gray-700">{t('settings.outputLanguage')}</span>
+            <select
+              value={settings.outputLanguage}
+              onChange={(e) => update({ outputLanguage: e.target.value as OutputLanguage })}
+              className="mt-2 p-2 block w-full rounded-xl border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              {OUTPUT_LANGUAGES.map((language) => (
+                <option key={language} value={language}>
+                  {language === 'auto' ? t('settings.outputLanguageAuto') : t(`language.${language}`)}
+                </option>
+              ))}
+            </select>
+            <span className="mt-1 block text-xs text-gray-500">{t('settings.outputLanguageHint')}</span>
+          </label>
+
+          {settings.consensusRuns > 1 && (
+            <label className="block">
+              <span className="text-sm font-semibold text-gray-700">{t('settings.consensusModels')}</span>
+              <input
+                list="model-suggestions"
+                value={settings.consensusModels.join(', ')}
+                onChange={(e) => update({ consensusModels: e.target.value.split(',').map((model) => model.trim()) })}
+                placeholder={t('settings.consensusModelsPlaceholder')}
+                className="mt-2 p-2 block w-full rounded-xl border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+              <span className="mt-1 block text-xs text-gray-500">{t('settings.consensusModelsHint', { model: settings.model })}</span>
+            </label>
+          )}
+
+          {option.usesBaseUrl && (
+            <>
+              <label className="block">
+                <span className="text-sm font-semibold text-gray-700">{t('settings.baseUrl')}</span>
+                <input
+                  value={settings.baseUrl}
+                  onChange={(e) => update({ baseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  className="mt-2 p-2 block w-full rounded-xl border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </label>
+              <label className="block">
+                <span className="text-sm font-semibold text-gray-700">{t('settings.apiKey')}</span>
+                <input
+                  type="password"
+                  value={settings.apiKey}
+                  onChange={(e) => update({ apiKey: e.target.value })}
+                  className="mt-2 p-2 block w-full rounded-xl border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </label>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SettingsPanel;
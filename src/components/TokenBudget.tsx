@@ -0,0 +1,55 @@
+import { useMemo } from 'react';
+import { Gauge } from 'lucide-react';
+import { ContextWindowError, planAnalysis } from '../lib/chunking';
+import { t } from '../lib/i18n';
+import { formatTokens, promptTokenLimit } from '../lib/tokens';
+
+interface TokenBudgetProps {
+  resumeText: string;
+  jobDescription: string;
+  contextTokens: number;
+}
+
+const TokenBudget = ({ resumeText, jobDescription, contextTokens }: TokenBudgetProps) => {
+  const plan = useMemo(() => {
+    try {
+      return planAnalysis(resumeText, jobDescription, contextTokens);
+    } catch (error) {
+      if (error instanceof ContextWindowError) return error;
+      throw error;
+    }
+  }, [resumeText, jobDescription, contextTokens]);
+
+  if (plan instanceof ContextWindowError) {
+    return <p className="text-sm text-red-700">{plan.message}</p>;
+  }
+
+  const limit = promptTokenLimit(plan.contextTokens);
+  const share = Math.min(100, Math.round((plan.promptTokens / limit) * 100));
+  const oversized = plan.promptTokens > limit;
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-xl border border-gray-100 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="flex items-center gap-2 font-semibold text-gray-700">
+          <Gauge className="w-5 h-5 text-blue-600" />
+          {t('budget.title')}
+        </span>
+        <span className={oversized ? 'text-orange-700' : 'text-gray-600'}>
+          {t('budget.usage', { used: formatTokens(plan.promptTokens), limit: formatTokens(limit) })}
+        </span>
+      </div>
+      <div className="mt-2 h-2 rounded-full bg-gray-200 overflow-hidden">
+        <div className={`h-full ${oversized ? 'bg-orange-500' : 'bg-blue-600'}`} style={{ width: `${share}%` }} />
+      </div>
+      {oversized && (
+        <ul className="mt-3 space-y-1 text-orange-800">
+          {plan.jobDescriptionCondensed && <li>{t('budget.condensed')}</li>}
+          {plan.chunks.length > 1 && <li>{t('budget.chunked', { count: plan.chunks.length })}</li>}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TokenBudget;
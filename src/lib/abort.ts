@@ -0,0 +1,45 @@
+export class AnalysisAbortError extends Error {
+  reason: 'cancelled' | 'timeout';
+
+  constructor(reason: 'cancelled' | 'timeout', message: string) {
+    super(message);
+    this.name = 'AnalysisAbortError';
+    this.reason = reason;
+  }
+}
+
+// Rethrows the abort reason so callers see why the request stopped, not a generic AbortError.
+export const throwIfAborted = (signal: AbortSignal | undefined) => {
+  if (signal?.aborted) throw signal.reason;
+};
+
+export const createAnalysisController = (timeoutSeconds: number) => {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new AnalysisAbortError('timeout', `The analysis did not finish within ${timeoutSeconds} seconds.`)),
+    timeoutSeconds * 1000,
+  );
+
+  return {
+    signal: controller.signal,
+    cancel: () => controller.abort(new AnalysisAbortError('cancelled', 'The analysis was cancelled.')),
+    dispose: () => clearTimeout(timer),
+  };
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
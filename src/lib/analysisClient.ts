@@ -0,0 +1,217 @@
+import { throwIfAborted } from './abort';
+import { runAnalysis, withRedactedResume } from './analyze';
+import type { AnalysisOptions, AnalysisOutcome, ChunkingSummary } from './analyze';
+import type { SchemaIssue } from './analysisSchema';
+import { analyzeOnServer, coverLetterOnServer, interviewPrepOnServer, rewriteOnServer } from './api';
+import { analysisCacheKey, readCachedAnalysis, writeCachedAnalysis } from './cache';
+import { buildConsensus } from './consensus';
+import { runCoverLetter } from './coverLetter';
+import type { CoverLetter, CoverLetterInput, ResumeLine } from './coverLetter';
+import type { ConsensusRun } from './consensus';
+import { runInterviewPrep } from './interviewPrep';
+import type { InterviewPrepInput, InterviewQuestion } from './interviewPrep';
+import type { AnalysisLanguages } from './i18n/languages';
+import { createRedactor } from './privacy';
+import type { Redactor } from './privacy';
+import { createProvider } from './providers';
+import type { ProviderSettings } from './providers';
+import { runRewrite } from './rewrite';
+import { buildBreakdown } from './rubric';
+import type { BulletRewrite, RewriteInput } from './rewrite';
+
+export interface ConsensusProgress {
+  // 1-based.
+  index: number;
+  total: number;
+  model: string;
+}
+
+export interface RequestAnalysisOptions extends AnalysisOptions {
+  // Skip cached results and call the model again.
+  refresh?: boolean;
+  // Called as each consensus run starts.
+  onRun?: (progress: ConsensusProgress) => void;
+}
+
+// The cache is a saving, not a requirement, so storage failures fall back to a model call.
+const readCache = (key: string) =>
+  readCachedAnalysis(key).catch((error) => {
+    console.error('Failed to read the analysis cache:', error);
+    return null;
+  });
+
+const writeCache = (key: string, outcome: AnalysisOutcome) =>
+  writeCachedAnalysis(key, outcome).catch((error) => console.error('Failed to write the analysis cache:', error));
+
+const cacheKeyFor = (settings: ProviderSettings, resumeText: string, jobDescription: string, model = settings.model) =>
+  analysisCacheKey({
+    resumeText,
+    jobDescription,
+    provider: settings.provider,
+    baseUrl: settings.provider === 'openai-compatible' ? settings.baseUrl : '',
+    model,
+    temperature: settings.temperature,
+    contextTokens: settings.contextTokens,
+    outputLanguage: settings.outputLanguage,
+  });
+
+const requestSingleAnalysis = async (
+  settings: ProviderSettings,
+  resumeText: string,
+  jobDescription: string,
+  { refresh = false, ...options }: RequestAnalysisOptions,
+): Promise<AnalysisOutcome> => {
+  const cacheKey = await cacheKeyFor(settings, resumeText, jobDescription);
+  const cached = refresh ? null : await readCache(cacheKey);
+  if (cached) return cached;
+
+  const outcome = await withRedactedResume(resumeText, options, (resume, redactedOptions) =>
+    settings.provider === 'server'
+      ? analyzeOnServer(
+          {
+            resume,
+            jobDescription,
+            model: settings.model,
+            temperature: settings.temperature,
+            contextTokens: settings.contextTokens,
+            outputLanguage: settings.outputLanguage,
+          },
+          { ...redactedOptions, refresh },
+        )
+      : runAnalysis(createProvider(settings).complete, resume, jobDescription, {
+          ...redactedOptions,
+          contextTokens: settings.contextTokens,
+          outputLanguage: settings.outputLanguage,
+        }),
+  );
+  // Partial and failed analyses are worth retrying, so only complete ones are kept.
+  if (outcome.status === 'complete') await writeCache(cacheKey, outcome);
+  return outcome;
+};
+
+export const consensusModels = (settings: ProviderSettings) => [
+  settings.model,
+  ...settings.consensusModels.filter((model) => model.trim() && model !== settings.model),
+];
+
+// Runs the analysis several times, taking turns between models, and combines the results.
+const requestConsensus = async (
+  settings: ProviderSettings,
+  resumeText: string,
+  jobDescription: string,
+  { refresh = false, onRun, signal, onStage, onChunk }: RequestAnalysisOptions,
+): Promise<AnalysisOutcome> => {
+  const models = consensusModels(settings);
+  const total = settings.consensusRuns;
+  const cacheKey = await cacheKeyFor(settings, resumeText, jobDescription, `consensus:${total}:${models.join(',')}`);
+  const cached = refresh ? null : await readCache(cacheKey);
+  if (cached) return cached;
+
+  const runs: ConsensusRun[] = [];
+  const issues: SchemaIssue[] = [];
+  let attempts = 0;
+  let complete = true;
+  let chunking: ChunkingSummary | undefined;
+  let languages: AnalysisLanguages | undefined;
+  let lastError: unknown = null;
+
+  for (let index = 1; index <= total; index++) {
+    const model = models[(index - 1) % models.length];
+    const label = `run ${index} (${model})`;
+    onRun?.({ index, total, model });
+    try {
+      // Every run has to reach the model, or they would all repeat one cached answer.
+      const outcome = await requestSingleAnalysis({ ...settings, model }, resumeText, jobDescription, {
+        signal,
+        onStage,
+        onChunk,
+        refresh: true,
+      });
+      attempts += outcome.attempts;
+      chunking ??= outcome.chunking;
+      languages ??= outcome.languages;
+      complete &&= outcome.status === 'complete';
+      issues.push(...outcome.issues.map((issue) => ({ ...issue, path: `${label}: ${issue.path}` })));
+      if (outcome.result) runs.push({ model, result: outcome.result });
+    } catch (error) {
+      throwIfAborted(signal);
+      // One model failing should not throw away the runs that worked.
+      lastError = error;
+      complete = false;
+      issues.push({ path: label, message: error instanceof Error ? error.message : 'failed' });
+    }
+  }
+
+  if (!runs.length) {
+    if (lastError) throw lastError;
+    return { status: 'failed', result: null, issues, attempts, chunking };
+  }
+  const { result, consensus } = buildConsensus(runs);
+  const outcome: AnalysisOutcome = {
+    status: complete ? 'complete' : 'partial',
+    result,
+    issues,
+    attempts,
+    chunking,
+    consensus,
+    languages,
+  };
+  if (complete) await writeCache(cacheKey, outcome);
+  return outcome;
+};
+
+// Caches hold the model's answer, so a changed rubric re-scores cached results too.
+export const requestAnalysis = async (
+  settings: ProviderSettings,
+  resumeText: string,
+  jobDescription: string,
+  options: RequestAnalysisOptions = {},
+): Promise<AnalysisOutcome> => {
+  const outcome =
+    settings.consensusRuns > 1
+      ? await requestConsensus(settings, resumeText, jobDescription, options)
+      : await requestSingleAnalysis(settings, resumeText, jobDescription, options);
+  if (!outcome.result) return outcome;
+
+  const breakdown = buildBreakdown(outcome.result, resumeText, jobDescription, settings.rubric);
+  return { ...outcome, result: { ...outcome.result, resume_score: breakdown.total }, breakdown };
+};
+
+export const requestRewrites = async (settings: ProviderSettings, input: RewriteInput): Promise<BulletRewrite[]> => {
+  const redactor = createRedactor();
+  const redacted = { ...input, bullets: input.bullets.map((bullet) => ({ ...bullet, text: redactor.redact(bullet.text) })) };
+
+  if (settings.provider === 'server') {
+    const response = await rewriteOnServer({ ...redacted, model: settings.model, temperature: settings.temperature });
+    return redactor.restore(response.rewrites);
+  }
+  return redactor.restore(await runRewrite(createProvider(settings).complete, redacted));
+};
+
+// Seen whole first so the name is found, then redacted line by line to keep the line ids.
+const redactLines = <T extends { lines: ResumeLine[] }>(redactor: Redactor, input: T): T => {
+  redactor.redact(input.lines.map((line) => line.text).join('\n'), { findName: true });
+  return { ...input, lines: input.lines.map((line) => ({ ...line, text: redactor.redact(line.text) })) };
+};
+
+export const requestCoverLetter = async (settings: ProviderSettings, input: CoverLetterInput): Promise<CoverLetter> => {
+  const redactor = createRedactor();
+  const redacted = redactLines(redactor, input);
+
+  if (settings.provider === 'server') {
+    const response = await coverLetterOnServer({ ...redacted, model: settings.model, temperature: settings.temperature });
+    return redactor.restore(response.letter);
+  }
+  return redactor.restore(await runCoverLetter(createProvider(settings).complete, redacted));
+};
+
+export const requestInterviewPrep = async (settings: ProviderSettings, input: InterviewPrepInput): Promise<InterviewQuestion[]> => {
+  const redactor = createRedactor();
+  const redacted = redactLines(redactor, input);
+
+  if (settings.provider === 'server') {
+    const response = await interviewPrepOnServer({ ...redacted, model: settings.model, temperature: settings.temperature });
+    return redactor.restore(response.questions);
+  }
+  return redactor.restore(await runInterviewPrep(createProvider(settings).complete, redacted));
+};
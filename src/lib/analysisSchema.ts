@@ -0,0 +1,210 @@
+import { ATS_LEVELS, RESUME_LENGTHS, TONES } from '../types';
+import type { AnalysisResult } from '../types';
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  value: AnalysisResult;
+  // Problems that could not be repaired; the affected fields hold empty defaults.
+  issues: SchemaIssue[];
+  // Fields whose values were coerced into the expected shape.
+  coerced: string[];
+}
+
+interface Context {
+  issues: SchemaIssue[];
+  coerced: string[];
+}
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return `a ${typeof value}`;
+};
+
+const fail = (ctx: Context, path: string, raw: unknown, expected: string) => {
+  ctx.issues.push({
+    path,
+    message: raw === undefined ? 'is missing' : `expected ${expected}, got ${describe(raw)}`,
+  });
+};
+
+const readScore = (raw: unknown, path: string, ctx: Context): number => {
+  let value: number | null = null;
+
+  if (typeof raw === 'number' && Number.isFinite(raw)) {
+    value = raw;
+  } else if (typeof raw === 'string') {
+    const parsed = parseFloat(raw.replace('%', '').trim());
+    if (Number.isFinite(parsed)) {
+      value = parsed;
+      ctx.coerced.push(path);
+    }
+  }
+
+  if (value === null) {
+    fail(ctx, path, raw, 'a number from 0 to 100');
+    return 0;
+  }
+
+  // Some models answer with a 0-1 ratio instead of a percentage.
+  if (value > 0 && value < 1) {
+    value *= 100;
+  }
+
+  const clamped = Math.min(100, Math.max(0, Math.round(value)));
+  if (clamped !== value && !ctx.coerced.includes(path)) {
+    ctx.coerced.push(path);
+  }
+  return clamped;
+};
+
+const normalizeKey = (value: string) => value.toLowerCase().replace(/[^a-z]/g, '');
+
+// A missing or unknown value falls back to the neutral option rather than the worst one.
+const readEnum = <T extends string>(
+  raw: unknown,
+  options: readonly T[],
+  fallback: T,
+  path: string,
+  ctx: Context,
+): T => {
+  if (typeof raw === 'string') {
+    const key = normalizeKey(raw);
+    const match =
+      options.find((option) => normalizeKey(option) === key) ??
+      options.find((option) => key.startsWith(normalizeKey(option)));
+
+    if (match) {
+      if (match !== raw) ctx.coerced.push(path);
+      return match;
+    }
+  }
+
+  fail(ctx, path, raw, options.map((option) => `"${option}"`).join(' | '));
+  return fallback;
+};
+
+const readText = (raw: unknown, path: string, ctx: Context): string => {
+  if (typeof raw === 'string' && raw.trim()) {
+    return raw.trim();
+  }
+  if (Array.isArray(raw) && raw.every((item) => typeof item === 'string')) {
+    ctx.coerced.push(path);
+    return raw.join(' ').trim();
+  }
+
+  fail(ctx, path, raw, 'a non-empty string');
+  return '';
+};
+
+const readList = (raw: unknown, path: string, ctx: Context): string[] => {
+  if (Array.isArray(raw)) {
+    const items = raw
+      .filter((item): item is string | number => typeof item === 'string' || typeof item === 'number')
+      .map((item) => String(item).trim())
+      .filter(Boolean);
+
+    if (items.length !== raw.length) ctx.coerced.push(path);
+    return items;
+  }
+
+  if (typeof raw === 'string') {
+    ctx.coerced.push(path);
+    return raw
+      .split(/[\n;,]/)
+      .map((item) => item.replace(/^[-*•\s]+/, '').trim())
+      .filter(Boolean);
+  }
+
+  fail(ctx, path, raw, 'an array of strings');
+  return [];
+};
+
+type Reader<T> = (raw: unknown, path: string, ctx: Context) => T;
+
+const readSection = (raw: unknown, path: string, ctx: Context) => {
+  const valid = isObject(raw);
+  if (!valid) fail(ctx, path, raw, 'an object');
+
+  const section = valid ? raw : {};
+  // A missing section is reported once, not once per nested field.
+  const fieldCtx: Context = valid ? ctx : { issues: [], coerced: [] };
+
+  return <T>(key: string, reader: Reader<T>): T => reader(section[key], `${path}.${key}`, fieldCtx);
+};
+
+export const validateAnalysisResult = (raw: unknown): ValidationResult => {
+  const ctx: Context = { issues: [], coerced: [] };
+
+  if (!isObject(raw)) {
+    fail(ctx, '$', raw, 'a JSON object');
+  }
+  const root = isObject(raw) ? raw : {};
+
+  const section = (key: string) => readSection(root[key], key, ctx);
+
+  const skills = section('skills_match');
+  const softSkills = section('soft_skills_match');
+  const proficiency = section('technical_proficiency');
+  const keywords = section('keywords_analysis');
+  const requirements = section('job_requirements_coverage');
+
+  const value: AnalysisResult = {
+    overall_summary: readText(root.overall_summary, 'overall_summary', ctx),
+    resume_score: readScore(root.resume_score, 'resume_score', ctx),
+    ats_compatibility: readEnum(root.ats_compatibility, ATS_LEVELS, 'Medium', 'ats_compatibility', ctx),
+    resume_length: readEnum(root.resume_length, RESUME_LENGTHS, 'Optimal', 'resume_length', ctx),
+    readability_score: readScore(root.readability_score, 'readability_score', ctx),
+    skills_match: {
+      matched: skills('matched', readList),
+      missing: skills('missing', readList),
+      match_percentage: skills('match_percentage', readScore),
+    },
+    soft_skills_match: {
+      matched: softSkills('matched', readList),
+      missing: softSkills('missing', readList),
+    },
+    technical_proficiency: {
+      strong: proficiency('strong', readList),
+      moderate: proficiency('moderate', readList),
+      weak_or_missing: proficiency('weak_or_missing', readList),
+    },
+    keywords_analysis: {
+      present_keywords: keywords('present_keywords', readList),
+      missing_keywords: keywords('missing_keywords', readList),
+    },
+    job_requirements_coverage: {
+      met_requirements: requirements('met_requirements', readList),
+      missing_requirements: requirements('missing_requirements', readList),
+    },
+    tone_of_language: readEnum(root.tone_of_language, TONES, 'Neutral', 'tone_of_language', ctx),
+    formatting_issues: readList(root.formatting_issues, 'formatting_issues', ctx),
+    grammar_issues: readList(root.grammar_issues, 'grammar_issues', ctx),
+    recommendations: readList(root.recommendations, 'recommendations', ctx),
+  };
+
+  return { value, issues: ctx.issues, coerced: ctx.coerced };
+};
+
+export const parseJsonResponse = (content: string): unknown => {
+  try {
+    return JSON.parse(content);
+  } catch {
+    // Fall back to the outermost object when the model wraps the JSON in prose or code fences.
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      throw new Error('The model response did not contain a JSON object');
+    }
+    return JSON.parse(content.slice(start, end + 1));
+  }
+};
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { analyze, MAX_REPAIR_ATTEMPTS } from './analyze';
+import type { AnalysisStage } from './analyze';
+import { MOCK_SCENARIOS } from './providers/fixtures';
+import { createMockProvider } from './providers/mock';
+import type { ChatMessage, ProviderSettings } from './providers/types';
+import { BUILT_IN_PRESETS } from './rubric/presets';
+
+// The mock provider streams its fixtures with small delays, so a run with repairs takes a few seconds.
+const TIMEOUT_MS = 20_000;
+
+const RESUME = `Jane Doe
+jane.doe@example.com | +1 555 123 4567
+
+Experience
+Senior Frontend Engineer, Acme 2019 - 2024
+- Built React and TypeScript dashboards used by 40,000 customers.
+
+Skills
+React, TypeScript, Node.js, CSS`;
+
+const JOB_DESCRIPTION = `Senior Frontend Engineer
+Requirements:
+- 3+ years of React experience
+- Strong TypeScript skills
+- Experience with automated testing`;
+
+const mockProvider = (scenario: string) => {
+  const settings: ProviderSettings = {
+    provider: 'mock',
+    model: scenario,
+    temperature: 0.2,
+    timeoutSeconds: 60,
+    contextTokens: 8192,
+    consensusRuns: 1,
+    consensusModels: [],
+    rubric: BUILT_IN_PRESETS[0].weights,
+    outputLanguage: 'en',
+    baseUrl: '',
+    apiKey: '',
+  };
+  return createMockProvider(settings);
+};
+
+// A model that answers every prompt with the complete fixture and remembers what it was sent.
+const recordingProvider = () => {
+  const prompts: ChatMessage[][] = [];
+  return {
+    prompts,
+    complete: async (messages: ChatMessage[]) => {
+      prompts.push(messages);
+      return MOCK_SCENARIOS.complete[0];
+    },
+  };
+};
+
+describe('analyze', () => {
+  it('returns a complete result from a well-formed response', async () => {
+    const stages: AnalysisStage[] = [];
+    const outcome = await analyze(RESUME, JOB_DESCRIPTION, {
+      provider: mockProvider('complete'),
+      onStage: (stage) => stages.push(stage),
+    });
+
+    expect(outcome.status).toBe('complete');
+    expect(outcome.attempts).toBe(1);
+    expect(outcome.issues).toEqual([]);
+    expect(outcome.result?.resume_score).toBe(74);
+    expect(outcome.result?.ats_compatibility).toBe('High');
+    expect(stages).toEqual(['building-prompt', 'waiting', 'streaming', 'validating']);
+  }, TIMEOUT_MS);
+
+  it('asks the model to repair a malformed response', async () => {
+    const stages: AnalysisStage[] = [];
+    const outcome = await analyze(RESUME, JOB_DESCRIPTION, {
+      provider: mockProvider('needs-repair'),
+      onStage: (stage) => stages.push(stage),
+    });
+
+    expect(outcome.status).toBe('complete');
+    expect(outcome.attempts).toBe(2);
+    expect(outcome.result?.resume_score).toBe(74);
+    expect(stages).toContain('repairing');
+  }, TIMEOUT_MS);
+
+  it('keeps the best partial result when repairs do not help', async () => {
+    const outcome = await analyze(RESUME, JOB_DESCRIPTION, { provider: mockProvider('partial') });
+
+    expect(outcome.status).toBe('partial');
+    expect(outcome.attempts).toBe(MAX_REPAIR_ATTEMPTS + 1);
+    expect(outcome.issues.map((issue) => issue.path)).toContain('technical_proficiency');
+    expect(outcome.result?.skills_match.matched).toContain('React');
+  }, TIMEOUT_MS);
+
+  it('fails when no response can be read as JSON', async () => {
+    const outcome = await analyze(RESUME, JOB_DESCRIPTION, { provider: mockProvider('invalid') });
+
+    expect(outcome.status).toBe('failed');
+    expect(outcome.result).toBeNull();
+    expect(outcome.issues).toEqual([expect.objectContaining({ path: '$' })]);
+  }, TIMEOUT_MS);
+
+  it('reports fields from the streaming response before it is complete', async () => {
+    const partials: Record<string, unknown>[] = [];
+    await analyze(RESUME, JOB_DESCRIPTION, {
+      provider: mockProvider('complete'),
+      onPartial: (partial) => partials.push(partial),
+    });
+
+    expect(partials.length).toBeGreaterThan(1);
+    expect(partials[partials.length - 1]).toMatchObject({ resume_score: 74 });
+  }, TIMEOUT_MS);
+
+  it('keeps personal details out of the prompt unless redaction is skipped', async () => {
+    const redacted = recordingProvider();
+    await analyze(RESUME, JOB_DESCRIPTION, { provider: redacted });
+    expect(redacted.prompts[0][0].content).not.toContain('jane.doe@example.com');
+
+    const plain = recordingProvider();
+    await analyze(RESUME, JOB_DESCRIPTION, { provider: plain, skipRedaction: true });
+    expect(plain.prompts[0][0].content).toContain('jane.doe@example.com');
+  });
+
+  it('analyzes a resume too long for the context window in parts and merges them', async () => {
+    const roles = Array.from(
+      { length: 400 },
+      (_, index) => `- Led project ${index + 1}, shipping React and TypeScript features to production for a large customer base.`,
+    );
+    const resume = `${RESUME}\n\nProjects\n${roles.join('\n')}`;
+    const provider = recordingProvider();
+    const chunks: number[] = [];
+
+    const outcome = await analyze(resume, JOB_DESCRIPTION, {
+      provider,
+      contextTokens: 4096,
+      onChunk: ({ index }) => chunks.push(index),
+    });
+
+    expect(outcome.status).toBe('complete');
+    expect(outcome.chunking?.chunks).toBeGreaterThan(1);
+    expect(provider.prompts).toHaveLength(outcome.chunking?.chunks ?? 0);
+    expect(chunks).toEqual(provider.prompts.map((_, index) => index + 1));
+    expect(outcome.result?.resume_score).toBe(74);
+    expect(outcome.result?.skills_match.matched).toContain('React');
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      analyze(RESUME, JOB_DESCRIPTION, { provider: mockProvider('complete'), signal: controller.signal }),
+    ).rejects.toThrow();
+  });
+});
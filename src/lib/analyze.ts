@@ -0,0 +1,233 @@
+import { throwIfAborted } from './abort';
+import { parseJsonResponse, validateAnalysisResult } from './analysisSchema';
+import type { SchemaIssue, ValidationResult } from './analysisSchema';
+import { mergeAnalysisResults, planAnalysis } from './chunking';
+import type { AnalysisPlan, WeightedResult } from './chunking';
+import type { ConsensusSummary } from './consensus';
+import { resolveLanguages } from './i18n/detect';
+import type { AnalysisLanguages, OutputLanguage } from './i18n/languages';
+import { parsePartialJson } from './partialJson';
+import { createRedactor } from './privacy';
+import type { ScoreBreakdown } from './rubric/types';
+import { buildAnalysisPrompt, buildRepairPrompt } from './prompt';
+import type { ChatMessage, CompleteFn, LLMProvider } from './providers/types';
+import { normalizeResultSkills } from './taxonomy';
+import { DEFAULT_CONTEXT_TOKENS } from './tokens';
+import type { AnalysisResult } from '../types';
+
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+export type AnalysisStatus = 'complete' | 'partial' | 'failed';
+
+export interface ChunkingSummary {
+  chunks: number;
+  jobDescriptionCondensed: boolean;
+  // Estimated size of the prompt the inputs would have needed in one piece.
+  promptTokens: number;
+  contextTokens: number;
+}
+
+export interface AnalysisOutcome {
+  status: AnalysisStatus;
+  result: AnalysisResult | null;
+  issues: SchemaIssue[];
+  attempts: number;
+  // Set only when the inputs were too long for one prompt.
+  chunking?: ChunkingSummary;
+  // When the outcome was served from a cache instead of a new model call.
+  cachedAt?: number;
+  // Set when several runs were combined into this result.
+  consensus?: ConsensusSummary;
+  // How resume_score was computed from the rubric, when one was applied.
+  breakdown?: ScoreBreakdown;
+  // Detected input languages and the language the analysis text was written in.
+  languages?: AnalysisLanguages;
+}
+
+export type AnalysisStage = 'building-prompt' | 'waiting' | 'streaming' | 'validating' | 'repairing';
+
+export interface ChunkProgress {
+  // 1-based index of the chunk about to be analyzed.
+  index: number;
+  total: number;
+  // The chunks analyzed so far, merged.
+  merged: AnalysisResult | null;
+}
+
+export interface AnalysisOptions {
+  signal?: AbortSignal;
+  // Inputs that do not fit in this many tokens are condensed or analyzed in chunks.
+  contextTokens?: number;
+  // Language of the analysis text; 'auto' follows the resume.
+  outputLanguage?: OutputLanguage;
+  onStage?: (stage: AnalysisStage) => void;
+  onDelta?: (delta: string) => void;
+  // Receives the fields parsed so far from the streaming response.
+  onPartial?: (partial: Record<string, unknown>) => void;
+  onChunk?: (progress: ChunkProgress) => void;
+}
+
+// Re-parses the growing response after each chunk and reports the fields read so far.
+export const createPartialReader = (onPartial?: (partial: Record<string, unknown>) => void) => {
+  let streamed = '';
+  return {
+    started: () => streamed.length > 0,
+    push: (delta: string) => {
+      streamed += delta;
+      if (!onPartial) return;
+      // Nothing is reported when the text so far does not parse, so the last preview stays up.
+      const partial = parsePartialJson(streamed);
+      if (partial && typeof partial === 'object' && !Array.isArray(partial)) {
+        onPartial(partial as Record<string, unknown>);
+      }
+    },
+  };
+};
+
+const completeAnalysis = async (
+  complete: CompleteFn,
+  prompt: string,
+  { signal, onStage, onDelta, onPartial }: AnalysisOptions,
+): Promise<AnalysisOutcome> => {
+  const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+
+  let best: ValidationResult | null = null;
+  let issues: SchemaIssue[] = [];
+
+  for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS + 1; attempt++) {
+    throwIfAborted(signal);
+    onStage?.(attempt === 1 ? 'waiting' : 'repairing');
+
+    const accumulate = createPartialReader(onPartial);
+    const content = await complete(messages, {
+      signal,
+      onDelta: (delta) => {
+        if (attempt === 1 && !accumulate.started()) onStage?.('streaming');
+        onDelta?.(delta);
+        accumulate.push(delta);
+      },
+    });
+    onStage?.('validating');
+
+    try {
+      const validation = validateAnalysisResult(parseJsonResponse(content));
+      if (!validation.issues.length) {
+        return { status: 'complete', result: normalizeResultSkills(validation.value), issues: [], attempts: attempt };
+      }
+      if (!best || validation.issues.length < best.issues.length) {
+        best = validation;
+      }
+      issues = validation.issues;
+    } catch (error) {
+      issues = [{ path: '$', message: error instanceof Error ? error.message : 'is not valid JSON' }];
+    }
+
+    messages.push(
+      { role: 'assistant', content },
+      { role: 'user', content: buildRepairPrompt(issues) },
+    );
+  }
+
+  // Nothing usable came back if even the root object could not be read.
+  if (!best || best.issues.some((issue) => issue.path === '$')) {
+    return { status: 'failed', result: null, issues, attempts: MAX_REPAIR_ATTEMPTS + 1 };
+  }
+  return {
+    status: 'partial',
+    result: normalizeResultSkills(best.value),
+    issues: best.issues,
+    attempts: MAX_REPAIR_ATTEMPTS + 1,
+  };
+};
+
+const summarizePlan = (plan: AnalysisPlan): ChunkingSummary => ({
+  chunks: plan.chunks.length,
+  jobDescriptionCondensed: plan.jobDescriptionCondensed,
+  promptTokens: plan.promptTokens,
+  contextTokens: plan.contextTokens,
+});
+
+// Map-reduce: each chunk is analyzed on its own, then the results are merged.
+const runChunkedAnalysis = async (
+  complete: CompleteFn,
+  plan: AnalysisPlan,
+  languages: AnalysisLanguages,
+  { signal, onStage, onDelta, onPartial, onChunk }: AnalysisOptions,
+): Promise<AnalysisOutcome> => {
+  const total = plan.chunks.length;
+  const parts: WeightedResult[] = [];
+  const issues: SchemaIssue[] = [];
+  let attempts = 0;
+
+  for (const [offset, chunk] of plan.chunks.entries()) {
+    const index = offset + 1;
+    onChunk?.({ index, total, merged: parts.length ? mergeAnalysisResults(parts) : null });
+    const prompt = buildAnalysisPrompt(chunk.text, plan.jobDescription, plan.parsed, { chunk: { index, total }, languages });
+    // A chunk's own partial result would flash in and out, so only merged results are reported.
+    const outcome = await completeAnalysis(complete, prompt, { signal, onStage, onDelta });
+
+    attempts += outcome.attempts;
+    issues.push(...outcome.issues.map((issue) => ({ ...issue, path: `part ${index} of ${total}: ${issue.path}` })));
+    if (outcome.result) {
+      parts.push({ result: outcome.result, weight: chunk.tokens });
+      onPartial?.({ ...mergeAnalysisResults(parts) });
+    }
+  }
+
+  const chunking = summarizePlan(plan);
+  if (!parts.length) {
+    return { status: 'failed', result: null, issues, attempts, chunking };
+  }
+  return { status: issues.length ? 'partial' : 'complete', result: mergeAnalysisResults(parts), issues, attempts, chunking };
+};
+
+export const runAnalysis = async (
+  complete: CompleteFn,
+  resumeText: string,
+  jobDescription: string,
+  options: AnalysisOptions = {},
+): Promise<AnalysisOutcome> => {
+  options.onStage?.('building-prompt');
+  const plan = planAnalysis(resumeText, jobDescription, options.contextTokens ?? DEFAULT_CONTEXT_TOKENS);
+  const languages = resolveLanguages(resumeText, jobDescription, options.outputLanguage);
+
+  if (plan.chunks.length > 1) {
+    return { ...(await runChunkedAnalysis(complete, plan, languages, options)), languages };
+  }
+  const prompt = buildAnalysisPrompt(resumeText, plan.jobDescription, plan.parsed, { languages });
+  const outcome = { ...(await completeAnalysis(complete, prompt, options)), languages };
+  return plan.jobDescriptionCondensed ? { ...outcome, chunking: summarizePlan(plan) } : outcome;
+};
+
+// Personal details are swapped for placeholders before the resume reaches the model and put back in what comes back.
+export const withRedactedResume = async (
+  resumeText: string,
+  options: AnalysisOptions,
+  run: (resume: string, options: AnalysisOptions) => Promise<AnalysisOutcome>,
+): Promise<AnalysisOutcome> => {
+  const redactor = createRedactor();
+  const { onPartial, onChunk } = options;
+  const outcome = await run(redactor.redact(resumeText, { findName: true }), {
+    ...options,
+    onPartial: onPartial && ((partial) => onPartial(redactor.restore(partial))),
+    onChunk: onChunk && ((progress) => onChunk(redactor.restore(progress))),
+  });
+  return redactor.restore(outcome);
+};
+
+export interface AnalyzeOptions extends AnalysisOptions {
+  // Any object with a `complete` function will do, so tests can pass a mock model.
+  provider: Pick<LLMProvider, 'complete'>;
+  // Send the resume as written instead of with placeholders for personal details.
+  skipRedaction?: boolean;
+}
+
+// The whole pipeline without React or the browser, for scripts and tests.
+export const analyze = (
+  resume: string,
+  jobDescription: string,
+  { provider, skipRedaction = false, ...options }: AnalyzeOptions,
+): Promise<AnalysisOutcome> => {
+  const run = (text: string, runOptions: AnalysisOptions) => runAnalysis(provider.complete, text, jobDescription, runOptions);
+  return skipRedaction ? run(resume, options) : withRedactedResume(resume, options, run);
+};
@@ -0,0 +1,149 @@
+import { throwIfAborted } from './abort';
+import { createPartialReader } from './analyze';
+import type { AnalysisOptions } from './analyze';
+import { NDJSON_CONTENT_TYPE } from './apiTypes';
+import type {
+  AnalyzeRequestBody,
+  AnalyzeResponse,
+  AnalyzeStreamEvent,
+  ApiErrorBody,
+  CoverLetterRequestBody,
+  CoverLetterResponse,
+  InterviewPrepRequestBody,
+  InterviewPrepResponse,
+  RewriteRequestBody,
+  RewriteResponse,
+} from './apiTypes';
+import { readLines } from './streaming';
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+export interface AnalyzeOnServerRequest extends Omit<AnalyzeRequestBody, 'resumeText'> {
+  resume: File | string;
+}
+
+const buildBody = ({ resume, ...fields }: AnalyzeOnServerRequest): RequestInit => {
+  if (typeof resume === 'string') {
+    return {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...fields, resumeText: resume } satisfies AnalyzeRequestBody),
+    };
+  }
+
+  const form = new FormData();
+  form.append('resume', resume);
+  form.append('jobDescription', fields.jobDescription);
+  if (fields.model) form.append('model', fields.model);
+  if (fields.temperature !== undefined) form.append('temperature', String(fields.temperature));
+  if (fields.contextTokens !== undefined) form.append('contextTokens', String(fields.contextTokens));
+  if (fields.outputLanguage) form.append('outputLanguage', fields.outputLanguage);
+  return { body: form };
+};
+
+const readResponse = async <T>(response: Response, action: string): Promise<T> => {
+  if (!response.ok) {
+    const body = (await response.json().catch(() => ({}))) as Partial<ApiErrorBody>;
+    throw new ApiError(body.error ?? `${action} request failed with ${response.status}`, response.status);
+  }
+  return response.json() as Promise<T>;
+};
+
+const readAnalysisStream = async (
+  response: Response,
+  { onStage, onDelta, onPartial, onChunk }: AnalysisOptions,
+): Promise<AnalyzeResponse> => {
+  if (!response.body) throw new ApiError('Analysis response has no body', response.status);
+
+  let partial = createPartialReader(onPartial);
+  // Chunked analyses report merged results instead of each chunk's stream.
+  let chunked = false;
+  for await (const line of readLines(response.body)) {
+    if (!line.trim()) continue;
+    const event: AnalyzeStreamEvent = JSON.parse(line);
+
+    switch (event.type) {
+      case 'stage':
+        // Each model attempt streams a fresh response.
+        if (event.stage === 'waiting' || event.stage === 'repairing') partial = createPartialReader(chunked ? undefined : onPartial);
+        onStage?.(event.stage);
+        break;
+      case 'delta':
+        onDelta?.(event.text);
+        partial.push(event.text);
+        break;
+      case 'chunk':
+        chunked = true;
+        partial = createPartialReader();
+        onChunk?.({ index: event.index, total: event.total, merged: event.merged });
+        if (event.merged) onPartial?.({ ...event.merged });
+        break;
+      case 'result':
+        return event.outcome;
+      case 'error':
+        throw new ApiError(event.error, event.status);
+    }
+  }
+  throw new ApiError('Analysis stream ended without a result', response.status);
+};
+
+export const analyzeOnServer = async (
+  request: AnalyzeOnServerRequest,
+  options: AnalysisOptions & { refresh?: boolean } = {},
+): Promise<AnalyzeResponse> => {
+  const { headers, body } = buildBody(request);
+  const streaming = Boolean(options.onStage || options.onDelta || options.onPartial || options.onChunk);
+
+  try {
+    const response = await fetch('/api/analyze', {
+      method: 'POST',
+      headers: {
+        ...headers,
+        ...(streaming && { Accept: NDJSON_CONTENT_TYPE }),
+        // Asks the server to skip its result cache.
+        ...(options.refresh && { 'Cache-Control': 'no-cache' }),
+      },
+      body,
+      signal: options.signal,
+    });
+    if (!streaming || !response.ok) return await readResponse(response, 'Analysis');
+    return await readAnalysisStream(response, options);
+  } catch (error) {
+    throwIfAborted(options.signal);
+    throw error;
+  }
+};
+
+export const rewriteOnServer = async (request: RewriteRequestBody): Promise<RewriteResponse> => {
+  const response = await fetch('/api/rewrite', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  return readResponse(response, 'Rewrite');
+};
+
+export const coverLetterOnServer = async (request: CoverLetterRequestBody): Promise<CoverLetterResponse> => {
+  const response = await fetch('/api/cover-letter', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  return readResponse(response, 'Cover letter');
+};
+
+export const interviewPrepOnServer = async (request: InterviewPrepRequestBody): Promise<InterviewPrepResponse> => {
+  const response = await fetch('/api/interview-prep', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  return readResponse(response, 'Interview prep');
+};
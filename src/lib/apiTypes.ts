@@ -0,0 +1,94 @@
+import type { AnalysisOutcome, AnalysisStage, ChunkProgress } from './analyze';
+import type { CoverLetter, CoverLetterInput } from './coverLetter/types';
+import type { OutputLanguage } from './i18n/languages';
+import type { InterviewPrepInput, InterviewQuestion } from './interviewPrep/types';
+import type { BulletRewrite, RewriteInput } from './rewrite';
+
+export const ANALYZE_LIMITS = {
+  maxFileBytes: 10 * 1024 * 1024,
+  maxResumeChars: 50_000,
+  maxJobDescriptionChars: 20_000,
+};
+
+// Sent as JSON, or as multipart form fields alongside a `resume` file.
+export interface AnalyzeRequestBody {
+  resumeText?: string;
+  jobDescription: string;
+  model?: string;
+  temperature?: number;
+  contextTokens?: number;
+  outputLanguage?: OutputLanguage;
+}
+
+export type AnalyzeResponse = AnalysisOutcome;
+
+// Clients that accept this type get the analysis as newline-delimited AnalyzeStreamEvents.
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+export type AnalyzeStreamEvent =
+  | { type: 'stage'; stage: AnalysisStage }
+  | { type: 'delta'; text: string }
+  | ({ type: 'chunk' } & ChunkProgress)
+  | { type: 'result'; outcome: AnalyzeResponse }
+  | { type: 'error'; status: number; error: string };
+
+export interface ApiErrorBody {
+  error: string;
+}
+
+// Shortens a list of terms to what the server accepts instead of having the request rejected.
+export const capList = (items: string[], maxItems: number, maxChars: number) =>
+  items
+    .map((item) => item.trim().slice(0, maxChars).trim())
+    .filter(Boolean)
+    .slice(0, maxItems);
+
+export const REWRITE_LIMITS = {
+  maxBullets: 20,
+  maxBulletChars: 1_000,
+  maxTerms: 50,
+  maxTermChars: 200,
+  maxRequirementChars: 500,
+};
+
+export interface RewriteRequestBody extends RewriteInput {
+  model?: string;
+  temperature?: number;
+}
+
+export interface RewriteResponse {
+  rewrites: BulletRewrite[];
+}
+
+export const COVER_LETTER_LIMITS = {
+  maxLines: 300,
+  maxLineChars: 1_000,
+  maxTerms: 50,
+  maxTermChars: 200,
+  maxRequirementChars: 500,
+};
+
+export interface CoverLetterRequestBody extends CoverLetterInput {
+  model?: string;
+  temperature?: number;
+}
+
+export interface CoverLetterResponse {
+  letter: CoverLetter;
+}
+
+export const INTERVIEW_PREP_LIMITS = {
+  maxGaps: 30,
+  maxGapChars: 500,
+  maxLines: 300,
+  maxLineChars: 1_000,
+};
+
+export interface InterviewPrepRequestBody extends InterviewPrepInput {
+  model?: string;
+  temperature?: number;
+}
+
+export interface InterviewPrepResponse {
+  questions: InterviewQuestion[];
+}
@@ -0,0 +1,154 @@
+import { requestAnalysis } from './analysisClient';
+import type { SchemaIssue } from './analysisSchema';
+import { ApiError } from './api';
+import { extractResume } from './extraction';
+import type { HiddenText, OcrSummary } from './extraction';
+import type { ProviderSettings } from './providers';
+import type { ScoreBreakdown } from './rubric';
+import { ATS_LEVELS } from '../types';
+import type { AnalysisResult } from '../types';
+
+export const DEFAULT_CONCURRENCY = 2;
+export const MAX_CONCURRENCY = 6;
+export const MAX_RATE_LIMIT_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+
+export type RunStatus = 'queued' | 'extracting' | 'analyzing' | 'waiting' | 'complete' | 'partial' | 'failed';
+
+export interface RunState {
+  status: RunStatus;
+  // Rate-limit retries used so far.
+  retries: number;
+  result: AnalysisResult | null;
+  issues: SchemaIssue[];
+  error: string | null;
+  breakdown?: ScoreBreakdown;
+}
+
+export const QUEUED_RUN: RunState = { status: 'queued', retries: 0, result: null, issues: [], error: null };
+
+export const isRunBusy = (status: RunStatus) => status === 'extracting' || status === 'analyzing' || status === 'waiting';
+
+export interface BatchCandidate extends RunState {
+  id: string;
+  fileName: string;
+  resumeText: string;
+  ocr: OcrSummary | null;
+  hiddenText: HiddenText[];
+}
+
+export const createCandidate = (file: File): BatchCandidate => ({
+  id: crypto.randomUUID(),
+  fileName: file.name,
+  resumeText: '',
+  ocr: null,
+  hiddenText: [],
+  ...QUEUED_RUN,
+});
+
+export const isRateLimitError = (error: unknown) => error instanceof ApiError && error.status === 429;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const retryDelay = (retry: number) => RETRY_BASE_DELAY_MS * 2 ** retry + Math.random() * 1000;
+
+// Runs tasks with at most `limit` in flight, in the order they were given.
+export const runWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>) => {
+  let next = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+};
+
+// Runs one analysis, backing off and retrying while the provider rate limits us.
+export const analyzeWithRetry = async (
+  settings: ProviderSettings,
+  resumeText: string,
+  jobDescription: string,
+  update: (changes: Partial<RunState>) => void,
+) => {
+  for (let retry = 0; ; retry++) {
+    try {
+      update({ status: 'analyzing' });
+      const outcome = await requestAnalysis(settings, resumeText, jobDescription);
+      update(
+        outcome.status === 'failed' || !outcome.result
+          ? { status: 'failed', issues: outcome.issues, error: 'The model did not return a readable analysis' }
+          : { status: outcome.status, result: outcome.result, issues: outcome.issues, breakdown: outcome.breakdown },
+      );
+      return;
+    } catch (error) {
+      if (isRateLimitError(error) && retry < MAX_RATE_LIMIT_RETRIES) {
+        update({ status: 'waiting', retries: retry + 1 });
+        await sleep(retryDelay(retry));
+        continue;
+      }
+      update({ status: 'failed', error: error instanceof Error ? error.message : 'Analysis failed' });
+      return;
+    }
+  }
+};
+
+export interface BatchOptions {
+  files: File[];
+  candidates: BatchCandidate[];
+  jobDescription: string;
+  settings: ProviderSettings;
+  concurrency: number;
+  onUpdate: (id: string, changes: Partial<BatchCandidate>) => void;
+}
+
+export const runBatch = ({ files, candidates, jobDescription, settings, concurrency, onUpdate }: BatchOptions) =>
+  runWithConcurrency(
+    candidates.map((candidate, index) => ({ candidate, file: files[index] })),
+    concurrency,
+    async ({ candidate, file }) => {
+      const update = (changes: Partial<BatchCandidate>) => onUpdate(candidate.id, changes);
+
+      let resumeText: string;
+      try {
+        update({ status: 'extracting' });
+        const extracted = await extractResume(file);
+        resumeText = extracted.text;
+        update({ resumeText, ocr: extracted.ocr, hiddenText: extracted.hiddenText });
+      } catch (error) {
+        update({ status: 'failed', error: error instanceof Error ? error.message : 'Could not read this file' });
+        return;
+      }
+
+      await analyzeWithRetry(settings, resumeText, jobDescription, update);
+    },
+  );
+
+export type RankingKey = 'fileName' | 'score' | 'ats' | 'match';
+
+const rankValue = (candidate: BatchCandidate, key: RankingKey): string | number => {
+  const { result } = candidate;
+  switch (key) {
+    case 'fileName':
+      return candidate.fileName.toLowerCase();
+    case 'score':
+      return result?.resume_score ?? -1;
+    case 'ats':
+      // ATS_LEVELS runs from best to worst.
+      return result ? ATS_LEVELS.length - ATS_LEVELS.indexOf(result.ats_compatibility) : -1;
+    case 'match':
+      return result?.skills_match.match_percentage ?? -1;
+  }
+};
+
+export const sortCandidates = (candidates: BatchCandidate[], key: RankingKey, descending: boolean) =>
+  [...candidates].sort((a, b) => {
+    const left = rankValue(a, key);
+    const right = rankValue(b, key);
+    const order = left < right ? -1 : left > right ? 1 : 0;
+    return descending ? -order : order;
+  });
+
+export const TOP_MISSING_COUNT = 3;
+
+export const topMissingRequirements = (candidate: BatchCandidate) =>
+  candidate.result?.job_requirements_coverage.missing_requirements.slice(0, TOP_MISSING_COUNT) ?? [];
@@ -0,0 +1,27 @@
+import type { AnalysisOutcome } from '../analyze';
+import { STORES, deleteRecord, getAllRecords, getRecord, putRecord } from '../storage/db';
+
+export { analysisCacheKey, promptTemplateHash } from './key';
+export type { AnalysisCacheInput } from './key';
+
+// Oldest entries beyond this are dropped when a new one is written.
+export const MAX_CACHE_ENTRIES = 200;
+
+interface CacheEntry {
+  key: string;
+  createdAt: number;
+  outcome: AnalysisOutcome;
+}
+
+export const readCachedAnalysis = async (key: string): Promise<AnalysisOutcome | null> => {
+  const entry = await getRecord<CacheEntry>(STORES.analysisCache, key);
+  return entry ? { ...entry.outcome, cachedAt: entry.createdAt } : null;
+};
+
+export const writeCachedAnalysis = async (key: string, outcome: AnalysisOutcome) => {
+  await putRecord<CacheEntry>(STORES.analysisCache, { key, createdAt: Date.now(), outcome: { ...outcome, cachedAt: undefined } });
+
+  const entries = await getAllRecords<CacheEntry>(STORES.analysisCache);
+  const stale = entries.sort((a, b) => b.createdAt - a.createdAt).slice(MAX_CACHE_ENTRIES);
+  await Promise.all(stale.map((entry) => deleteRecord(STORES.analysisCache, entry.key)));
+};
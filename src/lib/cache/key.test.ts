@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { analysisCacheKey } from './key';
+import type { AnalysisCacheInput } from './key';
+
+const input: AnalysisCacheInput = {
+  resumeText: 'Jane Doe\nReact developer',
+  jobDescription: 'React engineer',
+  provider: 'openai-compatible',
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'llama3.1',
+  temperature: 0.2,
+  contextTokens: 8192,
+  outputLanguage: 'auto',
+};
+
+const keyWith = (overrides: Partial<AnalysisCacheInput>) => analysisCacheKey({ ...input, ...overrides });
+
+describe('analysisCacheKey', () => {
+  it('ignores line endings and trailing spaces', async () => {
+    expect(await keyWith({ resumeText: 'Jane Doe  \r\nReact developer\n' })).toBe(await keyWith({}));
+  });
+
+  it('changes with case and line breaks', async () => {
+    const key = await keyWith({});
+    expect(await keyWith({ resumeText: 'Jane Doe\nreact developer' })).not.toBe(key);
+    expect(await keyWith({ resumeText: 'Jane Doe React developer' })).not.toBe(key);
+  });
+
+  it('tells endpoints apart but not their spelling', async () => {
+    const key = await keyWith({});
+    expect(await keyWith({ baseUrl: 'https://models.example.com/v1' })).not.toBe(key);
+    expect(await keyWith({ baseUrl: ' http://localhost:11434/v1/ ' })).toBe(key);
+  });
+});
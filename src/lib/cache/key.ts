@@ -0,0 +1,60 @@
+import { normalizeForCache, sha256 } from '../hash';
+import type { OutputLanguage } from '../i18n/languages';
+import { buildAnalysisPrompt, buildRepairPrompt } from '../prompt';
+import { parseResume } from '../resumeParser';
+
+export interface AnalysisCacheInput {
+  resumeText: string;
+  jobDescription: string;
+  provider: string;
+  // Endpoint of an OpenAI-compatible provider; empty for providers with a fixed one.
+  baseUrl: string;
+  model: string;
+  temperature: number;
+  contextTokens: number;
+  outputLanguage: OutputLanguage;
+}
+
+// "http://host/v1/" and " http://host/v1" reach the same endpoint.
+const normalizeBaseUrl = (baseUrl: string) => baseUrl.trim().replace(/\/+$/, '');
+
+let templateHash: Promise<string> | null = null;
+
+// Changes whenever the prompt wording or schema does, so results from an older prompt are never reused.
+export const promptTemplateHash = () => {
+  templateHash ??= sha256(
+    [
+      buildAnalysisPrompt('{resume}', '{job}', parseResume(''), {
+        chunk: { index: 1, total: 2 },
+        languages: { resume: 'de', jobDescription: 'fr', output: 'es' },
+      }),
+      buildAnalysisPrompt('{resume}', '{job}', parseResume('')),
+      buildRepairPrompt([]),
+    ].join('\n'),
+  );
+  return templateHash;
+};
+
+export const analysisCacheKey = async ({
+  resumeText,
+  jobDescription,
+  provider,
+  baseUrl,
+  model,
+  temperature,
+  contextTokens,
+  outputLanguage,
+}: AnalysisCacheInput) =>
+  sha256(
+    JSON.stringify([
+      await promptTemplateHash(),
+      await sha256(normalizeForCache(resumeText)),
+      await sha256(normalizeForCache(jobDescription)),
+      provider,
+      normalizeBaseUrl(baseUrl),
+      model,
+      temperature,
+      contextTokens,
+      outputLanguage,
+    ]),
+  );
@@ -0,0 +1,4 @@
+export { ContextWindowError, chunkResume, planAnalysis } from './plan';
+export type { AnalysisPlan, ResumeChunk } from './plan';
+export { mergeAnalysisResults } from './merge';
+export type { WeightedResult } from './merge';
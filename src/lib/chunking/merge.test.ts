@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { validateAnalysisResult } from '../analysisSchema';
+import { mergeAnalysisResults } from './merge';
+
+const result = (overrides: Record<string, unknown>) => validateAnalysisResult(overrides).value;
+
+describe('mergeAnalysisResults', () => {
+  it('averages scores by chunk weight', () => {
+    const merged = mergeAnalysisResults([
+      { result: result({ resume_score: 90, readability_score: 60 }), weight: 3 },
+      { result: result({ resume_score: 50, readability_score: 80 }), weight: 1 },
+    ]);
+
+    expect(merged.resume_score).toBe(80);
+    expect(merged.readability_score).toBe(65);
+  });
+
+  it('treats a requirement one chunk met as met', () => {
+    const merged = mergeAnalysisResults([
+      {
+        result: result({ job_requirements_coverage: { met_requirements: [], missing_requirements: ['Strong TypeScript skills'] } }),
+        weight: 1,
+      },
+      {
+        result: result({ job_requirements_coverage: { met_requirements: ['Strong TypeScript skills'], missing_requirements: [] } }),
+        weight: 1,
+      },
+    ]);
+
+    expect(merged.job_requirements_coverage.met_requirements).toEqual(['Strong TypeScript skills']);
+    expect(merged.job_requirements_coverage.missing_requirements).toEqual([]);
+  });
+
+  it('merges alias spellings and recounts the skill match', () => {
+    const merged = mergeAnalysisResults([
+      { result: result({ skills_match: { matched: ['JS'], missing: ['Docker'], match_percentage: 50 } }), weight: 1 },
+      { result: result({ skills_match: { matched: ['JavaScript', 'React'], missing: [], match_percentage: 100 } }), weight: 1 },
+    ]);
+
+    expect(merged.skills_match.matched).toEqual(['JavaScript', 'React']);
+    expect(merged.skills_match.match_percentage).toBe(67);
+  });
+});
@@ -0,0 +1,89 @@
+import { normalizeText } from '../scoring/keywords';
+import { normalizeResultSkills } from '../taxonomy';
+import type { AnalysisResult } from '../../types';
+
+export interface WeightedResult {
+  result: AnalysisResult;
+  // Usually the token count of the resume chunk the result describes.
+  weight: number;
+}
+
+const unique = (items: string[]) => {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const key = normalizeText(item).trim();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const without = (items: string[], exclude: string[]) => {
+  const excluded = new Set(exclude.map((item) => normalizeText(item).trim()));
+  return unique(items).filter((item) => !excluded.has(normalizeText(item).trim()));
+};
+
+const weightedAverage = (parts: WeightedResult[], read: (result: AnalysisResult) => number) => {
+  const total = parts.reduce((sum, part) => sum + part.weight, 0);
+  return Math.round(parts.reduce((sum, part) => sum + read(part.result) * part.weight, 0) / total);
+};
+
+// The value carrying the most weight across parts; ties go to the earlier part.
+const weightedMode = <T extends string>(parts: WeightedResult[], read: (result: AnalysisResult) => T) => {
+  const totals = new Map<T, number>();
+  parts.forEach((part) => totals.set(read(part.result), (totals.get(read(part.result)) ?? 0) + part.weight));
+  return [...totals.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+};
+
+/*
+ * Combines analyses of separate resume chunks into one result. Anything a
+ * chunk found in the resume counts as present, so an item is only missing
+ * when no chunk found it; scores are averaged by chunk size.
+ */
+export const mergeAnalysisResults = (parts: WeightedResult[]): AnalysisResult => {
+  if (parts.length === 1) return parts[0].result;
+  const all = <T>(read: (result: AnalysisResult) => T[]) => parts.flatMap((part) => read(part.result));
+
+  const metRequirements = unique(all((result) => result.job_requirements_coverage.met_requirements));
+
+  const merged = normalizeResultSkills({
+    overall_summary: unique(parts.map((part) => part.result.overall_summary)).join(' '),
+    resume_score: weightedAverage(parts, (result) => result.resume_score),
+    ats_compatibility: weightedMode(parts, (result) => result.ats_compatibility),
+    resume_length: weightedMode(parts, (result) => result.resume_length),
+    readability_score: weightedAverage(parts, (result) => result.readability_score),
+    skills_match: {
+      matched: unique(all((result) => result.skills_match.matched)),
+      missing: unique(all((result) => result.skills_match.missing)),
+      match_percentage: weightedAverage(parts, (result) => result.skills_match.match_percentage),
+    },
+    soft_skills_match: {
+      matched: unique(all((result) => result.soft_skills_match.matched)),
+      missing: unique(all((result) => result.soft_skills_match.missing)),
+    },
+    technical_proficiency: {
+      strong: unique(all((result) => result.technical_proficiency.strong)),
+      moderate: unique(all((result) => result.technical_proficiency.moderate)),
+      weak_or_missing: unique(all((result) => result.technical_proficiency.weak_or_missing)),
+    },
+    keywords_analysis: {
+      present_keywords: unique(all((result) => result.keywords_analysis.present_keywords)),
+      missing_keywords: unique(all((result) => result.keywords_analysis.missing_keywords)),
+    },
+    job_requirements_coverage: {
+      met_requirements: metRequirements,
+      missing_requirements: without(all((result) => result.job_requirements_coverage.missing_requirements), metRequirements),
+    },
+    tone_of_language: weightedMode(parts, (result) => result.tone_of_language),
+    formatting_issues: unique(all((result) => result.formatting_issues)),
+    grammar_issues: unique(all((result) => result.grammar_issues)),
+    recommendations: unique(all((result) => result.recommendations)),
+  });
+
+  // Recounted once aliases are merged, since "JS" in one chunk and "JavaScript" in another are one skill.
+  const { matched, missing } = merged.skills_match;
+  if (matched.length + missing.length > 0) {
+    merged.skills_match.match_percentage = Math.round((matched.length / (matched.length + missing.length)) * 100);
+  }
+  return merged;
+};
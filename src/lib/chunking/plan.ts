@@ -0,0 +1,130 @@
+import { formatJobDescription, parseJobDescription } from '../jobParser';
+import { buildAnalysisPrompt } from '../prompt';
+import { parseResume, splitSections } from '../resumeParser';
+import type { ParsedResume } from '../resumeParser';
+import { clampContextTokens, estimateTokens, promptTokenLimit } from '../tokens';
+
+// The job description may take at most this share of the prompt before it is condensed.
+const MAX_JOB_SHARE = 0.5;
+// Below this there is no room left to say anything useful about a resume section.
+const MIN_CHUNK_TOKENS = 250;
+
+export interface ResumeChunk {
+  text: string;
+  tokens: number;
+}
+
+export interface AnalysisPlan {
+  parsed: ParsedResume;
+  // Possibly condensed to its requirements when the original was too long.
+  jobDescription: string;
+  jobDescriptionCondensed: boolean;
+  chunks: ResumeChunk[];
+  promptTokens: number;
+  contextTokens: number;
+}
+
+export class ContextWindowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContextWindowError';
+  }
+}
+
+const truncateToTokens = (text: string, tokens: number) => {
+  if (estimateTokens(text) <= tokens) return text;
+  // Cut at a line break so the parser still sees whole requirements.
+  const cut = text.slice(0, tokens * 4);
+  return `${cut.slice(0, Math.max(cut.lastIndexOf('\n'), 0) || cut.length)}\n[Job description truncated]`;
+};
+
+const fitJobDescription = (jobDescription: string, tokens: number) => {
+  if (estimateTokens(jobDescription) <= tokens) return { jobDescription, condensed: false };
+  // Company blurbs and benefits carry no requirements, so the parsed form drops them first.
+  const formatted = formatJobDescription(parseJobDescription(jobDescription));
+  return { jobDescription: truncateToTokens(formatted || jobDescription, tokens), condensed: true };
+};
+
+const splitLines = (text: string, tokens: number) => {
+  const pieces: string[] = [];
+  let current = '';
+  for (const line of text.split('\n')) {
+    // A single line longer than the budget is cut into slices.
+    const slices = line.match(new RegExp(`[\\s\\S]{1,${tokens * 4}}`, 'g')) ?? [''];
+    for (const slice of slices) {
+      const next = current ? `${current}\n${slice}` : slice;
+      if (current && estimateTokens(next) > tokens) {
+        pieces.push(current);
+        current = slice;
+      } else {
+        current = next;
+      }
+    }
+  }
+  if (current.trim()) pieces.push(current);
+  return pieces;
+};
+
+// Packs whole sections into as few chunks as fit, splitting a section only when it alone is too large.
+export const chunkResume = (resumeText: string, tokens: number): ResumeChunk[] => {
+  const lines = resumeText
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  const { header, blocks } = splitSections(lines);
+  const segments = [header.join('\n'), ...blocks.map((block) => [block.heading, ...block.lines].join('\n'))]
+    .filter((segment) => segment.trim())
+    .flatMap((segment) => (estimateTokens(segment) > tokens ? splitLines(segment, tokens) : [segment]));
+
+  const chunks: string[] = [];
+  for (const segment of segments) {
+    const last = chunks[chunks.length - 1];
+    if (last !== undefined && estimateTokens(`${last}\n\n${segment}`) <= tokens) {
+      chunks[chunks.length - 1] = `${last}\n\n${segment}`;
+    } else {
+      chunks.push(segment);
+    }
+  }
+  return chunks.map((text) => ({ text, tokens: estimateTokens(text) }));
+};
+
+// Decides whether the analysis fits in one prompt and, when it does not, how to split it.
+export const planAnalysis = (resumeText: string, jobDescription: string, contextTokens: number): AnalysisPlan => {
+  const context = clampContextTokens(contextTokens);
+  const limit = promptTokenLimit(context);
+  const parsed = parseResume(resumeText);
+  const promptTokens = estimateTokens(buildAnalysisPrompt(resumeText, jobDescription, parsed));
+
+  if (promptTokens <= limit) {
+    return {
+      parsed,
+      jobDescription,
+      jobDescriptionCondensed: false,
+      chunks: [{ text: resumeText, tokens: estimateTokens(resumeText) }],
+      promptTokens,
+      contextTokens: context,
+    };
+  }
+
+  const job = fitJobDescription(jobDescription, Math.floor(limit * MAX_JOB_SHARE));
+  const overhead = estimateTokens(buildAnalysisPrompt('', job.jobDescription, parsed, { chunk: { index: 1, total: 9 } }));
+  const chunkTokens = limit - overhead;
+  if (chunkTokens < MIN_CHUNK_TOKENS) {
+    throw new ContextWindowError(
+      `A context window of ${context} tokens is too small for this analysis. Increase it in Model Settings.`,
+    );
+  }
+
+  // A condensed job description may be enough to fit the whole resume after all.
+  const chunks = estimateTokens(resumeText) <= chunkTokens
+    ? [{ text: resumeText, tokens: estimateTokens(resumeText) }]
+    : chunkResume(resumeText, chunkTokens);
+  return {
+    parsed,
+    jobDescription: job.jobDescription,
+    jobDescriptionCondensed: job.condensed,
+    chunks,
+    promptTokens,
+    contextTokens: context,
+  };
+};
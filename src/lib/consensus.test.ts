@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { validateAnalysisResult } from './analysisSchema';
+import { buildConsensus } from './consensus';
+import type { AnalysisResult } from '../types';
+
+const result = (overrides: Record<string, unknown>): AnalysisResult => validateAnalysisResult(overrides).value;
+
+const runs = (...results: AnalysisResult[]) => results.map((value, index) => ({ model: `model-${index + 1}`, result: value }));
+
+describe('buildConsensus', () => {
+  it('takes the median of each score and records the range', () => {
+    const { result: combined, consensus } = buildConsensus(
+      runs(result({ resume_score: 60 }), result({ resume_score: 80 }), result({ resume_score: 70 })),
+    );
+
+    expect(combined.resume_score).toBe(70);
+    expect(consensus.ranges.resume_score).toEqual({ median: 70, min: 60, max: 80 });
+    expect(consensus.models).toEqual(['model-1', 'model-2', 'model-3']);
+  });
+
+  it('keeps the items most runs mention', () => {
+    const { result: combined } = buildConsensus(
+      runs(
+        result({ skills_match: { matched: ['React', 'Go'], missing: [], match_percentage: 50 } }),
+        result({ skills_match: { matched: ['React'], missing: [], match_percentage: 50 } }),
+        result({ skills_match: { matched: ['React', 'Rust'], missing: [], match_percentage: 50 } }),
+      ),
+    );
+
+    expect(combined.skills_match.matched).toEqual(['React']);
+  });
+
+  it('counts alias spellings of a skill as one vote', () => {
+    const { result: combined } = buildConsensus(
+      runs(
+        result({ skills_match: { matched: ['JS'], missing: [], match_percentage: 50 } }),
+        result({ skills_match: { matched: ['JavaScript'], missing: [], match_percentage: 50 } }),
+        result({ skills_match: { matched: ['Python'], missing: [], match_percentage: 50 } }),
+      ),
+    );
+
+    expect(combined.skills_match.matched).toEqual(['JavaScript']);
+  });
+
+  it('places an item in the list most runs chose for it', () => {
+    const { result: combined } = buildConsensus(
+      runs(
+        result({ keywords_analysis: { present_keywords: ['CI/CD'], missing_keywords: [] } }),
+        result({ keywords_analysis: { present_keywords: [], missing_keywords: ['CI/CD'] } }),
+        result({ keywords_analysis: { present_keywords: [], missing_keywords: ['CI/CD'] } }),
+      ),
+    );
+
+    expect(combined.keywords_analysis.present_keywords).toEqual([]);
+    expect(combined.keywords_analysis.missing_keywords).toEqual(['CI/CD']);
+  });
+
+  it('reports full agreement when every run says the same', () => {
+    const same = result({ resume_score: 70, recommendations: ['Add metrics to your bullets.'] });
+    const { consensus } = buildConsensus(runs(same, same, same));
+
+    expect(consensus.agreement.scores).toBe(1);
+    expect(consensus.agreement.recommendations).toBe(1);
+  });
+});
@@ -0,0 +1,191 @@
+import { textSimilarity } from './jobParser';
+import { canonicalSkill, normalizeResultSkills } from './taxonomy';
+import type { AnalysisResult } from '../types';
+
+export const CONSENSUS_RUN_OPTIONS = [1, 3, 5];
+
+export const CONSENSUS_SECTIONS = [
+  'scores',
+  'skills',
+  'technical',
+  'keywords',
+  'requirements',
+  'soft_skills',
+  'issues',
+  'recommendations',
+] as const;
+
+export type ConsensusSection = typeof CONSENSUS_SECTIONS[number];
+
+export interface ScoreRange {
+  median: number;
+  min: number;
+  max: number;
+}
+
+export const RANGED_SCORES = ['resume_score', 'readability_score', 'match_percentage'] as const;
+
+export type RangedScore = typeof RANGED_SCORES[number];
+
+export interface ConsensusSummary {
+  // Model used for each run that returned a result.
+  models: string[];
+  ranges: Record<RangedScore, ScoreRange>;
+  // 0 when no two runs agreed on anything in a section, 1 when every run said the same.
+  agreement: Record<ConsensusSection, number>;
+}
+
+export interface ConsensusRun {
+  model: string;
+  result: AnalysisResult;
+}
+
+export type AgreementLevel = 'High' | 'Medium' | 'Low';
+
+export const agreementLevel = (agreement: number): AgreementLevel =>
+  agreement >= 0.75 ? 'High' : agreement >= 0.5 ? 'Medium' : 'Low';
+
+// Score spreads this wide or wider count as no agreement at all.
+const MAX_SCORE_SPREAD = 30;
+// Recommendations and issues are reworded between runs, so near matches count as the same item.
+const SAME_TEXT_SIMILARITY = 0.5;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+};
+
+const rangeOf = (values: number[]): ScoreRange => ({ median: median(values), min: Math.min(...values), max: Math.max(...values) });
+
+const mode = <T>(values: T[]) => {
+  const counts = new Map<T, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+};
+
+// Alias spellings such as "JS" and "JavaScript" vote together.
+const sameTerm = (a: string, b: string) => canonicalSkill(a).toLowerCase() === canonicalSkill(b).toLowerCase();
+const sameText = (a: string, b: string) => textSimilarity(a, b) >= SAME_TEXT_SIMILARITY;
+
+// An item each run placed in one of several lists, such as matched (0) or missing (1).
+interface Placement {
+  text: string;
+  list: number;
+}
+
+const pairwiseAgreement = (sets: Set<string>[]) => {
+  const scores: number[] = [];
+  sets.forEach((left, i) =>
+    sets.slice(i + 1).forEach((right) => {
+      const union = new Set([...left, ...right]);
+      const shared = [...left].filter((item) => right.has(item)).length;
+      scores.push(union.size ? shared / union.size : 1);
+    }),
+  );
+  return scores.length ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 1;
+};
+
+/*
+ * Keeps the items that most runs mention and puts each in the list most runs
+ * chose for it, breaking ties towards the later (more cautious) list.
+ */
+const voteSection = (runs: Placement[][], lists: number, same: (a: string, b: string) => boolean) => {
+  const labels: string[] = [];
+  const placed = runs.map((placements) =>
+    placements.map(({ text, list }) => {
+      let cluster = labels.findIndex((label) => same(label, text));
+      if (cluster < 0) cluster = labels.push(text) - 1;
+      return { cluster, list };
+    }),
+  );
+
+  const result: string[][] = Array.from({ length: lists }, () => []);
+  labels.forEach((label, cluster) => {
+    const votes = placed.flatMap((placements) => {
+      const match = placements.find((placement) => placement.cluster === cluster);
+      return match ? [match.list] : [];
+    });
+    if (votes.length * 2 > runs.length) {
+      result[votes.sort((a, b) => a - b)[Math.floor(votes.length / 2)]].push(label);
+    }
+  });
+
+  const agreement = pairwiseAgreement(placed.map((placements) => new Set(placements.map(({ cluster, list }) => `${cluster}:${list}`))));
+  return { lists: result, agreement };
+};
+
+const placements = (...lists: string[][]) => lists.flatMap((items, list) => items.map((text) => ({ text, list })));
+
+// Combines repeated analyses into medians for scores and majority votes for lists.
+export const buildConsensus = (runs: ConsensusRun[]): { result: AnalysisResult; consensus: ConsensusSummary } => {
+  const results = runs.map((run) => run.result);
+  const vote = (read: (result: AnalysisResult) => string[][], same = sameTerm) =>
+    voteSection(
+      results.map((result) => placements(...read(result))),
+      read(results[0]).length,
+      same,
+    );
+
+  const ranges: Record<RangedScore, ScoreRange> = {
+    resume_score: rangeOf(results.map((result) => result.resume_score)),
+    readability_score: rangeOf(results.map((result) => result.readability_score)),
+    match_percentage: rangeOf(results.map((result) => result.skills_match.match_percentage)),
+  };
+  const skills = vote((result) => [result.skills_match.matched, result.skills_match.missing]);
+  const softSkills = vote((result) => [result.soft_skills_match.matched, result.soft_skills_match.missing]);
+  const technical = vote((result) => [
+    result.technical_proficiency.strong,
+    result.technical_proficiency.moderate,
+    result.technical_proficiency.weak_or_missing,
+  ]);
+  const keywords = vote((result) => [result.keywords_analysis.present_keywords, result.keywords_analysis.missing_keywords]);
+  const requirements = vote(
+    (result) => [result.job_requirements_coverage.met_requirements, result.job_requirements_coverage.missing_requirements],
+    sameText,
+  );
+  const issues = vote((result) => [result.formatting_issues, result.grammar_issues], sameText);
+  const recommendations = vote((result) => [result.recommendations], sameText);
+
+  // The summary is written for one score, so it comes from the run closest to the median.
+  const representative = results.reduce((best, result) =>
+    Math.abs(result.resume_score - ranges.resume_score.median) < Math.abs(best.resume_score - ranges.resume_score.median)
+      ? result
+      : best,
+  );
+
+  const result = normalizeResultSkills({
+    overall_summary: representative.overall_summary,
+    resume_score: ranges.resume_score.median,
+    ats_compatibility: mode(results.map((run) => run.ats_compatibility)),
+    resume_length: mode(results.map((run) => run.resume_length)),
+    readability_score: ranges.readability_score.median,
+    skills_match: { matched: skills.lists[0], missing: skills.lists[1], match_percentage: ranges.match_percentage.median },
+    soft_skills_match: { matched: softSkills.lists[0], missing: softSkills.lists[1] },
+    technical_proficiency: { strong: technical.lists[0], moderate: technical.lists[1], weak_or_missing: technical.lists[2] },
+    keywords_analysis: { present_keywords: keywords.lists[0], missing_keywords: keywords.lists[1] },
+    job_requirements_coverage: { met_requirements: requirements.lists[0], missing_requirements: requirements.lists[1] },
+    tone_of_language: mode(results.map((run) => run.tone_of_language)),
+    formatting_issues: issues.lists[0],
+    grammar_issues: issues.lists[1],
+    recommendations: recommendations.lists[0],
+  });
+
+  return {
+    result,
+    consensus: {
+      models: runs.map((run) => run.model),
+      ranges,
+      agreement: {
+        scores: Math.max(0, 1 - (ranges.resume_score.max - ranges.resume_score.min) / MAX_SCORE_SPREAD),
+        skills: skills.agreement,
+        technical: technical.agreement,
+        keywords: keywords.agreement,
+        requirements: requirements.agreement,
+        soft_skills: softSkills.agreement,
+        issues: issues.agreement,
+        recommendations: recommendations.agreement,
+      },
+    },
+  };
+};
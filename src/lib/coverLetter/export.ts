@@ -0,0 +1,74 @@
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const PAGE_MARGIN_MM = 25;
+const FONT_SIZE_PT = 11;
+const LINE_HEIGHT_MM = 5.5;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const paragraphsOf = (text: string) => text.split(/\n\s*\n/).map((paragraph) => paragraph.trim()).filter(Boolean);
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+</Types>`;
+
+const PACKAGE_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+// Line breaks inside a paragraph, such as an address block, stay as breaks within it.
+const documentXml = (text: string) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:body>
+${paragraphsOf(text)
+  .map(
+    (paragraph) =>
+      `    <w:p><w:pPr><w:spacing w:after="200"/></w:pPr>${paragraph
+        .split('\n')
+        .map((line, index) => `${index ? '<w:r><w:br/></w:r>' : ''}<w:r><w:t xml:space="preserve">${escapeXml(line.trim())}</w:t></w:r>`)
+        .join('')}</w:p>`,
+  )
+  .join('\n')}
+    <w:sectPr><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440"/></w:sectPr>
+  </w:body>
+</w:document>`;
+
+export const buildCoverLetterDocx = async (text: string) => {
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', CONTENT_TYPES);
+  zip.file('_rels/.rels', PACKAGE_RELATIONSHIPS);
+  zip.file('word/document.xml', documentXml(text));
+  return zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME_TYPE });
+};
+
+// Lays the letter out as real text rather than an image, so it stays searchable and selectable.
+export const buildCoverLetterPdf = async (text: string) => {
+  const { jsPDF } = await import('jspdf');
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+  const width = pdf.internal.pageSize.getWidth() - PAGE_MARGIN_MM * 2;
+  const bottom = pdf.internal.pageSize.getHeight() - PAGE_MARGIN_MM;
+  pdf.setFont('helvetica');
+  pdf.setFontSize(FONT_SIZE_PT);
+
+  let y = PAGE_MARGIN_MM;
+  for (const paragraph of paragraphsOf(text)) {
+    for (const line of pdf.splitTextToSize(paragraph, width) as string[]) {
+      if (y > bottom) {
+        pdf.addPage();
+        y = PAGE_MARGIN_MM;
+      }
+      pdf.text(line, PAGE_MARGIN_MM, y);
+      y += LINE_HEIGHT_MM;
+    }
+    y += LINE_HEIGHT_MM;
+  }
+  return pdf.output('blob');
+};
+
+export const coverLetterFileName = (resumeFileName: string) => `${resumeFileName.replace(/\.[^.]+$/, '') || 'resume'}-cover-letter`;
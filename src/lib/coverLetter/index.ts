@@ -0,0 +1,66 @@
+import { parseJsonResponse } from '../analysisSchema';
+import { COVER_LETTER_LIMITS } from '../apiTypes';
+import { buildCoverLetterPrompt } from '../prompt';
+import type { CompleteFn } from '../providers/types';
+import type { CoverLetter, CoverLetterInput, LetterSentence, ResumeLine } from './types';
+
+export { splitLetter, traceLetter } from './trace';
+export type { ClaimStatus, TracedSentence } from './trace';
+export { COVER_LETTER_LENGTHS, COVER_LETTER_TONES } from './types';
+export type * from './types';
+
+interface LineLimits {
+  maxLines: number;
+  maxLineChars: number;
+}
+
+// Breaks a line at the last space that keeps each piece within maxChars, or mid-word when there is none.
+const wrapLine = (line: string, maxChars: number): string[] => {
+  const pieces: string[] = [];
+  let rest = line;
+  while (rest.length > maxChars) {
+    const space = rest.lastIndexOf(' ', maxChars);
+    const end = space > 0 ? space : maxChars;
+    pieces.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+  return [...pieces, rest];
+};
+
+// Paragraphs pasted or extracted without line breaks are wrapped so the server accepts every line.
+export const splitResumeLines = (resumeText: string, { maxLines, maxLineChars }: LineLimits = COVER_LETTER_LIMITS): ResumeLine[] =>
+  resumeText
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .flatMap((line) => wrapLine(line, maxLineChars))
+    .slice(0, maxLines)
+    .map((text, index) => ({ id: `L${index + 1}`, text }));
+
+const readSentence = (raw: unknown): LetterSentence[] => {
+  const item = raw as { text?: unknown; sources?: unknown } | null;
+  if (typeof item?.text !== 'string' || !item.text.trim()) return [];
+  const sources = Array.isArray(item.sources) ? item.sources.filter((id): id is string => typeof id === 'string') : [];
+  return [{ text: item.text.trim(), sources }];
+};
+
+export const parseCoverLetterResponse = (content: string): CoverLetter => {
+  const raw = parseJsonResponse(content) as { paragraphs?: unknown } | null;
+  if (!Array.isArray(raw?.paragraphs)) {
+    throw new Error('The model response did not contain a "paragraphs" list');
+  }
+
+  const paragraphs = raw.paragraphs
+    .map((paragraph: unknown) => (Array.isArray(paragraph) ? paragraph.flatMap(readSentence) : []))
+    .filter((paragraph: LetterSentence[]) => paragraph.length > 0);
+  if (!paragraphs.length) {
+    throw new Error('The model returned an empty cover letter');
+  }
+  return { paragraphs };
+};
+
+export const runCoverLetter = async (complete: CompleteFn, input: CoverLetterInput): Promise<CoverLetter> =>
+  parseCoverLetterResponse(await complete([{ role: 'user', content: buildCoverLetterPrompt(input) }]));
+
+export const letterToText = (letter: CoverLetter) =>
+  letter.paragraphs.map((paragraph) => paragraph.map((sentence) => sentence.text).join(' ')).join('\n\n');
@@ -0,0 +1,73 @@
+import { textSimilarity } from '../jobParser/coverage';
+import type { LetterSentence, ResumeLine } from './types';
+
+// 'cited' sentences rest on resume lines, 'general' ones make no claim about the candidate's record.
+export type ClaimStatus = 'cited' | 'unsupported' | 'general';
+
+export interface TracedSentence {
+  text: string;
+  sources: ResumeLine[];
+  status: ClaimStatus;
+  // Figures in the sentence that none of its sources contain.
+  unmatchedFigures: string[];
+}
+
+// Overlap at which an uncited sentence is taken to paraphrase a resume line.
+const PARAPHRASE_SIMILARITY = 0.35;
+// A cited line must share at least this much wording with the sentence.
+const CITATION_SIMILARITY = 0.1;
+
+const FIGURE_PATTERN = /[$€£]?\d[\d,.]*(?:%|\+|k|m|x)?/gi;
+
+const figuresOf = (text: string) => (text.match(FIGURE_PATTERN) ?? []).map((figure) => figure.replace(/[.,]$/, ''));
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Splits edited text into paragraphs of sentences.
+export const splitLetter = (text: string) =>
+  text
+    .split(/\n\s*\n/)
+    .map((paragraph) =>
+      paragraph
+        .replace(/\s+/g, ' ')
+        .trim()
+        .split(/(?<=[.!?])\s+(?=[A-Z0-9"“[])/)
+        .filter(Boolean),
+    )
+    .filter((paragraph) => paragraph.length > 0);
+
+const traceSentence = (text: string, citedIds: string[], lines: ResumeLine[]): TracedSentence => {
+  const byId = new Map(lines.map((line) => [line.id, line]));
+  let sources = citedIds.flatMap((id) => byId.get(id) ?? []).filter((line) => textSimilarity(text, line.text) >= CITATION_SIMILARITY);
+
+  if (!sources.length) {
+    const best = lines.reduce<{ line: ResumeLine | null; similarity: number }>(
+      (top, line) => {
+        const similarity = textSimilarity(text, line.text);
+        return similarity > top.similarity ? { line, similarity } : top;
+      },
+      { line: null, similarity: 0 },
+    );
+    if (best.line && best.similarity >= PARAPHRASE_SIMILARITY) sources = [best.line];
+  }
+
+  const sourceText = sources.map((line) => line.text.toLowerCase()).join(' ');
+  const unmatchedFigures = figuresOf(text).filter((figure) => !sourceText.includes(figure.toLowerCase()));
+  // A citation the resume cannot back, or a number it never states, would put words in the candidate's mouth.
+  const unsupported = unmatchedFigures.length > 0 || (citedIds.length > 0 && !sources.length);
+
+  return {
+    text,
+    sources,
+    status: unsupported ? 'unsupported' : sources.length ? 'cited' : 'general',
+    unmatchedFigures,
+  };
+};
+
+// Traces the letter as currently written. Sentences kept from the draft keep the model's citations; edited ones are matched again.
+export const traceLetter = (text: string, draft: LetterSentence[], lines: ResumeLine[]): TracedSentence[][] => {
+  const citations = new Map(draft.map((sentence) => [normalize(sentence.text), sentence.sources]));
+  return splitLetter(text).map((paragraph) =>
+    paragraph.map((sentence) => traceSentence(sentence, citations.get(normalize(sentence)) ?? [], lines)),
+  );
+};
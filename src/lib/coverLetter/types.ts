@@ -0,0 +1,34 @@
+export const COVER_LETTER_TONES = ['Professional', 'Warm', 'Confident'] as const;
+export type CoverLetterTone = typeof COVER_LETTER_TONES[number];
+
+export const COVER_LETTER_LENGTHS = {
+  short: { label: 'Short', words: 180 },
+  standard: { label: 'Standard', words: 280 },
+  detailed: { label: 'Detailed', words: 400 },
+};
+export type CoverLetterLength = keyof typeof COVER_LETTER_LENGTHS;
+
+// One non-empty line of the resume, numbered so the letter can cite it.
+export interface ResumeLine {
+  id: string;
+  text: string;
+}
+
+export interface CoverLetterInput {
+  lines: ResumeLine[];
+  matchedSkills: string[];
+  metRequirements: string[];
+  jobDescription: string;
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+}
+
+export interface LetterSentence {
+  text: string;
+  // Ids of the resume lines the sentence draws on.
+  sources: string[];
+}
+
+export interface CoverLetter {
+  paragraphs: LetterSentence[][];
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('joins cells with commas and rows with CRLF', () => {
+    expect(toCsv([['name', 'score'], ['resume.pdf', 74]])).toBe('name,score\r\nresume.pdf,74');
+  });
+
+  it('quotes cells with commas, quotes or line breaks', () => {
+    expect(toCsv([['a, b', 'say "hi"', 'one\ntwo']])).toBe('"a, b","say ""hi""","one\ntwo"');
+  });
+
+  it('writes empty cells for null and undefined', () => {
+    expect(toCsv([[null, undefined, 0]])).toBe(',,0');
+  });
+
+  it('stops text from being run as a spreadsheet formula', () => {
+    expect(toCsv([['=HYPERLINK("http://x")', '+1', '-cmd', '@SUM(A1)']])).toBe(`"'=HYPERLINK(""http://x"")",'+1,'-cmd,'@SUM(A1)`);
+  });
+
+  it('leaves negative numbers alone', () => {
+    expect(toCsv([[-5]])).toBe('-5');
+  });
+});
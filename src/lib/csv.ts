@@ -0,0 +1,12 @@
+export type CsvCell = string | number | null | undefined;
+
+// Spreadsheets run text starting with these as a formula, so file names and model output are prefixed with '.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (cell: CsvCell) => {
+  const text = cell === null || cell === undefined ? '' : String(cell);
+  const value = typeof cell === 'string' && FORMULA_PREFIX.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toCsv = (rows: CsvCell[][]) => rows.map((row) => row.map(escapeCell).join(',')).join('\r\n');
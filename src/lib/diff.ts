@@ -0,0 +1,54 @@
+export type DiffType = 'same' | 'added' | 'removed';
+
+export interface DiffPart {
+  type: DiffType;
+  value: string;
+}
+
+// Longest-common-subsequence diff. Inputs are resume-sized, so the quadratic
+// table is small enough to build in the browser.
+export const diffTokens = (before: string[], after: string[]): DiffPart[] => {
+  const rows = before.length;
+  const cols = after.length;
+  const table = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      table[i][j] = before[i] === after[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffType, value: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.value += value;
+    } else {
+      parts.push({ type, value });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      push('same', before[i++]);
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      push('removed', before[i++]);
+    } else {
+      push('added', after[j++]);
+    }
+  }
+  while (i < rows) push('removed', before[i++]);
+  while (j < cols) push('added', after[j++]);
+
+  return parts;
+};
+
+const splitLines = (text: string) => text.split(/(?<=\n)/);
+const splitWords = (text: string) => text.split(/(\s+)/).filter(Boolean);
+
+export const diffLines = (before: string, after: string) => diffTokens(splitLines(before), splitLines(after));
+
+export const diffWords = (before: string, after: string) => diffTokens(splitWords(before), splitWords(after));
@@ -0,0 +1,118 @@
+import { STOPWORDS } from '../scoring/keywords';
+import { findSynonyms } from './synonyms';
+
+export type EvidenceKind = 'exact' | 'synonym' | 'fuzzy';
+
+export interface EvidenceSpan {
+  start: number;
+  end: number;
+  kind: EvidenceKind;
+}
+
+export interface Evidence {
+  term: string;
+  resume: EvidenceSpan[];
+  job: EvidenceSpan[];
+  // Whether the resume text backs up the term at all.
+  supported: boolean;
+}
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Long requirement sentences count as supported when this share of their key words appear.
+const REQUIREMENT_SUPPORT_RATIO = 0.5;
+
+const TOKEN_PATTERN = /[a-z0-9][a-z0-9+#.]*[a-z0-9+#]|[a-z0-9]/gi;
+
+const tokenize = (text: string): Token[] =>
+  [...text.matchAll(TOKEN_PATTERN)].map((match) => ({
+    word: match[0].toLowerCase(),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+const stem = (word: string) => word.replace(/(?:ing|ed|es|s|ment|ation)$/, '').replace(/e$/, '');
+
+const editDistance = (a: string, b: string) => {
+  const row = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+};
+
+const isSimilar = (a: string, b: string) => {
+  if (a === b || (a.length >= 4 && stem(a) === stem(b))) return true;
+  const allowed = a.length >= 8 ? 2 : a.length >= 5 ? 1 : 0;
+  return allowed > 0 && Math.abs(a.length - b.length) <= allowed && editDistance(a, b) <= allowed;
+};
+
+export const findPhrase = (text: string, phrase: string, kind: EvidenceKind): EvidenceSpan[] => {
+  const pattern = new RegExp(
+    `(?<![a-z0-9+#])${escapeRegExp(phrase.trim()).replace(/\s+/g, '\\s+')}(?![a-z0-9+#])`,
+    'gi',
+  );
+  return [...text.matchAll(pattern)].map((match) => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    kind,
+  }));
+};
+
+const keyWords = (term: string) => {
+  const words = tokenize(term).map((token) => token.word);
+  const meaningful = words.filter((word) => word.length >= 3 && !STOPWORDS.has(word) && !/^\d+$/.test(word));
+  // Short skill names such as "Go" or "C#" are all key words.
+  return meaningful.length ? meaningful : words;
+};
+
+const overlaps = (span: EvidenceSpan, spans: EvidenceSpan[]) =>
+  spans.some((other) => span.start < other.end && other.start < span.end);
+
+const locate = (term: string, text: string) => {
+  const spans = findPhrase(text, term, 'exact');
+  for (const alias of findSynonyms(term)) {
+    spans.push(...findPhrase(text, alias, 'synonym').filter((span) => !overlaps(span, spans)));
+  }
+
+  const words = keyWords(term);
+  const tokens = tokenize(text);
+  const found = new Set<string>();
+  for (const word of words) {
+    const variants = [word, ...findSynonyms(word)];
+    for (const token of tokens) {
+      if (!variants.some((variant) => isSimilar(variant, token.word))) continue;
+      found.add(word);
+      const span: EvidenceSpan = { start: token.start, end: token.end, kind: 'fuzzy' };
+      if (!overlaps(span, spans)) spans.push(span);
+    }
+  }
+
+  const exactOrSynonym = spans.some((span) => span.kind !== 'fuzzy');
+  const coverage = words.length ? found.size / words.length : 0;
+  const supported = exactOrSynonym || (words.length <= 2 ? coverage > 0 : coverage >= REQUIREMENT_SUPPORT_RATIO);
+
+  return { spans: spans.sort((a, b) => a.start - b.start), supported };
+};
+
+export const linkEvidence = (term: string, resumeText: string, jobDescription: string): Evidence => {
+  const resume = locate(term, resumeText);
+  const job = locate(term, jobDescription);
+  return { term, resume: resume.spans, job: job.spans, supported: resume.supported };
+};
+
+// Claimed matches that have no supporting text in the resume.
+export const findUnsupportedClaims = (claims: string[], resumeText: string) =>
+  new Set(claims.filter((claim) => !locate(claim, resumeText).supported));
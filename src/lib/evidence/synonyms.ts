@@ -0,0 +1,15 @@
+import { skillAliases } from '../taxonomy';
+
+// Word forms that count as evidence for a soft skill without being another name for it.
+export const EVIDENCE_GROUPS: string[][] = [
+  ['leadership', 'led', 'lead', 'leading'],
+  ['communication', 'communicated', 'communicating', 'presented'],
+  ['collaboration', 'teamwork', 'collaborated', 'cross-functional'],
+  ['mentoring', 'mentored', 'coached'],
+];
+
+export const findSynonyms = (term: string) => {
+  const key = term.toLowerCase();
+  const forms = EVIDENCE_GROUPS.find((group) => group.includes(key))?.filter((form) => form !== key) ?? [];
+  return [...new Set([...skillAliases(term), ...forms])];
+};
@@ -0,0 +1,6 @@
+import mammoth from 'mammoth';
+
+export const extractDocxText = async (file: File) => {
+  const { value } = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return value;
+};
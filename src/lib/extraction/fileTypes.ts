@@ -0,0 +1,43 @@
+export type ResumeFileType = 'pdf' | 'docx' | 'text' | 'markdown';
+
+interface FileTypeInfo {
+  type: ResumeFileType;
+  label: string;
+  mimeTypes: string[];
+  extensions: string[];
+}
+
+export const RESUME_FILE_TYPES: FileTypeInfo[] = [
+  { type: 'pdf', label: 'PDF', mimeTypes: ['application/pdf'], extensions: ['.pdf'] },
+  {
+    type: 'docx',
+    label: 'DOCX',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['.docx'],
+  },
+  { type: 'text', label: 'TXT', mimeTypes: ['text/plain'], extensions: ['.txt'] },
+  { type: 'markdown', label: 'Markdown', mimeTypes: ['text/markdown', 'text/x-markdown'], extensions: ['.md', '.markdown'] },
+];
+
+// Value for the file input's `accept` attribute.
+export const RESUME_ACCEPT = RESUME_FILE_TYPES.flatMap((info) => [...info.mimeTypes, ...info.extensions]).join(',');
+
+export const RESUME_TYPE_LABELS = RESUME_FILE_TYPES.map((info) => info.label).join(', ');
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot).toLowerCase();
+};
+
+// Browsers often report an empty or generic MIME type for Markdown and Word files,
+// so the extension wins when it is known.
+export const detectResumeType = (file: Pick<File, 'name' | 'type'>): ResumeFileType | null => {
+  const extension = extensionOf(file.name);
+  const byExtension = RESUME_FILE_TYPES.find((info) => info.extensions.includes(extension));
+  if (byExtension) return byExtension.type;
+
+  return RESUME_FILE_TYPES.find((info) => info.mimeTypes.includes(file.type))?.type ?? null;
+};
+
+export const isLegacyWordFile = (file: Pick<File, 'name' | 'type'>) =>
+  extensionOf(file.name) === '.doc' || file.type === 'application/msword';
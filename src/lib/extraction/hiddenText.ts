@@ -0,0 +1,63 @@
+import { OPS } from 'pdfjs-dist';
+import type { PDFPageProxy } from 'pdfjs-dist';
+
+export type HiddenTextReason = 'white' | 'tiny';
+
+export interface HiddenText {
+  reason: HiddenTextReason;
+  page: number;
+  text: string;
+}
+
+// Text smaller than this (in points) cannot be read on the printed page.
+const TINY_FONT_SIZE = 3;
+// Fill colours with every channel at or above this are treated as white on a white page.
+const WHITE_CHANNEL = 245;
+const MIN_HIDDEN_CHARS = 3;
+
+type PositionedItem = { str: string; transform: number[] } | { type: string };
+type Glyph = { unicode?: string } | number | null;
+
+const keep = (text: string) => text.replace(/\s+/g, ' ').trim().length >= MIN_HIDDEN_CHARS;
+
+export const findTinyText = (items: readonly PositionedItem[], page: number): HiddenText[] => {
+  const text = items
+    .filter((item): item is { str: string; transform: number[] } => 'str' in item && !!item.str.trim())
+    .filter((item) => Math.hypot(item.transform[2], item.transform[3]) < TINY_FONT_SIZE)
+    .map((item) => item.str)
+    .join(' ');
+  return keep(text) ? [{ reason: 'tiny', page, text: text.replace(/\s+/g, ' ').trim() }] : [];
+};
+
+const isWhite = (args: unknown[]) => {
+  // pdf.js hands colours over either as RGB channels or as a hex string.
+  const channels =
+    typeof args[0] === 'string' ? (args[0].match(/[0-9a-f]{2}/gi) ?? []).map((hex) => parseInt(hex, 16)) : (args as number[]);
+  return channels.length === 3 && channels.every((channel) => channel >= WHITE_CHANNEL);
+};
+
+const glyphText = (glyphs: Glyph[]) =>
+  glyphs.map((glyph) => (typeof glyph === 'number' ? (glyph < -100 ? ' ' : '') : (glyph?.unicode ?? ''))).join('');
+
+// Replays the page's drawing operations to collect text painted in white.
+export const findWhiteText = async (page: PDFPageProxy, pageNumber: number): Promise<HiddenText[]> => {
+  const { fnArray, argsArray } = await page.getOperatorList();
+  const stack: boolean[] = [];
+  let white = false;
+  let text = '';
+
+  fnArray.forEach((fn, index) => {
+    const args = argsArray[index];
+    if (fn === OPS.save) {
+      stack.push(white);
+    } else if (fn === OPS.restore) {
+      white = stack.pop() ?? false;
+    } else if (fn === OPS.setFillRGBColor) {
+      white = isWhite(args);
+    } else if (white && (fn === OPS.showText || fn === OPS.showSpacedText)) {
+      text += `${glyphText(args[0])} `;
+    }
+  });
+
+  return keep(text) ? [{ reason: 'white', page: pageNumber, text: text.replace(/\s+/g, ' ').trim() }] : [];
+};
@@ -0,0 +1,125 @@
+import { ANALYZE_LIMITS } from '../apiTypes';
+import { extractDocxText } from './docx';
+import type { HiddenText } from './hiddenText';
+import { RESUME_TYPE_LABELS, detectResumeType, isLegacyWordFile } from './fileTypes';
+import type { ResumeFileType } from './fileTypes';
+import type { OcrProgress } from './ocr';
+import { extractPdfText } from './pdf';
+import { extractMarkdownText, extractPlainText } from './text';
+import type { OcrSummary } from './types';
+
+export { RESUME_ACCEPT, RESUME_TYPE_LABELS, detectResumeType } from './fileTypes';
+export type { ResumeFileType } from './fileTypes';
+export type { HiddenText } from './hiddenText';
+export type { OcrProgress } from './ocr';
+export type { OcrSummary } from './types';
+
+export const MAX_RESUME_BYTES = ANALYZE_LIMITS.maxFileBytes;
+
+// PDFs with less selectable text than this are treated as scanned images.
+export const MIN_EXTRACTED_CHARS = 100;
+
+export type ExtractionErrorCode =
+  | 'unsupported-type'
+  | 'legacy-word'
+  | 'too-large'
+  | 'empty-file'
+  | 'read-failed'
+  | 'ocr-failed'
+  | 'no-text';
+
+export class ExtractionError extends Error {
+  code: ExtractionErrorCode;
+
+  constructor(code: ExtractionErrorCode, message: string) {
+    super(message);
+    this.name = 'ExtractionError';
+    this.code = code;
+  }
+}
+
+type ExtractedText = { text: string; hiddenText: HiddenText[] };
+
+const withoutHiddenText =
+  (extract: (file: File) => Promise<string>) =>
+  async (file: File): Promise<ExtractedText> => ({ text: await extract(file), hiddenText: [] });
+
+const EXTRACTORS: Record<ResumeFileType, (file: File) => Promise<ExtractedText>> = {
+  pdf: extractPdfText,
+  docx: withoutHiddenText(extractDocxText),
+  text: withoutHiddenText(extractPlainText),
+  markdown: withoutHiddenText(extractMarkdownText),
+};
+
+// Throws an ExtractionError describing why the file cannot be used as a resume.
+export const validateResumeFile = (file: File): ResumeFileType => {
+  if (isLegacyWordFile(file)) {
+    throw new ExtractionError('legacy-word', 'Legacy .doc files are not supported. Save the resume as .docx or PDF and try again.');
+  }
+
+  const type = detectResumeType(file);
+  if (!type) {
+    throw new ExtractionError('unsupported-type', `Unsupported file type. Upload a ${RESUME_TYPE_LABELS} file.`);
+  }
+  if (file.size === 0) {
+    throw new ExtractionError('empty-file', `${file.name} is empty.`);
+  }
+  if (file.size > MAX_RESUME_BYTES) {
+    const limit = Math.round(MAX_RESUME_BYTES / (1024 * 1024));
+    throw new ExtractionError('too-large', `${file.name} is larger than ${limit}MB.`);
+  }
+  return type;
+};
+
+export interface ExtractedResume {
+  text: string;
+  // Set when the text had to be recovered from page images.
+  ocr: OcrSummary | null;
+  // PDF text a reader cannot see, such as white or microscopic text.
+  hiddenText: HiddenText[];
+}
+
+export interface ExtractOptions {
+  onOcrProgress?: (progress: OcrProgress) => void;
+  // Set to false for a quick read that leaves scanned pages unrecognised.
+  ocr?: boolean;
+}
+
+const countTextChars = (text: string) => text.replace(/\s/g, '').length;
+
+const recognizePdf = async (file: File, options: ExtractOptions) => {
+  try {
+    const { ocrPdf } = await import('./ocr');
+    return await ocrPdf(file, options.onOcrProgress);
+  } catch (error) {
+    console.error('Failed to run OCR on PDF:', error);
+    throw new ExtractionError('ocr-failed', `${file.name} has no selectable text and text recognition failed.`);
+  }
+};
+
+export const extractResume = async (file: File, options: ExtractOptions = {}): Promise<ExtractedResume> => {
+  const type = validateResumeFile(file);
+
+  let text: string;
+  let hiddenText: HiddenText[];
+  try {
+    ({ text, hiddenText } = await EXTRACTORS[type](file));
+  } catch (error) {
+    console.error(`Failed to extract text from ${type} file:`, error);
+    throw new ExtractionError('read-failed', `Could not read ${file.name}. The file may be corrupted or password protected.`);
+  }
+
+  let ocr: OcrSummary | null = null;
+  if (type === 'pdf' && options.ocr !== false && countTextChars(text) < MIN_EXTRACTED_CHARS) {
+    const result = await recognizePdf(file, options);
+    if (countTextChars(result.text) > countTextChars(text)) {
+      text = result.text;
+      ocr = { pages: result.pages, confidence: result.confidence };
+    }
+  }
+
+  if (!text.trim()) {
+    throw new ExtractionError('no-text', 'Failed to Scan Resume');
+  }
+  return { text, ocr, hiddenText };
+};
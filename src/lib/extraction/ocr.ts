@@ -0,0 +1,89 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+import { OEM, createWorker } from 'tesseract.js';
+import tesseractWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import tesseractCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import englishDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import { loadPdf } from './pdfjs';
+
+// Everything OCR needs is bundled with the app, so scanned resumes never leave the browser.
+
+export interface OcrProgress {
+  page: number;
+  totalPages: number;
+  // Progress through the current page, from 0 to 1.
+  progress: number;
+}
+
+export interface OcrResult {
+  text: string;
+  pages: number;
+  confidence: number;
+}
+
+// Tesseract is most accurate at roughly 300 DPI; PDF pages are 72 DPI at scale 1.
+const RENDER_SCALE = 3;
+
+const renderPage = async (page: PDFPageProxy) => {
+  const viewport = page.getViewport({ scale: RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  await page.render({ canvasContext: context, viewport }).promise;
+  return canvas;
+};
+
+const loadLanguageData = async () => {
+  const response = await fetch(englishDataUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to load OCR language data: ${response.status}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+export const ocrPdf = async (file: File, onProgress?: (progress: OcrProgress) => void): Promise<OcrResult> => {
+  const pdf = await loadPdf(file);
+  let currentPage = 1;
+
+  const report = (progress: number) => onProgress?.({ page: currentPage, totalPages: pdf.numPages, progress });
+
+  const worker = await createWorker([{ code: 'eng', data: await loadLanguageData() }], OEM.LSTM_ONLY, {
+    workerPath: tesseractWorkerUrl,
+    corePath: tesseractCoreUrl,
+    workerBlobURL: false,
+    cacheMethod: 'none',
+    logger: (message) => {
+      if (message.status === 'recognizing text') report(message.progress);
+    },
+  });
+
+  try {
+    const pages: string[] = [];
+    let confidence = 0;
+
+    for (; currentPage <= pdf.numPages; currentPage++) {
+      report(0);
+      const page = await pdf.getPage(currentPage);
+      const canvas = await renderPage(page);
+      const { data } = await worker.recognize(canvas);
+
+      pages.push(data.text);
+      confidence += data.confidence;
+      page.cleanup();
+      report(1);
+    }
+
+    return {
+      text: pages.join('\n'),
+      pages: pdf.numPages,
+      confidence: pdf.numPages ? Math.round(confidence / pdf.numPages) : 0,
+    };
+  } finally {
+    await worker.terminate();
+    await pdf.destroy();
+  }
+};
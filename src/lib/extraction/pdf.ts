@@ -0,0 +1,23 @@
+import { findTinyText, findWhiteText } from './hiddenText';
+import type { HiddenText } from './hiddenText';
+import { loadPdf } from './pdfjs';
+import { joinTextItems } from './pdfText';
+
+export const extractPdfText = async (file: File) => {
+  const pdf = await loadPdf(file);
+
+  try {
+    const pages: string[] = [];
+    const hiddenText: HiddenText[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(joinTextItems(content.items));
+      hiddenText.push(...findTinyText(content.items, pageNumber), ...(await findWhiteText(page, pageNumber)));
+      page.cleanup();
+    }
+    return { text: pages.join('\n\n'), hiddenText };
+  } finally {
+    await pdf.destroy();
+  }
+};
@@ -0,0 +1,13 @@
+type TextContentItem = { str: string; hasEOL: boolean } | { type: string };
+
+// Joins pdf.js text items while keeping line breaks, which the resume parser
+// relies on to find section headings and entries.
+export const joinTextItems = (items: readonly TextContentItem[]) =>
+  items
+    .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+    .join('')
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
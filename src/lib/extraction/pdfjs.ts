@@ -0,0 +1,7 @@
+import { GlobalWorkerOptions, getDocument } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// The worker is bundled with the app instead of loaded from a CDN.
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export const loadPdf = async (file: File) => getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { markdownToText } from './text';
+
+describe('markdownToText', () => {
+  it('drops headings, quotes and links but keeps their text', () => {
+    expect(markdownToText('# Jane Doe\n> Engineer\n[Site](https://jane.dev)')).toBe('Jane Doe\nEngineer\nSite (https://jane.dev)');
+  });
+
+  it('strips bold and italic markers', () => {
+    expect(markdownToText('**Senior** engineer, __important__ and __skills__, *React* and _Go_')).toBe(
+      'Senior engineer, important and skills, React and Go',
+    );
+  });
+
+  it('leaves markers inside identifiers and arithmetic alone', () => {
+    expect(markdownToText('my_service_name, jane_doe@example.com, 5*3*2')).toBe('my_service_name, jane_doe@example.com, 5*3*2');
+  });
+
+  it('leaves dunder names in code alone', () => {
+    expect(markdownToText('Overrode self.__init__() and `__slots__` in **Python**')).toBe(
+      'Overrode self.__init__() and __slots__ in Python',
+    );
+  });
+
+  it('keeps code blocks verbatim', () => {
+    expect(markdownToText('```py\ndef __repr__(self): return *args\n```')).toBe('def __repr__(self): return *args\n');
+  });
+});
@@ -0,0 +1,27 @@
+export const extractPlainText = (file: File) => file.text();
+
+// Code is set aside before the markup passes so identifiers like `__init__` survive.
+const CODE = /```[^\n]*\n([\s\S]*?)```|`([^`\n]+)`/g;
+const CODE_PLACEHOLDER = /\uE000(\d+)\uE000/g;
+
+// Keeps the readable content of a Markdown resume and drops the markup.
+export const markdownToText = (markdown: string) => {
+  const code: string[] = [];
+  return markdown
+    .replace(CODE, (_, block: string | undefined, inline: string | undefined) => {
+      code.push(block ?? inline ?? '');
+      return `\uE000${code.length - 1}\uE000`;
+    })
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)]*)\)/g, '$1 ($2)')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^>\s?/gm, '')
+    .replace(/^\s*[-*+]\s+/gm, '- ')
+    .replace(/^\s*([-*_]\s*){3,}$/gm, '')
+    // Markers touching identifier characters, as in snake_case, 5*3 or self.__init__(), are code rather than emphasis.
+    .replace(/(?<![\w.])(\*\*|__)(?=\S)(.+?)(?<=\S)\1(?![\w(])/g, '$2')
+    .replace(/(?<![\w.])(\*|_)(?=[^\s*_])(.+?)(?<=[^\s*_])\1(?![\w(])/g, '$2')
+    .replace(CODE_PLACEHOLDER, (_, index: string) => code[Number(index)]);
+};
+
+export const extractMarkdownText = async (file: File) => markdownToText(await file.text());
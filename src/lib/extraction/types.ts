@@ -0,0 +1,4 @@
+export interface OcrSummary {
+  pages: number;
+  confidence: number;
+}
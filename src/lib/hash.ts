@@ -0,0 +1,14 @@
+export const sha256 = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Whitespace and case differences should not make two job descriptions distinct.
+export const normalizeForHash = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Only line endings and trailing spaces are ignored: case and line breaks change what the model sees.
+export const normalizeForCache = (value: string) =>
+  value
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+$/gm, '')
+    .trim();
@@ -0,0 +1,100 @@
+import type { ChunkingSummary } from './analyze';
+import type { SchemaIssue } from './analysisSchema';
+import type { ConsensusSummary } from './consensus';
+import type { HiddenText, OcrSummary } from './extraction';
+import { normalizeForHash, sha256 } from './hash';
+import { t } from './i18n';
+import type { AnalysisLanguages } from './i18n';
+import type { ProviderId } from './providers';
+import type { ScoreBreakdown } from './rubric/types';
+import { STORES, deleteRecord, getAllRecords, putRecord } from './storage/db';
+import type { AnalysisResult } from '../types';
+
+export interface AnalysisRecord {
+  id: string;
+  createdAt: number;
+  fileName: string;
+  resumeText: string;
+  jobDescription: string;
+  provider: ProviderId;
+  model: string;
+  result: AnalysisResult;
+  issues: SchemaIssue[];
+  ocr: OcrSummary | null;
+  // Missing from records saved before hidden text was detected.
+  hiddenText?: HiddenText[];
+  chunking?: ChunkingSummary;
+  consensus?: ConsensusSummary;
+  breakdown?: ScoreBreakdown;
+  languages?: AnalysisLanguages;
+  // Runs sharing a series key are iterations of one resume against one job.
+  seriesKey: string;
+}
+
+export type NewAnalysisRecord = Omit<AnalysisRecord, 'id' | 'createdAt' | 'seriesKey'>;
+
+// "resume_v2 (final).pdf" and "Resume-v3.docx" are versions of the same resume.
+export const resumeBaseName = (fileName: string) =>
+  fileName
+    .toLowerCase()
+    .replace(/\.[a-z0-9]+$/, '')
+    .replace(/[()[\]]/g, ' ')
+    .replace(/(?:^|[\s_-]+)(?:v\d+|\d+|final|draft|updated|edited|new|copy)\b/g, '')
+    .replace(/[\s_-]+/g, ' ')
+    .trim();
+
+// "resume.pdf" becomes "resume (edited).pdf", which stays in the same series.
+export const editedFileName = (fileName: string) =>
+  /\(edited\)/.test(fileName) ? fileName : fileName.replace(/(\.[^.]+)?$/, ' (edited)$1');
+
+const buildSeriesKey = async (fileName: string, jobDescription: string) =>
+  `${resumeBaseName(fileName)}:${(await sha256(normalizeForHash(jobDescription))).slice(0, 16)}`;
+
+export const saveAnalysis = async (record: NewAnalysisRecord): Promise<AnalysisRecord> => {
+  const saved: AnalysisRecord = {
+    ...record,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    seriesKey: await buildSeriesKey(record.fileName, record.jobDescription),
+  };
+  await putRecord(STORES.analyses, saved);
+  return saved;
+};
+
+export const listAnalyses = async () => {
+  const records = await getAllRecords<AnalysisRecord>(STORES.analyses);
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteAnalysis = (id: string) => deleteRecord(STORES.analyses, id);
+
+export const getSeries = (records: AnalysisRecord[], seriesKey: string) =>
+  records.filter((record) => record.seriesKey === seriesKey).sort((a, b) => a.createdAt - b.createdAt);
+
+export interface ListChange {
+  gained: string[];
+  lost: string[];
+}
+
+const compareLists = (before: string[], after: string[]): ListChange => {
+  const beforeKeys = new Set(before.map((item) => item.toLowerCase()));
+  const afterKeys = new Set(after.map((item) => item.toLowerCase()));
+  return {
+    gained: after.filter((item) => !beforeKeys.has(item.toLowerCase())),
+    lost: before.filter((item) => !afterKeys.has(item.toLowerCase())),
+  };
+};
+
+export const compareRuns = (before: AnalysisRecord, after: AnalysisRecord) => ({
+  scores: [
+    { label: t('trend.resumeScore'), before: before.result.resume_score, after: after.result.resume_score },
+    { label: t('trend.readability'), before: before.result.readability_score, after: after.result.readability_score },
+    {
+      label: t('trend.skillsMatch'),
+      before: before.result.skills_match.match_percentage,
+      after: after.result.skills_match.match_percentage,
+    },
+  ],
+  keywords: compareLists(before.result.keywords_analysis.present_keywords, after.result.keywords_analysis.present_keywords),
+  skills: compareLists(before.result.skills_match.matched, after.result.skills_match.matched),
+});
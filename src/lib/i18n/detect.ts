@@ -0,0 +1,37 @@
+import type { AnalysisLanguages, LanguageCode, OutputLanguage } from './languages';
+
+// Frequent function words; resumes are terse, but even bullet points keep a few of them.
+const STOPWORDS: Record<Exclude<LanguageCode, 'hi'>, Set<string>> = {
+  en: new Set(['the', 'and', 'of', 'to', 'in', 'for', 'with', 'on', 'is', 'are', 'as', 'at', 'by', 'our', 'you', 'we', 'will', 'an', 'this', 'from']),
+  de: new Set(['und', 'der', 'die', 'das', 'mit', 'für', 'von', 'zu', 'im', 'ist', 'wir', 'sie', 'ein', 'eine', 'den', 'dem', 'des', 'auf', 'bei', 'oder']),
+  fr: new Set(['le', 'la', 'les', 'et', 'des', 'du', 'pour', 'avec', 'un', 'une', 'dans', 'est', 'nous', 'vous', 'sur', 'au', 'aux', 'par', 'qui', 'chez']),
+  es: new Set(['el', 'los', 'las', 'y', 'del', 'para', 'con', 'un', 'una', 'por', 'que', 'es', 'nuestro', 'se', 'al', 'como', 'su', 'sus', 'o', 'más']),
+};
+
+// Hindi resumes mix in English tool names, so a minority of Devanagari letters is enough.
+const DEVANAGARI_SHARE = 0.3;
+// Fewer matches than this is too little to tell languages apart.
+const MIN_STOPWORD_HITS = 3;
+
+export const detectLanguage = (text: string, fallback: LanguageCode = 'en'): LanguageCode => {
+  const letters = text.match(/[\p{L}\p{M}]/gu)?.length ?? 0;
+  if (!letters) return fallback;
+  const devanagari = text.match(/[ऀ-ॿ]/g)?.length ?? 0;
+  if (devanagari / letters >= DEVANAGARI_SHARE) return 'hi';
+
+  const hits = { en: 0, de: 0, fr: 0, es: 0 };
+  for (const word of text.toLowerCase().match(/\p{L}+/gu) ?? []) {
+    for (const language of Object.keys(hits) as (keyof typeof hits)[]) {
+      if (STOPWORDS[language].has(word)) hits[language]++;
+    }
+  }
+  const [best, count] = Object.entries(hits).sort(([, a], [, b]) => b - a)[0] as [LanguageCode, number];
+  return count >= MIN_STOPWORD_HITS ? best : fallback;
+};
+
+export const resolveLanguages = (resumeText: string, jobDescription: string, output: OutputLanguage = 'auto'): AnalysisLanguages => {
+  const jobLanguage = detectLanguage(jobDescription);
+  // A resume too short to tell is most likely written for the job it targets.
+  const resume = detectLanguage(resumeText, jobLanguage);
+  return { resume, jobDescription: jobLanguage, output: output === 'auto' ? resume : output };
+};
@@ -0,0 +1,36 @@
+import { en } from './messages/en';
+import type { LanguageCode } from './languages';
+
+export { detectLanguage, resolveLanguages } from './detect';
+export { LANGUAGES, LANGUAGE_CODES, OUTPUT_LANGUAGES, describeLanguages, isLanguageCode } from './languages';
+export type { AnalysisLanguages, LanguageCode, OutputLanguage } from './languages';
+
+// Messages with a count pick the form that the language's plural rules select.
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+export type MessageKey = keyof typeof en;
+export type Catalog = Record<MessageKey, Message>;
+
+// A translation only needs the messages it changes; the rest fall back to English.
+const CATALOGS: Partial<Record<LanguageCode, Partial<Catalog>>> = { en };
+
+export const UI_LANGUAGES = Object.keys(CATALOGS) as LanguageCode[];
+
+let uiLanguage: LanguageCode = 'en';
+
+// Picks the first of the browser's preferred languages that has a catalog.
+export const pickUiLanguage = (preferred: readonly string[]): LanguageCode =>
+  UI_LANGUAGES.find((language) => preferred.some((tag) => tag.toLowerCase().split('-')[0] === language)) ?? 'en';
+
+export const setUiLanguage = (language: LanguageCode) => {
+  uiLanguage = language;
+};
+
+export const t = (key: MessageKey, params: Record<string, string | number> = {}) => {
+  const message: Message = CATALOGS[uiLanguage]?.[key] ?? en[key];
+  const template =
+    typeof message === 'string'
+      ? message
+      : (message[new Intl.PluralRules(uiLanguage).select(Number(params.count))] ?? message.other);
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder));
+};
@@ -0,0 +1,26 @@
+export const LANGUAGES = {
+  en: { name: 'English', nativeName: 'English' },
+  de: { name: 'German', nativeName: 'Deutsch' },
+  fr: { name: 'French', nativeName: 'Français' },
+  es: { name: 'Spanish', nativeName: 'Español' },
+  hi: { name: 'Hindi', nativeName: 'हिन्दी' },
+};
+export type LanguageCode = keyof typeof LANGUAGES;
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGES) as LanguageCode[];
+
+// 'auto' writes the analysis in the language of the resume.
+export type OutputLanguage = LanguageCode | 'auto';
+
+export const OUTPUT_LANGUAGES: OutputLanguage[] = ['auto', ...LANGUAGE_CODES];
+
+export const isLanguageCode = (value: unknown): value is LanguageCode => LANGUAGE_CODES.includes(value as LanguageCode);
+
+export interface AnalysisLanguages {
+  resume: LanguageCode;
+  jobDescription: LanguageCode;
+  output: LanguageCode;
+}
+
+export const describeLanguages = ({ resume, jobDescription, output }: AnalysisLanguages) =>
+  `resume in ${LANGUAGES[resume].name}, job description in ${LANGUAGES[jobDescription].name}, analysis written in ${LANGUAGES[output].name}`;
@@ -0,0 +1,463 @@
+// Messages are grouped by the screen or component they appear in. {name} placeholders are filled in by t().
+export const en = {
+  // App shell
+  'app.title': 'ATSight AI',
+  'app.tagline': 'Upload your resume and job description to get detailed analysis and personalized recommendations!',
+  'app.importReport': 'Import Report',
+  'app.history': 'History ({count})',
+  'mode.single': 'Single Resume',
+  'mode.roles': 'Compare Roles',
+  'mode.batch': 'Rank Candidates',
+
+  // Languages
+  'language.en': 'English',
+  'language.de': 'German',
+  'language.fr': 'French',
+  'language.es': 'Spanish',
+  'language.hi': 'Hindi',
+
+  // Inputs
+  'input.uploadResume': 'Upload Resume',
+  'input.uploadResumes': 'Upload Resumes',
+  'input.clearFiles': 'Clear files',
+  'input.parallelAnalyses': 'Parallel analyses',
+  'input.parallelHint': 'Lower this if your provider keeps rate limiting requests.',
+  'input.jobDescription': 'Job Description',
+  'input.jobPlaceholder': 'Paste the job description here...',
+  'input.jobLanguage': 'Job description language: {language}',
+  'input.resumeLanguage': 'Resume language: {language}',
+  'input.ocrProgress': 'Reading scanned page {page} of {total} ({percent}%)',
+  'input.ranking': 'Ranking Resumes',
+  'input.rank': { one: 'Rank {count} Resume', other: 'Rank {count} Resumes' },
+  'input.comparingRoles': 'Comparing Roles',
+  'input.compareRoles': { one: 'Compare Against {count} Role', other: 'Compare Against {count} Roles' },
+  'input.analyzing': 'Analyzing Resume',
+  'input.analyze': 'Analyze Resume',
+  'input.missingSingle': 'Please upload a resume and provide a job description',
+  'input.missingRoles': 'Please upload a resume and select at least one saved role',
+  'input.missingBatch': 'Please upload resumes and provide a job description',
+  'input.notAResume': 'This file cannot be used as a resume',
+  'input.fileNotAResume': '{fileName} cannot be used as a resume',
+  'input.scanFailed': 'Failed to Scan Resume',
+  'progress.run': 'Run {index} of {total} · {model}',
+  'progress.part': 'Part {index} of {total}',
+
+  // Toasts
+  'toast.analysisComplete': 'Analysis complete !',
+  'toast.analysisIncomplete': 'Analysis is incomplete',
+  'toast.analysisFailed': 'Analysis failed',
+  'toast.analysisCancelled': 'Analysis cancelled',
+  'toast.analyzeFailed': 'Failed to analyze resume',
+  'toast.showingCached': 'Showing cached analysis',
+  'toast.rankingComplete': 'Ranking complete !',
+  'toast.roleComparisonComplete': 'Role comparison complete !',
+  'toast.reportImported': 'Report imported !',
+  'toast.importFailed': 'Failed to import report',
+  'toast.exportFailed': 'Failed to export report',
+  'toast.deleteFailed': 'Failed to delete analysis',
+
+  // Analysis errors and notices
+  'error.unreadableAnalysis': 'The model did not return a readable analysis, even after asking it to fix its response.',
+  'error.analyzeFailed': 'Failed to analyze resume. Please try again.',
+  'error.title': 'Analysis Failed',
+  'notice.ocrTitle': 'Resume Is Not ATS-Parseable As Submitted',
+  'notice.ocrBody': {
+    one: 'Your PDF contains no selectable text, so this analysis used OCR on {count} page (average confidence {confidence}%). Most applicant tracking systems do not run OCR and would see an empty resume. Export a text-based PDF or DOCX before applying.',
+    other: 'Your PDF contains no selectable text, so this analysis used OCR on {count} pages (average confidence {confidence}%). Most applicant tracking systems do not run OCR and would see an empty resume. Export a text-based PDF or DOCX before applying.',
+  },
+  'notice.cached': 'Cached result from {date} for this resume, job description and model. No new model call was made.',
+  'notice.rerun': 'Re-run analysis',
+  'notice.consensusTitle': 'High-Confidence Analysis',
+  'notice.consensusBody': '{description} Scores show the median, and list items are kept when most runs agree on them.',
+  'notice.chunkingTitle': 'Long Input Analyzed In Parts',
+  'notice.chunkingBody': '{description} Scores are averaged by the size of each part, and an item counts as present if any part found it.',
+  'notice.partialTitle': 'Partial Analysis',
+  'notice.partialBody': "Some fields could not be read from the model's response and are shown empty. Try running the analysis again for a complete report.",
+
+  // Results
+  'summary.title': 'Analysis Summary',
+  'summary.resumeScore': 'Resume Score',
+  'summary.weightedFromRubric': 'Weighted from the rubric below',
+  'summary.atsCompatibility': 'ATS Compatibility',
+  'summary.readability': 'Readability',
+  'summary.gradeLevel': 'Grade level {grade}',
+  'summary.skillsMatch': 'Skills Match',
+  'summary.matchedSkills': 'Matched Skills',
+  'summary.missingSkills': 'Missing Skills',
+  'summary.localKeywordScore': 'Local keyword score',
+  'summary.localSkillMatch': 'Local skill match',
+  'summary.differsBy': 'Differs by {points} pts',
+  'summary.differsHint': "The model's score differs a lot from the deterministic check. Treat it with caution.",
+  'summary.range': 'Range',
+  'summary.rangeHint': 'Median {median}% across {count} runs',
+  'summary.modelRange': 'Model scores',
+  'summary.modelRangeHint': "The models' own scores, median {median}% across {count} runs. The score above is weighted from the rubric.",
+  'summary.runs': { one: '{count} run', other: '{count} runs' },
+  'trend.title': 'Score Trend',
+  'trend.description': '{count} runs of this resume against the same job description.',
+  'technical.title': 'Technical Proficiency',
+  'technical.strongSkills': 'Strong Skills',
+  'technical.moderateSkills': 'Moderate Skills',
+  'technical.improvementAreas': 'Areas for Improvement',
+  'keywords.title': 'Keyword Analysis',
+  'keywords.present': 'Present',
+  'keywords.missing': 'Missing',
+  'requirements.title': 'Job Requirements Coverage',
+  'requirements.weightedCoverage': 'Weighted coverage',
+  'requirements.weighting': 'must-haves count double · {met} of {total} must-haves met',
+  'requirements.met': 'Met Requirements',
+  'requirements.missing': 'Missing Requirements',
+  'requirements.mustHave': 'Must-have',
+  'softSkills.title': 'Soft Skills Analysis',
+  'softSkills.present': 'Present Soft Skills',
+  'softSkills.missing': 'Missing Soft Skills',
+  'insights.title': 'Additional Insights',
+  'insights.resumeDetails': 'Resume Details',
+  'insights.length': 'Length',
+  'insights.tone': 'Tone',
+  'insights.resumeLanguage': 'Resume language',
+  'insights.jobLanguage': 'Job description language',
+  'insights.outputLanguage': 'Analysis written in',
+  'insights.issues': 'Formatting & Grammar Issues',
+  'recommendations.title': 'Recommendations',
+  'evidence.show': 'Show evidence',
+  'evidence.unsupported': 'No supporting text found in the resume',
+
+  // Values of the analysis schema
+  'ats.High': 'High',
+  'ats.Medium': 'Medium',
+  'ats.Low': 'Low',
+  'length.Too Short': 'Too Short',
+  'length.Optimal': 'Optimal',
+  'length.Too Long': 'Too Long',
+  'tone.Professional': 'Professional',
+  'tone.Casual': 'Casual',
+  'tone.Neutral': 'Neutral',
+  'tone.Aggressive': 'Aggressive',
+
+  // Charts
+  'chart.strong': 'Strong',
+  'chart.moderate': 'Moderate',
+  'chart.weak': 'Weak',
+  'chart.requirements': 'Requirements',
+
+  // Model settings
+  'settings.title': 'Model Settings',
+  'settings.runs': { one: '{count} run', other: '{count} runs' },
+  'settings.provider': 'Provider',
+  'settings.model': 'Model',
+  'settings.scenario': 'Scenario',
+  'settings.temperature': 'Temperature: {value}',
+  'settings.timeout': 'Timeout (seconds)',
+  'settings.contextWindow': 'Context window (tokens)',
+  'settings.contextHint': 'Longer resumes are analyzed in parts to stay within this limit.',
+  'settings.consensus': 'High-confidence mode',
+  'settings.consensusOff': 'Off (single run)',
+  'settings.consensusRuns': '{count} runs, median and ranges',
+  'settings.consensusHint': 'Each run is a separate model call.',
+  'settings.consensusModels': 'Also run on models (optional)',
+  'settings.consensusModelsPlaceholder': 'Comma-separated model names',
+  'settings.consensusModelsHint': 'Runs take turns between {model} and these models.',
+  'settings.outputLanguage': 'Analysis language',
+  'settings.outputLanguageAuto': 'Same as resume',
+  'settings.outputLanguageHint': 'Resume and job description languages are detected automatically.',
+  'settings.baseUrl': 'Base URL',
+  'settings.apiKey': 'API Key (optional)',
+
+  // Score breakdown
+  'rubric.keywords': 'Keyword coverage',
+  'rubric.must_haves': 'Must-have requirements',
+  'rubric.experience': 'Experience relevance',
+  'rubric.formatting': 'Formatting',
+  'rubric.readability': 'Readability',
+  'rubric.grammar': 'Grammar',
+  'breakdown.title': 'Score Breakdown',
+  'breakdown.summary': '{total}% from the rubric · the model estimated {modelScore}%',
+  'breakdown.preset': 'Rubric preset',
+  'breakdown.customWeights': 'Custom weights',
+  'breakdown.deletePreset': 'Delete {name}',
+  'breakdown.score': 'Score',
+  'breakdown.points': '{value} pts',
+  'breakdown.category': 'Category',
+  'breakdown.weight': 'Weight',
+  'breakdown.pointsColumn': 'Points',
+  'breakdown.localCheck': 'Local check',
+  'breakdown.model': 'Model',
+  'breakdown.mixed': 'Model + local check',
+  'breakdown.weightLabel': '{category} weight',
+  'breakdown.presetPlaceholder': 'Save these weights as a preset, e.g. Data science',
+  'breakdown.savePreset': 'Save Preset',
+
+  // Score trend chart
+  'trend.resumeScore': 'Resume Score',
+  'trend.readability': 'Readability',
+  'trend.skillsMatch': 'Skills Match',
+
+  // Interview prep
+  'interviewPrep.title': 'Interview Prep',
+  'interviewPrep.generate': 'Prepare Questions',
+  'interviewPrep.regenerate': 'Prepare New Questions',
+  'interviewPrep.description': {
+    one: 'Likely questions on the {count} weak or missing area from this analysis, with STAR answer outlines built from your resume. Practice progress is saved in this browser.',
+    other: 'Likely questions on the {count} weak or missing areas from this analysis, with STAR answer outlines built from your resume. Practice progress is saved in this browser.',
+  },
+  'interviewPrep.noGaps': 'The analysis found no weak skills or missing requirements to prepare for.',
+  'interviewPrep.all': 'All',
+  'interviewPrep.technical': 'Technical',
+  'interviewPrep.behavioral': 'Behavioral',
+  'interviewPrep.practiced': '{count} of {total} practiced',
+  'interviewPrep.markPracticed': 'Mark as practiced',
+  'interviewPrep.markNotPracticed': 'Mark as not practiced',
+  'interviewPrep.fromResume': 'From your resume',
+  'interviewPrep.failed': 'Failed to prepare interview questions',
+  'gap.technical': 'Technical skill',
+  'gap.soft_skill': 'Soft skill',
+  'gap.requirement': 'Requirement',
+  'star.situation': 'Situation',
+  'star.task': 'Task',
+  'star.action': 'Action',
+  'star.result': 'Result',
+
+  // Shared actions
+  'action.edit': 'Edit',
+  'action.preview': 'Preview',
+
+  // Rewrite workspace
+  'rewrite.title': 'Rewrite Workspace',
+  'rewrite.generate': { one: 'Rewrite {count} Weak Bullet', other: 'Rewrite {count} Weak Bullets' },
+  'rewrite.regenerate': 'Suggest Again',
+  'rewrite.description':
+    'Rewrites target the missing keywords and requirements above. Accepted changes go into a working copy of your resume, so you can see your score move before editing the real document.',
+  'rewrite.noWeakBullets': 'No weak experience bullets were found.',
+  'rewrite.accept': 'Accept',
+  'rewrite.reject': 'Reject',
+  'rewrite.undoAccept': 'Undo Accept',
+  'rewrite.undoReject': 'Undo Reject',
+  'rewrite.workingCopy': { one: 'Working Copy · {count} accepted change', other: 'Working Copy · {count} accepted changes' },
+  'rewrite.localScore': 'Local score',
+  'rewrite.keywordCoverage': 'Keyword coverage',
+  'rewrite.skillMatch': 'Skill match',
+  'rewrite.rescore': 'Rescore With Model',
+  'rewrite.copy': 'Copy Edited Resume',
+  'rewrite.copied': 'Edited resume copied !',
+  'rewrite.none': 'The model did not suggest any rewrites',
+  'rewrite.failed': 'Failed to rewrite bullets',
+  'weakness.weak-opening': 'Starts with a passive phrase',
+  'weakness.no-metrics': 'No measurable result',
+  'weakness.too-short': 'Too brief to show impact',
+  'weakness.too-long': 'Too long to scan',
+  'weakness.no-target-terms': 'Uses none of the missing keywords',
+
+  // Cover letter
+  'coverLetter.title': 'Cover Letter',
+  'coverLetter.tone': 'Tone',
+  'coverLetter.length': 'Length',
+  'coverLetter.lengthOption': '{label} (~{words} words)',
+  'coverLetter.generate': 'Write Cover Letter',
+  'coverLetter.regenerate': 'Write Again',
+  'coverLetter.description':
+    'The letter builds on your matched skills and met requirements, and may only cite achievements found in your resume. Click a highlighted sentence to see the resume line behind it.',
+  'coverLetter.cited': '{count} traced to your resume',
+  'coverLetter.unsupported': '{count} not found in your resume',
+  'coverLetter.removeUnsupported': 'Remove Unsupported',
+  'coverLetter.basedOn': 'Based on',
+  'coverLetter.noSources': 'None of the cited lines appear in your resume.',
+  'coverLetter.unmatchedFigures': 'Not in the cited lines: {figures}',
+  'coverLetter.failed': 'Failed to write the cover letter',
+  'coverLetter.exportFailed': 'Failed to export the cover letter',
+  'coverTone.Professional': 'Professional',
+  'coverTone.Warm': 'Warm',
+  'coverTone.Confident': 'Confident',
+  'coverLength.short': 'Short',
+  'coverLength.standard': 'Standard',
+  'coverLength.detailed': 'Detailed',
+
+  // Analysis progress
+  'progress.extracting': 'Extracting text',
+  'progress.building-prompt': 'Building the prompt',
+  'progress.waiting': 'Waiting for the model',
+  'progress.streaming': 'Receiving the analysis',
+  'progress.validating': 'Validating the response',
+  'progress.repairing': 'Asking the model to fix its response',
+  'progress.cancel': 'Cancel',
+
+  // Consensus agreement
+  'agreement.High': 'High agreement',
+  'agreement.Medium': 'Medium agreement',
+  'agreement.Low': 'Low agreement',
+  'agreement.hint': { one: '{percent}% agreement across {count} run', other: '{percent}% agreement across {count} runs' },
+
+  // Batch runs
+  'runStatus.queued': 'Queued',
+  'runStatus.extracting': 'Reading file',
+  'runStatus.analyzing': 'Analyzing',
+  'runStatus.waiting': 'Rate limited, retrying',
+  'runStatus.complete': 'Complete',
+  'runStatus.partial': 'Partial',
+  'runStatus.failed': 'Failed',
+  'ranking.title': 'Candidate Ranking',
+  'ranking.progress': '{count} of {total} analyzed',
+  'ranking.exportCsv': 'Export CSV',
+  'ranking.filterPlaceholder': 'Filter by name or missing requirement',
+  'ranking.anyAts': 'Any ATS compatibility',
+  'ranking.minScore': 'Min score: {score}',
+  'ranking.fileName': 'Candidate',
+  'ranking.score': 'Score',
+  'ranking.ats': 'ATS',
+  'ranking.match': 'Match',
+  'ranking.missingRequirements': 'Top Missing Requirements',
+  'ranking.status': 'Status',
+  'ranking.noMatches': 'No candidates match these filters.',
+  'ranking.rank': 'Rank',
+  'ranking.matchPercent': 'Skills Match %',
+  'ranking.error': 'Error',
+
+  // Report export
+  'report.export': 'Export report',
+
+  // Token budget
+  'budget.title': 'Estimated prompt size',
+  'budget.usage': '~{used} of {limit} available',
+  'budget.condensed': 'The job description is too long and will be condensed to its requirements.',
+  'budget.chunked': 'The resume does not fit in one request, so it will be analyzed in {count} parts and the results merged.',
+
+  // Privacy and integrity
+  'pii.NAME': { one: '{count} name', other: '{count} names' },
+  'pii.EMAIL': { one: '{count} email address', other: '{count} email addresses' },
+  'pii.PROFILE': { one: '{count} profile link', other: '{count} profile links' },
+  'pii.ID': { one: '{count} ID number', other: '{count} ID numbers' },
+  'pii.PHONE': { one: '{count} phone number', other: '{count} phone numbers' },
+  'pii.ADDRESS': { one: '{count} street address', other: '{count} street addresses' },
+  'integrity.redacted':
+    'Personal details were replaced with placeholders before the resume was sent for analysis ({redacted}) and restored in this report.',
+  'integrity.nothingRedacted': 'No personal details were found to redact before analysis.',
+  'integrity.title': 'Privacy & Integrity Check',
+  'integrity.body':
+    'This resume contains content aimed at automated screeners rather than human readers. The analysis was told to ignore it, but many applicant tracking systems flag or reject resumes that do this.',
+  'integrity.redactedSummary': 'Personal details replaced before analysis: {redacted}.',
+
+  // History and run comparison
+  'history.title': 'History',
+  'history.selectHint': 'Select two runs to compare them.',
+  'history.compare': 'Compare',
+  'history.empty': 'No saved analyses yet.',
+  'history.selectForComparison': 'Select for comparison',
+  'history.delete': 'Delete run',
+  'comparison.title': 'Run Comparison',
+  'comparison.before': 'Before:',
+  'comparison.after': 'After:',
+  'comparison.noChange': 'No change',
+  'comparison.keywords': 'Keywords Gained / Lost',
+  'comparison.skills': 'Matched Skills Gained / Lost',
+  'comparison.textChanges': 'Resume Text Changes',
+
+  // Resume upload
+  'dropzone.uploadFile': 'Upload a file',
+  'dropzone.uploadFiles': 'Upload files',
+  'dropzone.dragAndDrop': 'or drag and drop',
+  'dropzone.limits': '{types} up to {size}MB',
+  'dropzone.limitsEach': '{types} up to {size}MB each',
+  'dropzone.selectedFile': 'Selected file: {name}',
+  'dropzone.selectedFiles': 'Selected {count} files',
+
+  // Saved roles
+  'jobs.title': 'Saved Roles',
+  'jobs.selected': '· {count} selected',
+  'jobs.namePlaceholder': 'Name this role, e.g. Acme – Frontend Engineer',
+  'jobs.save': 'Save Description',
+  'jobs.include': 'Include {name}',
+  'jobs.load': 'Load into the job description field',
+  'jobs.delete': 'Delete {name}',
+  'roles.sharedGapsTitle': 'Missing Across Most Roles',
+  'roles.sharedGapsDescription':
+    'Adding these keywords improves your fit for the majority of the roles you are applying to, not just one posting.',
+  'roles.needTwoRoles': 'Analyze at least two roles to see shared gaps.',
+  'roles.noSharedGaps': 'No keyword is missing from most roles.',
+  'roles.title': 'Role Comparison',
+  'roles.role': 'Role',
+  'roles.missingKeywords': 'Missing Keywords',
+
+  // ATS view
+  'atsView.title': 'What an ATS Sees',
+  'atsView.description':
+    'This is the structure an applicant tracking system can extract from your resume. Missing or misplaced sections here are worth fixing first.',
+  'atsView.couldNotParse': 'Could Not Parse',
+  'atsView.notFound': '{label} not found',
+  'atsView.contact': 'Contact',
+  'atsView.name': 'Name',
+  'atsView.email': 'Email',
+  'atsView.phone': 'Phone',
+  'atsView.location': 'Location',
+  'atsView.link': 'Link',
+  'atsView.present': 'Present',
+  'atsView.timeline': 'Timeline',
+  'atsView.datedExperience': 'Dated experience',
+  'atsView.sectionsDetected': 'Sections detected',
+  'atsView.sections': 'Sections',
+  'atsView.gap': 'Gap of {duration} between {from} and {to}',
+  'atsView.workExperience': 'Work experience',
+  'atsView.jobTitle': 'Title',
+  'atsView.company': 'Company',
+  'atsView.dates': 'Dates',
+  'atsView.degree': 'Degree',
+  'atsView.institution': 'Institution',
+  'atsView.noneDetected': 'None detected',
+  'atsView.skillsList': 'Skills list',
+  'section.summary': 'Summary',
+  'section.experience': 'Experience',
+  'section.education': 'Education',
+  'section.certifications': 'Certifications',
+  'section.skills': 'Skills',
+  'section.projects': 'Projects',
+  'section.other': 'Other',
+
+  // Evidence
+  'evidence.title': 'Evidence',
+  'evidence.clear': 'Clear',
+  'evidence.hallucinations': {
+    one: 'Possible hallucinations: {count} claimed match has no supporting text in the resume',
+    other: 'Possible hallucinations: {count} claimed matches have no supporting text in the resume',
+  },
+  'evidence.showing': 'Showing where “{term}” appears:',
+  'evidence.counts': {
+    one: '{count} match in the resume, {job} in the job description.',
+    other: '{count} matches in the resume, {job} in the job description.',
+  },
+  'evidence.notSupported': 'No supporting text was found in the resume. If the model listed this as a match, it may be a hallucination.',
+  'evidence.hint': 'Click a keyword, skill or requirement above to see the text that supports it.',
+  'evidence.resume': 'Resume',
+  'evidence.jobDescription': 'Job Description',
+  'evidence.exact': 'Exact match',
+  'evidence.synonym': 'Synonym',
+  'evidence.fuzzy': 'Similar wording',
+
+  // Job description review
+  'jobEditor.title': 'Review Requirements',
+  'jobEditor.summary': '· {mustHaves} must-have, {niceToHaves} nice-to-have',
+  'jobEditor.edited': ' · edited',
+  'jobEditor.description':
+    'Check what was read from the job description before analyzing. Remove boilerplate, and click a priority to switch between must-have and nice-to-have. Requirement coverage is scored against this list.',
+  'jobEditor.jobTitle': 'Job title',
+  'jobEditor.seniority': 'Seniority',
+  'jobEditor.notStated': 'Not stated',
+  'jobEditor.minYears': 'Minimum years of experience',
+  'jobEditor.location': 'Location',
+  'jobEditor.workArrangement': 'Work arrangement',
+  'jobEditor.skills': 'Skills',
+  'jobEditor.mustHaveHint': 'Must-have · click to make nice-to-have',
+  'jobEditor.niceToHaveHint': 'Nice-to-have · click to make must-have',
+  'jobEditor.removeSkill': 'Remove {name}',
+  'jobEditor.noSkills': 'No skills recognised.',
+  'jobEditor.addSkill': 'Add a skill',
+  'jobEditor.requirements': 'Requirements',
+  'jobEditor.mustHave': 'Must-have',
+  'jobEditor.niceToHave': 'Nice-to-have',
+  'jobEditor.removeRequirement': 'Remove requirement',
+  'jobEditor.noRequirements': 'No requirements recognised.',
+  'jobEditor.addRequirement': 'Add a requirement',
+  'jobEditor.responsibilities': 'Responsibilities',
+  'jobEditor.removeResponsibility': 'Remove responsibility',
+  'jobEditor.noResponsibilities': 'No responsibilities recognised.',
+  'jobEditor.reset': 'Reset to the parsed description',
+  'jobEditor.add': 'Add',
+};
@@ -0,0 +1,77 @@
+import { parseJsonResponse } from '../analysisSchema';
+import { INTERVIEW_PREP_LIMITS } from '../apiTypes';
+import { buildInterviewPrepPrompt } from '../prompt';
+import type { CompleteFn } from '../providers/types';
+import type { AnalysisResult } from '../../types';
+import { QUESTION_TYPES } from './types';
+import type { GapKind, InterviewGap, InterviewPrepInput, InterviewQuestion, QuestionType, StarOutline } from './types';
+
+export { GAP_KINDS, QUESTION_TYPES } from './types';
+export type * from './types';
+
+export const MAX_GAPS_PER_KIND = 8;
+
+const STAR_STEPS: (keyof StarOutline)[] = ['situation', 'task', 'action', 'result'];
+
+// Weak technical skills, missing soft skills and missing requirements, without duplicates across the three lists
+// and shortened to the label length the server accepts.
+export const collectGaps = (result: AnalysisResult): InterviewGap[] => {
+  const seen = new Set<string>();
+  const lists: [GapKind, string[]][] = [
+    ['technical', result.technical_proficiency.weak_or_missing],
+    ['soft_skill', result.soft_skills_match.missing],
+    ['requirement', result.job_requirements_coverage.missing_requirements],
+  ];
+
+  return lists
+    .flatMap(([kind, labels]) =>
+      labels
+        .map((label) => label.trim().slice(0, INTERVIEW_PREP_LIMITS.maxGapChars).trim())
+        .filter((label) => {
+          const key = label.toLowerCase();
+          if (!label || seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        })
+        .slice(0, MAX_GAPS_PER_KIND)
+        .map((label) => ({ kind, label })),
+    )
+    .map((gap, index) => ({ id: `G${index + 1}`, ...gap }));
+};
+
+const readString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const readQuestion = (raw: unknown, gaps: Map<string, InterviewGap>, lineIds: Set<string>): Omit<InterviewQuestion, 'id'>[] => {
+  const item = raw as { type?: unknown; question?: unknown; gap?: unknown; outline?: Record<string, unknown>; sources?: unknown } | null;
+  const question = readString(item?.question);
+  const gap = gaps.get(readString(item?.gap));
+  if (!question || !gap) return [];
+
+  const type = QUESTION_TYPES.includes(item?.type as QuestionType)
+    ? (item?.type as QuestionType)
+    : gap.kind === 'technical'
+      ? 'technical'
+      : 'behavioral';
+  const outline = Object.fromEntries(STAR_STEPS.map((step) => [step, readString(item?.outline?.[step])])) as unknown as StarOutline;
+  const sources = Array.isArray(item?.sources) ? item.sources.filter((id): id is string => typeof id === 'string' && lineIds.has(id)) : [];
+  return [{ type, question, gapId: gap.id, outline, sources }];
+};
+
+// Questions must name a gap from the input; citations of lines the resume does not have are dropped.
+export const parseInterviewPrepResponse = (content: string, input: InterviewPrepInput): InterviewQuestion[] => {
+  const raw = parseJsonResponse(content) as { questions?: unknown } | null;
+  if (!Array.isArray(raw?.questions)) {
+    throw new Error('The model response did not contain a "questions" list');
+  }
+
+  const gaps = new Map(input.gaps.map((gap) => [gap.id, gap]));
+  const lineIds = new Set(input.lines.map((line) => line.id));
+  const questions = raw.questions.flatMap((item: unknown) => readQuestion(item, gaps, lineIds));
+  if (!questions.length) {
+    throw new Error('The model returned no interview questions');
+  }
+  return questions.map((question: Omit<InterviewQuestion, 'id'>, index: number) => ({ id: `Q${index + 1}`, ...question }));
+};
+
+export const runInterviewPrep = async (complete: CompleteFn, input: InterviewPrepInput): Promise<InterviewQuestion[]> =>
+  parseInterviewPrepResponse(await complete([{ role: 'user', content: buildInterviewPrepPrompt(input) }]), input);
@@ -0,0 +1,45 @@
+import { normalizeForHash, sha256 } from '../hash';
+import type { InterviewGap, InterviewQuestion } from './types';
+
+export interface InterviewPrepSession {
+  gaps: InterviewGap[];
+  questions: InterviewQuestion[];
+  // Ids of the questions marked as practiced.
+  practiced: string[];
+  updatedAt: number;
+}
+
+const STORAGE_KEY = 'atsight:interview-prep';
+const MAX_SESSIONS = 20;
+
+type StoredSessions = Record<string, InterviewPrepSession>;
+
+const isSession = (value: unknown): value is InterviewPrepSession => {
+  const session = value as Partial<InterviewPrepSession> | null;
+  return Array.isArray(session?.gaps) && Array.isArray(session.questions) && Array.isArray(session.practiced);
+};
+
+const loadSessions = (): StoredSessions => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return stored && typeof stored === 'object'
+      ? Object.fromEntries(Object.entries(stored).filter(([, session]) => isSession(session)))
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+// Sessions belong to a resume and job pair, so practice carries over when the same pair is analyzed again.
+export const interviewPrepKey = async (resumeText: string, jobDescription: string) =>
+  sha256(JSON.stringify([await sha256(normalizeForHash(resumeText)), await sha256(normalizeForHash(jobDescription))]));
+
+export const loadInterviewPrep = (key: string): InterviewPrepSession | null => loadSessions()[key] ?? null;
+
+// Keeps the most recently updated sessions so old ones do not fill the storage quota.
+export const saveInterviewPrep = (key: string, session: InterviewPrepSession) => {
+  const sessions = Object.entries({ ...loadSessions(), [key]: session })
+    .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+    .slice(0, MAX_SESSIONS);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(sessions)));
+};
@@ -0,0 +1,42 @@
+import type { ResumeLine } from '../coverLetter/types';
+
+export const GAP_KINDS = {
+  technical: 'Technical skill',
+  soft_skill: 'Soft skill',
+  requirement: 'Requirement',
+};
+export type GapKind = keyof typeof GAP_KINDS;
+
+// A weak or missing area from the analysis, numbered so questions can be tagged with it.
+export interface InterviewGap {
+  id: string;
+  kind: GapKind;
+  label: string;
+}
+
+export const QUESTION_TYPES = ['technical', 'behavioral'] as const;
+export type QuestionType = typeof QUESTION_TYPES[number];
+
+export interface StarOutline {
+  situation: string;
+  task: string;
+  action: string;
+  result: string;
+}
+
+export interface InterviewQuestion {
+  id: string;
+  type: QuestionType;
+  question: string;
+  // Id of the gap the question probes.
+  gapId: string;
+  outline: StarOutline;
+  // Ids of the resume lines the outline draws on.
+  sources: string[];
+}
+
+export interface InterviewPrepInput {
+  gaps: InterviewGap[];
+  lines: ResumeLine[];
+  jobDescription: string;
+}
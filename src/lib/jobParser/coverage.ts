@@ -0,0 +1,60 @@
+import { normalizeText } from '../scoring/keywords';
+import type { AnalysisResult } from '../../types';
+import type { JobRequirement, RequirementPriority } from './types';
+
+export const PRIORITY_WEIGHTS: Record<RequirementPriority, number> = {
+  'must-have': 2,
+  'nice-to-have': 1,
+};
+
+// Token overlap at which the model's wording counts as the same requirement.
+const SIMILARITY_THRESHOLD = 0.6;
+
+export interface RequirementCoverage {
+  met: JobRequirement[];
+  missing: JobRequirement[];
+  // Percentage of requirement weight met, so a missing must-have costs more than a missing nice-to-have.
+  score: number;
+  mustHaves: { met: number; total: number };
+}
+
+const tokens = (text: string) => new Set(normalizeText(text).match(/[a-z0-9+#]+/g) ?? []);
+
+export const textSimilarity = (a: string, b: string) => {
+  const left = normalizeText(a).trim();
+  const right = normalizeText(b).trim();
+  if (!left || !right) return 0;
+  if (left.includes(right) || right.includes(left)) return 1;
+
+  const leftTokens = tokens(left);
+  const rightTokens = tokens(right);
+  const shared = [...leftTokens].filter((token) => rightTokens.has(token)).length;
+  return shared / (leftTokens.size + rightTokens.size - shared);
+};
+
+const bestMatch = (text: string, candidates: string[]) => Math.max(0, ...candidates.map((candidate) => textSimilarity(text, candidate)));
+
+// Scores the confirmed requirements against the model's coverage lists. Requirements the model did not mention count as missing.
+export const scoreRequirementCoverage = (
+  requirements: JobRequirement[],
+  coverage: AnalysisResult['job_requirements_coverage'],
+): RequirementCoverage => {
+  const met: JobRequirement[] = [];
+  const missing: JobRequirement[] = [];
+  for (const requirement of requirements) {
+    const metScore = bestMatch(requirement.text, coverage.met_requirements);
+    const missingScore = bestMatch(requirement.text, coverage.missing_requirements);
+    (metScore >= SIMILARITY_THRESHOLD && metScore >= missingScore ? met : missing).push(requirement);
+  }
+
+  const weight = (list: JobRequirement[]) => list.reduce((sum, requirement) => sum + PRIORITY_WEIGHTS[requirement.priority], 0);
+  const total = weight(requirements);
+  const mustHave = (list: JobRequirement[]) => list.filter((requirement) => requirement.priority === 'must-have').length;
+
+  return {
+    met,
+    missing,
+    score: total ? Math.round((weight(met) / total) * 100) : 0,
+    mustHaves: { met: mustHave(met), total: mustHave(requirements) },
+  };
+};
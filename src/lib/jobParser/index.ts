@@ -0,0 +1,224 @@
+import { DEGREE_WORDS, stripBullet } from '../resumeParser/entries';
+import { findSkillTerms, normalizeText } from '../scoring/keywords';
+import type {
+  JobRequirement,
+  JobSkill,
+  ParsedJobDescription,
+  RequirementKind,
+  RequirementPriority,
+  Seniority,
+  WorkArrangement,
+} from './types';
+
+export { SENIORITY_LEVELS, WORK_ARRANGEMENTS } from './types';
+export { PRIORITY_WEIGHTS, scoreRequirementCoverage, textSimilarity } from './coverage';
+export type { RequirementCoverage } from './coverage';
+export type * from './types';
+
+type JobSection = 'must-have' | 'required' | 'preferred' | 'responsibilities' | 'ignored' | 'other';
+
+// Checked in order, so "Preferred qualifications" is not read as a list of requirements.
+const SECTION_PATTERNS: [JobSection, RegExp][] = [
+  ['preferred', /\b(?:preferred|nice[\s-]to[\s-]haves?|bonus(?:es)?|desired|good[\s-]to[\s-]have|pluses)\b/i],
+  ['ignored', /\b(?:about (?:us|the company|the team)|benefits|perks|what we offer|why (?:join|work)|compensation|salary|equal opportunity|how to apply)\b/i],
+  ['must-have', /\bmust[\s-]haves?\b/i],
+  ['required', /\b(?:requirements?|qualifications?|what you(?:'ll)? bring|what we(?:'re| are) looking for|you have|about you)\b|\bskills:$/i],
+  ['responsibilities', /\b(?:responsibilities|what you(?:'ll| will) do|duties|day[\s-]to[\s-]day|your role|the role|in this role)\b/i],
+];
+
+const SENIORITY_PATTERNS: [Seniority, RegExp][] = [
+  ['Principal', /\b(?:principal|distinguished)\b/i],
+  ['Lead', /\b(?:lead|staff)\b/i],
+  ['Senior', /\b(?:senior|sr\.?)(?=\s|$)/i],
+  ['Mid-level', /\b(?:mid[\s-]?level|intermediate)\b/i],
+  ['Junior', /\b(?:junior|jr\.?|entry[\s-]level|graduate)(?=\s|$)/i],
+  ['Intern', /\bintern(?:ship)?\b/i],
+];
+
+const ARRANGEMENT_PATTERNS: [WorkArrangement, RegExp][] = [
+  ['Hybrid', /\bhybrid\b/i],
+  ['Remote', /\bremote\b/i],
+  ['On-site', /\b(?:on[\s-]?site|in[\s-]office)\b/i],
+];
+
+const YEARS_PATTERN = /(\d{1,2})\s*\+?\s*(?:(?:-|–|to)\s*\d{1,2}\s*)?\+?\s*years?/i;
+const PREFERRED_MARKERS = /\b(?:preferred|nice to have|(?:is )?a plus|bonus|ideally|desirable)\b/i;
+// Lines outside a requirements section that still read like one.
+const REQUIREMENT_HINTS = /\b(?:experience (?:with|in)|years|degree|proficien|knowledge of|familiar|understanding of|ability to|must|required|expertise)\b/i;
+
+const FIELD_LABELS: Record<string, RegExp> = {
+  title: /^(?:job title|title|position|role)$/i,
+  seniority: /^(?:seniority|level)$/i,
+  experience: /^(?:minimum experience|experience)$/i,
+  location: /^location$/i,
+  arrangement: /^(?:work arrangement|workplace|work model)$/i,
+  requiredSkills: /^(?:required skills|must-have skills)$/i,
+  preferredSkills: /^(?:preferred skills|nice-to-have skills)$/i,
+};
+
+const readField = (line: string) => {
+  const match = line.match(/^([A-Za-z -]{2,30}):\s*(.+)$/);
+  if (!match) return null;
+  const field = Object.keys(FIELD_LABELS).find((key) => FIELD_LABELS[key].test(match[1].trim()));
+  return field ? { field, value: match[2].trim() } : null;
+};
+
+const readHeading = (line: string): JobSection | null => {
+  if (line.length > 60 || /[.!?]$/.test(line) || (!line.endsWith(':') && line.split(' ').length > 6)) return null;
+  const match = SECTION_PATTERNS.find(([, pattern]) => pattern.test(line));
+  if (match) return match[0];
+  return line.endsWith(':') ? 'other' : null;
+};
+
+const matchFirst = <T>(patterns: [T, RegExp][], text: string) => patterns.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+
+const readYears = (text: string) => {
+  const match = text.match(YEARS_PATTERN);
+  return match ? Number(match[1]) : null;
+};
+
+const requirementKind = (text: string): RequirementKind => {
+  if (DEGREE_WORDS.test(text) || /\bdegree\b/i.test(text)) return 'education';
+  if (YEARS_PATTERN.test(text)) return 'experience';
+  return 'general';
+};
+
+const seniorityFromYears = (years: number): Seniority => (years < 2 ? 'Junior' : years < 5 ? 'Mid-level' : 'Senior');
+
+export const createRequirement = (text: string, priority: RequirementPriority, id: string = crypto.randomUUID()): JobRequirement => ({
+  id,
+  text,
+  kind: requirementKind(text),
+  priority,
+});
+
+export const parseJobDescription = (text: string): ParsedJobDescription => {
+  const lines = text
+    .split(/\r?\n/)
+    .map((raw) => {
+      const trimmed = raw.replace(/\s+/g, ' ').trim();
+      const line = stripBullet(trimmed);
+      return { line, bulleted: line !== trimmed };
+    })
+    .filter(({ line }) => Boolean(line));
+
+  const job: ParsedJobDescription = {
+    title: null,
+    seniority: null,
+    minYearsExperience: null,
+    location: null,
+    workArrangement: null,
+    skills: [],
+    requirements: [],
+    responsibilities: [],
+  };
+  const skills = new Map<string, RequirementPriority>();
+  const addSkill = (name: string, priority: RequirementPriority) => {
+    const key = name.toLowerCase();
+    // A skill asked for anywhere as a must-have stays one.
+    if (skills.get(key) !== 'must-have') skills.set(key, priority);
+  };
+  const seen = new Set<string>();
+  const addRequirement = (line: string, priority: RequirementPriority) => {
+    const key = normalizeText(line);
+    if (seen.has(key)) return;
+    seen.add(key);
+    job.requirements.push(createRequirement(line, priority, `r${job.requirements.length + 1}`));
+  };
+
+  let section: JobSection = 'other';
+  lines.forEach(({ line, bulleted }, index) => {
+    const field = readField(line);
+    if (field) {
+      if (field.field === 'title') job.title = field.value;
+      if (field.field === 'seniority') job.seniority = matchFirst(SENIORITY_PATTERNS, field.value);
+      if (field.field === 'experience') job.minYearsExperience = readYears(field.value);
+      if (field.field === 'location') {
+        job.location = field.value.replace(/\s*\((?:remote|hybrid|on-site)\)$/i, '');
+        job.workArrangement ??= matchFirst(ARRANGEMENT_PATTERNS, field.value);
+      }
+      if (field.field === 'arrangement') job.workArrangement = matchFirst(ARRANGEMENT_PATTERNS, field.value);
+      if (field.field === 'requiredSkills' || field.field === 'preferredSkills') {
+        const priority = field.field === 'requiredSkills' ? 'must-have' : 'nice-to-have';
+        field.value
+          .split(',')
+          .map((skill) => skill.trim())
+          .filter(Boolean)
+          .forEach((skill) => addSkill(skill, priority));
+      }
+      return;
+    }
+
+    // List items are content, even when they are short and name a section.
+    const heading = bulleted ? null : readHeading(line);
+    if (heading) {
+      section = heading;
+      return;
+    }
+
+    // A short first line without punctuation is usually the job title.
+    if (index === 0 && !job.title && line.length <= 80 && !/[.!?:]$/.test(line)) {
+      job.title = line;
+      return;
+    }
+
+    if (section === 'ignored') return;
+    if (section === 'responsibilities') {
+      job.responsibilities.push(line);
+      findSkillTerms(normalizeText(line)).forEach((skill) => addSkill(skill, 'must-have'));
+      return;
+    }
+    if (section === 'other' && !REQUIREMENT_HINTS.test(line)) return;
+
+    // An explicit must-have heading outranks wording like "is a plus", so confirmed priorities survive a re-parse.
+    const priority =
+      section === 'must-have' ? 'must-have' : section === 'preferred' || PREFERRED_MARKERS.test(line) ? 'nice-to-have' : 'must-have';
+    addRequirement(line, priority);
+    findSkillTerms(normalizeText(line)).forEach((skill) => addSkill(skill, priority));
+  });
+
+  if (job.minYearsExperience === null) {
+    const years = job.requirements
+      .filter((requirement) => requirement.priority === 'must-have')
+      .map((requirement) => readYears(requirement.text))
+      .filter((value): value is number => value !== null);
+    job.minYearsExperience = years.length ? Math.max(...years) : null;
+  }
+  job.seniority ??= job.title ? matchFirst(SENIORITY_PATTERNS, job.title) : null;
+  if (!job.seniority && job.minYearsExperience !== null) {
+    job.seniority = seniorityFromYears(job.minYearsExperience);
+  }
+  job.workArrangement ??= matchFirst(ARRANGEMENT_PATTERNS, text);
+  job.skills = [...skills.entries()].map(([name, priority]): JobSkill => ({ name, priority }));
+  return job;
+};
+
+const listBlock = (heading: string, items: string[]) => (items.length ? [`${heading}:`, ...items.map((item) => `- ${item}`), ''] : []);
+
+// Writes a confirmed description back out as text that parseJobDescription reads the same way.
+export const formatJobDescription = (job: ParsedJobDescription) => {
+  const skillsWith = (priority: RequirementPriority) =>
+    job.skills.filter((skill) => skill.priority === priority).map((skill) => skill.name).join(', ');
+  const requirementsWith = (priority: RequirementPriority) =>
+    job.requirements.filter((requirement) => requirement.priority === priority).map((requirement) => requirement.text);
+
+  const fields = [
+    job.title && `Job title: ${job.title}`,
+    job.seniority && `Seniority: ${job.seniority}`,
+    job.minYearsExperience !== null && `Minimum experience: ${job.minYearsExperience}+ years`,
+    job.location && `Location: ${job.location}`,
+    job.workArrangement && `Work arrangement: ${job.workArrangement}`,
+    skillsWith('must-have') && `Required skills: ${skillsWith('must-have')}`,
+    skillsWith('nice-to-have') && `Preferred skills: ${skillsWith('nice-to-have')}`,
+  ].filter((line): line is string => Boolean(line));
+
+  return [
+    ...fields,
+    '',
+    ...listBlock('Must-have requirements', requirementsWith('must-have')),
+    ...listBlock('Nice-to-have requirements', requirementsWith('nice-to-have')),
+    ...listBlock('Responsibilities', job.responsibilities),
+  ]
+    .join('\n')
+    .trim();
+};
@@ -0,0 +1,31 @@
+export const SENIORITY_LEVELS = ['Intern', 'Junior', 'Mid-level', 'Senior', 'Lead', 'Principal'] as const;
+export const WORK_ARRANGEMENTS = ['Remote', 'Hybrid', 'On-site'] as const;
+
+export type Seniority = typeof SENIORITY_LEVELS[number];
+export type WorkArrangement = typeof WORK_ARRANGEMENTS[number];
+
+export type RequirementPriority = 'must-have' | 'nice-to-have';
+export type RequirementKind = 'experience' | 'education' | 'general';
+
+export interface JobRequirement {
+  id: string;
+  text: string;
+  kind: RequirementKind;
+  priority: RequirementPriority;
+}
+
+export interface JobSkill {
+  name: string;
+  priority: RequirementPriority;
+}
+
+export interface ParsedJobDescription {
+  title: string | null;
+  seniority: Seniority | null;
+  minYearsExperience: number | null;
+  location: string | null;
+  workArrangement: WorkArrangement | null;
+  skills: JobSkill[];
+  requirements: JobRequirement[];
+  responsibilities: string[];
+}
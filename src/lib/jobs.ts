@@ -0,0 +1,90 @@
+import { QUEUED_RUN, analyzeWithRetry, runWithConcurrency } from './batch';
+import type { RunState } from './batch';
+import type { ProviderSettings } from './providers';
+
+export interface SavedJob {
+  id: string;
+  name: string;
+  description: string;
+  createdAt: number;
+}
+
+const STORAGE_KEY = 'atsight:saved-jobs';
+
+const isSavedJob = (value: unknown): value is SavedJob => {
+  const job = value as Partial<SavedJob> | null;
+  return typeof job?.id === 'string' && typeof job.name === 'string' && typeof job.description === 'string';
+};
+
+export const loadSavedJobs = (): SavedJob[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isSavedJob) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveSavedJobs = (jobs: SavedJob[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+};
+
+export const createSavedJob = (name: string, description: string): SavedJob => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  description: description.trim(),
+  createdAt: Date.now(),
+});
+
+export interface RoleRun extends RunState {
+  jobId: string;
+  name: string;
+  jobDescription: string;
+}
+
+export const createRoleRun = (job: SavedJob): RoleRun => ({
+  jobId: job.id,
+  name: job.name,
+  jobDescription: job.description,
+  ...QUEUED_RUN,
+});
+
+export interface RoleComparisonOptions {
+  runs: RoleRun[];
+  resumeText: string;
+  settings: ProviderSettings;
+  concurrency: number;
+  onUpdate: (jobId: string, changes: Partial<RoleRun>) => void;
+}
+
+export const runRoleComparison = ({ runs, resumeText, settings, concurrency, onUpdate }: RoleComparisonOptions) =>
+  runWithConcurrency(runs, concurrency, (run) =>
+    analyzeWithRetry(settings, resumeText, run.jobDescription, (changes) => onUpdate(run.jobId, changes)),
+  );
+
+export interface SharedGap {
+  keyword: string;
+  roles: string[];
+}
+
+// Keywords missing from more than half of the analyzed roles: the edits that pay off everywhere.
+export const findSharedGaps = (runs: RoleRun[]): SharedGap[] => {
+  const analyzed = runs.filter((run) => run.result);
+  const gaps = new Map<string, SharedGap>();
+
+  analyzed.forEach((run) => {
+    const seen = new Set<string>();
+    run.result?.keywords_analysis.missing_keywords.forEach((keyword) => {
+      const key = keyword.toLowerCase().trim();
+      if (!key || seen.has(key)) return;
+      seen.add(key);
+      const gap = gaps.get(key) ?? { keyword, roles: [] };
+      gap.roles.push(run.name);
+      gaps.set(key, gap);
+    });
+  });
+
+  return [...gaps.values()]
+    .filter((gap) => analyzed.length > 1 && gap.roles.length > analyzed.length / 2)
+    .sort((a, b) => b.roles.length - a.roles.length || a.keyword.localeCompare(b.keyword));
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+  it('returns undefined before an object starts', () => {
+    expect(parsePartialJson('Sure, here is')).toBeUndefined();
+  });
+
+  it('closes open strings, arrays and objects', () => {
+    expect(parsePartialJson('{"summary": "Strong fronte')).toEqual({ summary: 'Strong fronte' });
+    expect(parsePartialJson('{"skills": ["React", "Type')).toEqual({ skills: ['React', 'Type'] });
+  });
+
+  it('leaves out keys and numbers that are not complete yet', () => {
+    expect(parsePartialJson('{"score": 74, "read')).toEqual({ score: 74 });
+    expect(parsePartialJson('{"score": 7')).toEqual({});
+  });
+
+  it('reads a complete document and ignores text after it', () => {
+    expect(parsePartialJson('```json\n{"score": 74}\n```')).toEqual({ score: 74 });
+  });
+
+  it('returns undefined for malformed output instead of throwing', () => {
+    expect(parsePartialJson('{"a": [1, 2,], "b": "x"}')).toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+interface Frame {
+  type: '{' | '[';
+  // For objects: whether the next string is a key.
+  expectKey: boolean;
+}
+
+const CLOSERS = { '{': '}', '[': ']' } as const;
+
+const closersFor = (stack: Frame[]) =>
+  stack
+    .map((frame) => CLOSERS[frame.type])
+    .reverse()
+    .join('');
+
+const parseFirst = (candidates: string[]): unknown => {
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next, shorter candidate.
+    }
+  }
+  return undefined;
+};
+
+// Parses the longest prefix of an incomplete JSON document, closing any open
+// strings, arrays and objects. Returns undefined when nothing parses yet.
+export const parsePartialJson = (text: string): unknown => {
+  const start = text.indexOf('{');
+  if (start === -1) return undefined;
+
+  const stack: Frame[] = [];
+  let inString = false;
+  let stringIsKey = false;
+  let escaped = false;
+  let safe: string | null = null;
+
+  const markSafe = (end: number) => {
+    safe = text.slice(start, end) + closersFor(stack);
+  };
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    const top = stack[stack.length - 1];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        if (!stringIsKey) markSafe(i + 1);
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '{':
+      case '[':
+        stack.push({ type: char, expectKey: char === '{' });
+        markSafe(i + 1);
+        break;
+      case '}':
+      case ']':
+        stack.pop();
+        if (!stack.length) {
+          // The last safe prefix usually holds the same mistake, so malformed output like a trailing comma gives undefined.
+          return parseFirst([text.slice(start, i + 1), ...(safe === null ? [] : [safe])]);
+        }
+        markSafe(i + 1);
+        break;
+      case '"':
+        inString = true;
+        stringIsKey = top?.type === '{' && top.expectKey;
+        break;
+      case ':':
+        if (top) top.expectKey = false;
+        break;
+      case ',':
+        if (top?.type === '{') top.expectKey = true;
+        break;
+      default:
+        // Numbers and literals are only complete once a delimiter follows them.
+        if (/[\w.+-]/.test(char) && /[\s,\]}]/.test(text[i + 1] ?? '')) markSafe(i + 1);
+    }
+  }
+
+  const candidates: string[] = [];
+  if (inString && !stringIsKey) {
+    // Show string values, like the summary, while they are still being written.
+    const written = escaped ? text.slice(start, -1) : text.slice(start);
+    candidates.push(`${written}"${closersFor(stack)}`);
+  }
+  if (safe !== null) candidates.push(safe);
+  return parseFirst(candidates);
+};
@@ -0,0 +1,4 @@
+export { INVISIBLE_CHARACTERS, countPii, createRedactor } from './redact';
+export type { PiiKind, Redactor } from './redact';
+export { screenResume } from './injection';
+export type { SecurityFinding, SecurityFindingKind } from './injection';
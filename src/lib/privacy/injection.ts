@@ -0,0 +1,80 @@
+import type { HiddenText } from '../extraction/hiddenText';
+import { INVISIBLE_CHARACTERS } from './redact';
+
+export type SecurityFindingKind = 'injection' | 'hidden-text' | 'invisible-characters';
+
+export interface SecurityFinding {
+  kind: SecurityFindingKind;
+  message: string;
+  // The offending text, shortened for display.
+  excerpt: string;
+}
+
+const MAX_FINDINGS = 10;
+const EXCERPT_LENGTH = 120;
+
+// Phrases that address the model rather than a human reader.
+const INJECTION_PATTERNS: [RegExp, string][] = [
+  [/\b(?:ignore|disregard|forget|override)\b[^.\n]{0,40}\b(?:previous|prior|above|earlier|all|any)\b[^.\n]{0,20}\b(?:instructions?|prompts?|rules|directions)\b/i, 'Asks the model to ignore its instructions'],
+  [/\b(?:give|assign|rate|score|award)\b[^.\n]{0,40}\b(?:100|ten out of ten|10\/10|perfect score|maximum score|highest (?:score|rating))\b/i, 'Demands a particular score'],
+  [/\b(?:this|the) (?:candidate|applicant|resume) (?:is|must be) (?:the )?(?:perfect|ideal|best|top) (?:match|fit|candidate)\b/i, 'Tells the model how to judge the candidate'],
+  [/\b(?:you are now|from now on,? you|act as|pretend (?:to be|you are)|new instructions?)\b/i, 'Tries to give the model a new role or instructions'],
+  [/\bsystem prompt\b|\b(?:developer|jailbreak) mode\b/i, 'Refers to the model’s system prompt'],
+  [/<\|(?:im_start|im_end|system|user|assistant)\|>|\[\/?INST\]|<<\/?SYS>>|^\s*(?:system|assistant)\s*:/im, 'Contains chat-model control tokens'],
+  [/\b(?:note|message|instructions?) (?:to|for) (?:the )?(?:ai|llm|model|chatgpt|gpt|language model|ats|screener|recruiter bot)\b/i, 'Leaves a note addressed to an AI screener'],
+];
+
+const excerptOf = (text: string, index = 0) => {
+  const start = Math.max(0, index - 20);
+  const excerpt = text
+    .slice(start, start + EXCERPT_LENGTH)
+    .replace(INVISIBLE_CHARACTERS, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return `${start > 0 ? '…' : ''}${excerpt}${start + EXCERPT_LENGTH < text.length ? '…' : ''}`;
+};
+
+// Unicode tag characters mirror ASCII, so text can be smuggled in that no one sees.
+const decodeTagCharacters = (text: string) =>
+  [...text.matchAll(/[\u{E0020}-\u{E007E}]+/gu)].map((match) =>
+    [...match[0]].map((char) => String.fromCharCode(char.codePointAt(0)! - 0xe0000)).join(''),
+  );
+
+const findInjections = (text: string, source: string): SecurityFinding[] =>
+  INJECTION_PATTERNS.flatMap(([pattern, message]) => {
+    const match = pattern.exec(text);
+    return match ? [{ kind: 'injection' as const, message: `${message}${source}`, excerpt: excerptOf(text, match.index) }] : [];
+  });
+
+const HIDDEN_REASONS: Record<HiddenText['reason'], string> = {
+  white: 'white text',
+  tiny: 'text too small to read',
+};
+
+// Looks for text in a resume that tries to steer an AI screener instead of informing a reader.
+export const screenResume = (resumeText: string, hiddenText: HiddenText[] = []): SecurityFinding[] => {
+  const findings: SecurityFinding[] = [...findInjections(resumeText, '')];
+
+  const invisible = resumeText.match(INVISIBLE_CHARACTERS)?.length ?? 0;
+  if (invisible > 0) {
+    findings.push({
+      kind: 'invisible-characters',
+      message: `Contains ${invisible} invisible ${invisible === 1 ? 'character' : 'characters'}, which are removed before analysis`,
+      excerpt: '',
+    });
+  }
+  decodeTagCharacters(resumeText).forEach((decoded) => {
+    findings.push(...findInjections(decoded, ' in invisible characters'));
+  });
+
+  hiddenText.forEach((item) => {
+    findings.push({
+      kind: 'hidden-text',
+      message: `Page ${item.page} contains ${HIDDEN_REASONS[item.reason]}`,
+      excerpt: excerptOf(item.text),
+    });
+    findings.push(...findInjections(item.text, ` in ${HIDDEN_REASONS[item.reason]}`));
+  });
+
+  return findings.slice(0, MAX_FINDINGS);
+};
@@ -0,0 +1,92 @@
+import { parseResume } from '../resumeParser';
+
+export type PiiKind = 'NAME' | 'EMAIL' | 'PROFILE' | 'ID' | 'PHONE' | 'ADDRESS';
+
+// Zero-width and Unicode tag characters are invisible on the page but still reach the model.
+export const INVISIBLE_CHARACTERS = /[\u200B-\u200F\u2060-\u2064\uFEFF\u{E0000}-\u{E007F}]/gu;
+
+const digitCount = (value: string) => value.replace(/\D/g, '').length;
+
+// Applied in order, so an email's digits are never mistaken for a phone number.
+const PII_PATTERNS: [PiiKind, RegExp, (match: string) => boolean][] = [
+  ['EMAIL', /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, () => true],
+  ['PROFILE', /\b(?:https?:\/\/)?(?:www\.)?(?:linkedin\.com|github\.com|gitlab\.com|behance\.net|dribbble\.com)\/[^\s),;]+/gi, () => true],
+  // US social security, Indian PAN and Aadhaar, and UK national insurance numbers.
+  ['ID', /\b(?:\d{3}-\d{2}-\d{4}|[A-Z]{5}\d{4}[A-Z]|\d{4}\s\d{4}\s\d{4}|[A-CEGHJ-PR-TW-Z]{2}\s?\d{2}\s?\d{2}\s?\d{2}\s?[A-D])\b/g, () => true],
+  // Date ranges such as "2019 - 2021" also look like digit runs.
+  ['PHONE', /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?)?\d[\d\s.-]{6,14}\d/g, (match) => digitCount(match) >= 10 && digitCount(match) <= 15],
+  [
+    'ADDRESS',
+    /\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace)\b\.?(?:,?\s*(?:Apt|Suite|Unit)\.?\s*[\w-]+)?/g,
+    () => true,
+  ],
+];
+
+const PLACEHOLDER_PATTERN = /\[(?:NAME|EMAIL|PROFILE|ID|PHONE|ADDRESS)_\d+\]/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+export interface Redactor {
+  // Replaces personal details with placeholders such as [EMAIL_1]. Pass the whole resume once so the name can be found.
+  redact: (text: string, options?: { findName?: boolean }) => string;
+  // Puts the original details back into every string inside a value.
+  restore: <T>(value: T) => T;
+  counts: () => Partial<Record<PiiKind, number>>;
+}
+
+export const createRedactor = (): Redactor => {
+  const tokens = new Map<string, string>();
+  const values = new Map<string, string>();
+  const counts: Partial<Record<PiiKind, number>> = {};
+
+  const placeholder = (kind: PiiKind, value: string) => {
+    const key = `${kind}:${value.toLowerCase()}`;
+    const existing = tokens.get(key);
+    if (existing) return existing;
+
+    counts[kind] = (counts[kind] ?? 0) + 1;
+    const token = `[${kind}_${counts[kind]}]`;
+    tokens.set(key, token);
+    values.set(token, value);
+    return token;
+  };
+
+  // Remembered once found, so later snippets of the same resume hide it too.
+  let name: string | null = null;
+
+  const redact = (text: string, { findName = false } = {}) => {
+    let result = text.replace(INVISIBLE_CHARACTERS, '');
+    if (findName) name = parseResume(result).contact.name ?? name;
+
+    for (const [kind, pattern, accept] of PII_PATTERNS) {
+      result = result.replace(pattern, (match) => {
+        const value = match.trim();
+        return accept(value) ? match.replace(value, placeholder(kind, value)) : match;
+      });
+    }
+    if (name) {
+      result = result.replace(new RegExp(`\\b${escapeRegExp(name)}\\b`, 'gi'), (match) => placeholder('NAME', match));
+    }
+    return result;
+  };
+
+  const restore = <T>(value: T): T => {
+    if (typeof value === 'string') {
+      return value.replace(PLACEHOLDER_PATTERN, (token) => values.get(token) ?? token) as T;
+    }
+    if (Array.isArray(value)) return value.map(restore) as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, restore(item)])) as T;
+    }
+    return value;
+  };
+
+  return { redact, restore, counts: () => ({ ...counts }) };
+};
+
+// How many details of each kind a resume would have replaced before it is sent.
+export const countPii = (resumeText: string) => {
+  const redactor = createRedactor();
+  redactor.redact(resumeText, { findName: true });
+  return redactor.counts();
+};
@@ -0,0 +1,53 @@
+const completeAnalysis = {
+  overall_summary:
+    'A solid frontend profile with strong React and TypeScript experience. The resume covers most of the core requirements but lacks evidence of testing practice and cloud deployment experience.',
+  resume_score: 74,
+  ats_compatibility: 'High',
+  resume_length: 'Optimal',
+  readability_score: 68,
+  skills_match: {
+    matched: ['React', 'TypeScript', 'JavaScript', 'Tailwind CSS', 'REST APIs'],
+    missing: ['Jest', 'AWS', 'GraphQL'],
+    match_percentage: 63,
+  },
+  soft_skills_match: {
+    matched: ['Communication', 'Teamwork'],
+    missing: ['Mentoring', 'Stakeholder management'],
+  },
+  technical_proficiency: {
+    strong: ['React', 'TypeScript'],
+    moderate: ['Node.js', 'CSS'],
+    weak_or_missing: ['Testing', 'AWS', 'GraphQL'],
+  },
+  keywords_analysis: {
+    present_keywords: ['frontend', 'React', 'TypeScript', 'responsive design'],
+    missing_keywords: ['unit testing', 'CI/CD', 'accessibility'],
+  },
+  job_requirements_coverage: {
+    met_requirements: ['3+ years of React experience', 'Strong TypeScript skills'],
+    missing_requirements: ['Experience with automated testing', 'Familiarity with AWS'],
+  },
+  tone_of_language: 'Professional',
+  formatting_issues: ['Inconsistent date formats in the experience section'],
+  grammar_issues: ['"Responsible of" should be "responsible for"'],
+  recommendations: [
+    'Add a bullet describing the testing tools you have used and the coverage you achieved.',
+    'Mention any deployments to AWS or another cloud provider.',
+    'Quantify the impact of your frontend work with metrics.',
+  ],
+};
+
+const malformedAnalysis = {
+  ...completeAnalysis,
+  resume_score: '74%',
+  ats_compatibility: 'high',
+  technical_proficiency: undefined,
+};
+
+// Each scenario is a sequence of raw model responses replayed in order.
+export const MOCK_SCENARIOS: Record<string, string[]> = {
+  complete: [JSON.stringify(completeAnalysis)],
+  'needs-repair': [JSON.stringify(malformedAnalysis), JSON.stringify(completeAnalysis)],
+  partial: [JSON.stringify(malformedAnalysis)],
+  invalid: ['I am sorry, I cannot analyze this resume.'],
+};
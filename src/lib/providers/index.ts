@@ -0,0 +1,88 @@
+import { DEFAULT_RUBRIC_WEIGHTS } from '../rubric/presets';
+import { DEFAULT_CONTEXT_TOKENS } from '../tokens';
+import { createMockProvider } from './mock';
+import { MOCK_SCENARIOS } from './fixtures';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import type { LLMProvider, ProviderId, ProviderSettings } from './types';
+
+export type { ChatMessage, CompleteFn, LLMProvider, ProviderId, ProviderSettings } from './types';
+
+export interface ProviderOption {
+  id: ProviderId;
+  label: string;
+  defaultModel: string;
+  suggestedModels: string[];
+  usesBaseUrl: boolean;
+}
+
+export const PROVIDER_OPTIONS: ProviderOption[] = [
+  {
+    id: 'server',
+    label: 'ATSight server (Groq)',
+    defaultModel: 'llama-3.3-70b-versatile',
+    suggestedModels: ['llama-3.3-70b-versatile', 'llama-3.1-8b-instant'],
+    usesBaseUrl: false,
+  },
+  {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible (Ollama, llama.cpp, vLLM)',
+    defaultModel: 'llama3.1',
+    suggestedModels: ['llama3.1', 'qwen2.5', 'mistral'],
+    usesBaseUrl: true,
+  },
+  {
+    id: 'mock',
+    label: 'Mock (fixture responses)',
+    defaultModel: 'complete',
+    suggestedModels: Object.keys(MOCK_SCENARIOS),
+    usesBaseUrl: false,
+  },
+];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'server',
+  model: 'llama-3.3-70b-versatile',
+  temperature: 0.2,
+  timeoutSeconds: 120,
+  contextTokens: DEFAULT_CONTEXT_TOKENS,
+  consensusRuns: 1,
+  consensusModels: [],
+  rubric: DEFAULT_RUBRIC_WEIGHTS,
+  outputLanguage: 'auto',
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+};
+
+const STORAGE_KEY = 'atsight:provider-settings';
+
+export const getProviderOption = (id: ProviderId) =>
+  PROVIDER_OPTIONS.find((option) => option.id === id) ?? PROVIDER_OPTIONS[0];
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    const settings = { ...DEFAULT_PROVIDER_SETTINGS, ...stored };
+    if (!PROVIDER_OPTIONS.some((option) => option.id === settings.provider)) {
+      return DEFAULT_PROVIDER_SETTINGS;
+    }
+    return settings;
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const createProvider = (settings: ProviderSettings): LLMProvider => {
+  switch (settings.provider) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(settings);
+    case 'mock':
+      return createMockProvider(settings);
+    case 'server':
+    default:
+      throw new Error('The server provider is only reachable through /api/analyze');
+  }
+};
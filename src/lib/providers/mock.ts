@@ -0,0 +1,87 @@
+import { sleep } from '../abort';
+import { MOCK_SCENARIOS } from './fixtures';
+import type { LLMProvider, ProviderSettings } from './types';
+
+const STREAM_CHUNK_CHARS = 24;
+const STREAM_CHUNK_DELAY_MS = 20;
+
+const BULLET_LINE = /^\[([\w-]+)\] (.+)$/gm;
+
+// Bullet rewrite prompts get a canned rewrite of every bullet they list.
+const mockRewrites = (prompt: string) =>
+  JSON.stringify({
+    rewrites: [...prompt.matchAll(BULLET_LINE)].map(([, id, text]) => ({
+      id,
+      rewrite: `${text.replace(/\.$/, '')}, improving [metric] by [X%].`,
+    })),
+  });
+
+// Cover letter prompts get a short letter that cites the first few substantial resume lines.
+const mockCoverLetter = (prompt: string) => {
+  const cited = [...prompt.matchAll(BULLET_LINE)]
+    .filter(([, id, text]) => /^L\d+$/.test(id) && text.split(/\s+/).length >= 6)
+    .slice(0, 3)
+    .map(([, id, text]) => ({ text: `${text.replace(/^[-•*]\s*/, '').replace(/\.$/, '')}.`, sources: [id] }));
+  return JSON.stringify({
+    paragraphs: [
+      [{ text: 'Dear Hiring Manager,', sources: [] }],
+      [{ text: 'I am excited to apply for this role.', sources: [] }, ...cited],
+      [{ text: 'Thank you for your consideration.', sources: [] }],
+      [{ text: `Sincerely, ${prompt.includes('[NAME_1]') ? '[NAME_1]' : 'the candidate'}`, sources: [] }],
+    ],
+  });
+};
+
+// Interview prep prompts get one question per gap, with an outline built on the first substantial resume line.
+const mockInterviewPrep = (prompt: string) => {
+  const listed = [...prompt.matchAll(BULLET_LINE)];
+  const source = listed.find(([, id, text]) => /^L\d+$/.test(id) && text.split(/\s+/).length >= 6);
+  return JSON.stringify({
+    questions: listed
+      .filter(([, id]) => /^G\d+$/.test(id))
+      .map(([, id, text]) => {
+        const [kind, label = text] = text.split(': ');
+        return {
+          type: kind === 'Technical skill' ? 'technical' : 'behavioral',
+          question: `Tell me about a time you worked on ${label}.`,
+          gap: id,
+          outline: {
+            situation: source ? source[2] : 'A recent project.',
+            task: `Deliver results that depended on ${label}.`,
+            action: 'Describe the steps you took and what you learned.',
+            result: 'Share the outcome and how you would apply it in this role.',
+          },
+          sources: source ? [source[1]] : [],
+        };
+      }),
+  });
+};
+
+// Replays fixture responses so the app can be developed and tested offline.
+// The model name selects the scenario; the last response of a scenario repeats.
+export const createMockProvider = (settings: ProviderSettings): LLMProvider => {
+  const responses = MOCK_SCENARIOS[settings.model] ?? MOCK_SCENARIOS.complete;
+  let calls = 0;
+
+  return {
+    id: 'mock',
+    model: settings.model,
+    complete: async (messages, { signal, onDelta } = {}) => {
+      const prompt = messages[messages.length - 1]?.content ?? '';
+      const response = prompt.includes('"rewrites"')
+        ? mockRewrites(prompt)
+        : prompt.includes('"paragraphs"')
+          ? mockCoverLetter(prompt)
+          : prompt.includes('"questions"')
+            ? mockInterviewPrep(prompt)
+            : responses[Math.min(calls++, responses.length - 1)];
+
+      // Stream in small chunks so progressive rendering and cancelling can be tried offline.
+      for (let offset = 0; offset < response.length; offset += STREAM_CHUNK_CHARS) {
+        await sleep(STREAM_CHUNK_DELAY_MS, signal);
+        onDelta?.(response.slice(offset, offset + STREAM_CHUNK_CHARS));
+      }
+      return response;
+    },
+  };
+};
@@ -0,0 +1,59 @@
+import { ApiError } from '../api';
+import { readLines } from '../streaming';
+import type { LLMProvider, ProviderSettings } from './types';
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+// Works with any server that implements the OpenAI chat completions API,
+// such as Ollama, the llama.cpp server or vLLM.
+export const createOpenAICompatibleProvider = (settings: ProviderSettings): LLMProvider => {
+  const endpoint = `${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: 'openai-compatible',
+    model: settings.model,
+    complete: async (messages, { signal, onDelta } = {}) => {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: settings.model,
+          messages,
+          temperature: settings.temperature,
+          response_format: { type: 'json_object' },
+          stream: true,
+        }),
+      });
+
+      if (!response.ok || !response.body) {
+        throw new ApiError(`${endpoint} responded with ${response.status} ${response.statusText}`, response.status);
+      }
+
+      let content = '';
+      for await (const line of readLines(response.body)) {
+        // Server-sent events: one "data: {...}" line per chunk, ending with "data: [DONE]".
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') break;
+
+        const chunk: ChatCompletionChunk = JSON.parse(data);
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta?.(delta);
+        }
+      }
+
+      if (!content) {
+        throw new Error(`${endpoint} returned no message content`);
+      }
+      return content;
+    },
+  };
+};
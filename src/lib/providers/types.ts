@@ -0,0 +1,45 @@
+import type { OutputLanguage } from '../i18n/languages';
+import type { RubricWeights } from '../rubric/types';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompleteOptions {
+  signal?: AbortSignal;
+  // Called with each chunk of the response as it streams in.
+  onDelta?: (delta: string) => void;
+}
+
+export type CompleteFn = (messages: ChatMessage[], options?: CompleteOptions) => Promise<string>;
+
+// Providers the browser can call directly. The server provider runs the whole
+// analysis behind /api/analyze so the Groq key never reaches the client.
+export type ProviderId = 'server' | 'openai-compatible' | 'mock';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  temperature: number;
+  // Analyses still running after this many seconds are aborted.
+  timeoutSeconds: number;
+  // Size of the model's context window; longer inputs are analyzed in chunks.
+  contextTokens: number;
+  // Above 1, each analysis runs this many times and the results are combined.
+  consensusRuns: number;
+  // Further models that consensus runs take turns with, after the main model.
+  consensusModels: string[];
+  // Weights of the rubric categories the resume score is computed from.
+  rubric: RubricWeights;
+  // Language the analysis text is written in.
+  outputLanguage: OutputLanguage;
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface LLMProvider {
+  id: string;
+  model: string;
+  complete: CompleteFn;
+}
@@ -0,0 +1,7 @@
+export { ReportImportError, buildJsonReport, parseJsonReport } from './json';
+export { buildMarkdownReport, describeChunking, describeConsensus } from './markdown';
+export { buildPdfReport } from './pdf';
+export type { Report, ReportMetadata } from './types';
+
+// "resume_v2.pdf" becomes "resume_v2-report".
+export const reportFileName = (fileName: string) => `${fileName.replace(/\.[^.]+$/, '') || 'resume'}-report`;
@@ -0,0 +1,150 @@
+import type { ChunkingSummary } from '../analyze';
+import { validateAnalysisResult } from '../analysisSchema';
+import type { SchemaIssue } from '../analysisSchema';
+import { CONSENSUS_SECTIONS, RANGED_SCORES } from '../consensus';
+import type { ConsensusSummary } from '../consensus';
+import type { HiddenText } from '../extraction/hiddenText';
+import type { OcrSummary } from '../extraction/types';
+import { normalizeForHash, sha256 } from '../hash';
+import { isLanguageCode } from '../i18n/languages';
+import type { AnalysisLanguages } from '../i18n/languages';
+import { CATEGORY_SOURCES, RUBRIC_CATEGORIES } from '../rubric/types';
+import type { CategoryScore, ScoreBreakdown } from '../rubric/types';
+import { REPORT_FORMAT, REPORT_VERSION } from './types';
+import type { Report, ReportFile } from './types';
+
+export class ReportImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportImportError';
+  }
+}
+
+export const buildJsonReport = async (report: Report) => {
+  const file: ReportFile = {
+    format: REPORT_FORMAT,
+    version: REPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    jobDescriptionHash: await sha256(normalizeForHash(report.jobDescription)),
+    ...report,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const readString = (value: unknown) => (typeof value === 'string' ? value : '');
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// The optional blocks below only feed extra panels, so one without the expected shape is dropped
+// instead of failing the import or crashing the panel that renders it.
+
+const readIssues = (value: unknown): SchemaIssue[] =>
+  Array.isArray(value)
+    ? value.flatMap((issue) =>
+        isObject(issue) && typeof issue.path === 'string' && typeof issue.message === 'string'
+          ? [{ path: issue.path, message: issue.message }]
+          : [],
+      )
+    : [];
+
+const readOcr = (value: unknown): OcrSummary | null =>
+  isObject(value) && isNumber(value.pages) && isNumber(value.confidence) ? { pages: value.pages, confidence: value.confidence } : null;
+
+const readHiddenText = (value: unknown): HiddenText[] =>
+  Array.isArray(value)
+    ? value.flatMap((item) =>
+        isObject(item) && (item.reason === 'white' || item.reason === 'tiny') && isNumber(item.page) && typeof item.text === 'string'
+          ? [{ reason: item.reason, page: item.page, text: item.text }]
+          : [],
+      )
+    : [];
+
+const readChunking = (value: unknown): ChunkingSummary | undefined => {
+  if (!isObject(value)) return undefined;
+  const { chunks, jobDescriptionCondensed, promptTokens, contextTokens } = value;
+  if (!isNumber(chunks) || typeof jobDescriptionCondensed !== 'boolean' || !isNumber(promptTokens) || !isNumber(contextTokens)) {
+    return undefined;
+  }
+  return { chunks, jobDescriptionCondensed, promptTokens, contextTokens };
+};
+
+const readConsensus = (value: unknown): ConsensusSummary | undefined => {
+  if (!isObject(value) || !Array.isArray(value.models) || !isObject(value.ranges) || !isObject(value.agreement)) return undefined;
+  const { models, ranges, agreement } = value;
+  const validRanges = RANGED_SCORES.every((score) => {
+    const range = ranges[score];
+    return isObject(range) && isNumber(range.median) && isNumber(range.min) && isNumber(range.max);
+  });
+  if (!models.every((model) => typeof model === 'string') || !validRanges) return undefined;
+  if (!CONSENSUS_SECTIONS.every((section) => isNumber(agreement[section]))) return undefined;
+  return value as unknown as ConsensusSummary;
+};
+
+const isCategoryScore = (value: unknown): value is CategoryScore =>
+  isObject(value) &&
+  RUBRIC_CATEGORIES.includes(value.category as CategoryScore['category']) &&
+  isNumber(value.score) &&
+  CATEGORY_SOURCES.includes(value.source as CategoryScore['source']) &&
+  typeof value.detail === 'string';
+
+const readBreakdown = (value: unknown): ScoreBreakdown | undefined => {
+  if (!isObject(value) || !isObject(value.weights) || !Array.isArray(value.categories)) return undefined;
+  const { weights, categories, total, modelScore } = value;
+  if (!RUBRIC_CATEGORIES.every((category) => isNumber(weights[category]))) return undefined;
+  if (!categories.length || !categories.every(isCategoryScore) || !isNumber(total) || !isNumber(modelScore)) return undefined;
+  return value as unknown as ScoreBreakdown;
+};
+
+const readLanguages = (value: unknown): AnalysisLanguages | undefined =>
+  isObject(value) && isLanguageCode(value.resume) && isLanguageCode(value.jobDescription) && isLanguageCode(value.output)
+    ? { resume: value.resume, jobDescription: value.jobDescription, output: value.output }
+    : undefined;
+
+export const parseJsonReport = (content: string): Report => {
+  let raw: Partial<ReportFile>;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new ReportImportError('This file is not valid JSON.');
+  }
+
+  if (raw?.format !== REPORT_FORMAT) {
+    throw new ReportImportError('This file is not an ATSight report.');
+  }
+  if (typeof raw.version !== 'number' || raw.version > REPORT_VERSION) {
+    throw new ReportImportError('This report was exported by a newer version of ATSight.');
+  }
+
+  // Reports may have been edited by hand, so the result goes through the same checks as a model response.
+  const validation = validateAnalysisResult(raw.result);
+  if (validation.issues.some((issue) => issue.path === '$')) {
+    throw new ReportImportError('This report does not contain an analysis.');
+  }
+
+  const metadata = raw.metadata ?? ({} as Partial<Report['metadata']>);
+  return {
+    metadata: {
+      fileName: readString(metadata.fileName) || 'Imported report',
+      provider: readString(metadata.provider),
+      model: readString(metadata.model),
+      analyzedAt: typeof metadata.analyzedAt === 'number' ? metadata.analyzedAt : Date.parse(readString(raw.exportedAt)) || Date.now(),
+    },
+    resumeText: readString(raw.resumeText),
+    jobDescription: readString(raw.jobDescription),
+    result: validation.value,
+    // Validation re-reports the gaps of a partial result, so keep one issue per path.
+    issues: [...readIssues(raw.issues), ...validation.issues].filter(
+      (issue, index, all) => all.findIndex((other) => other.path === issue.path) === index,
+    ),
+    ocr: readOcr(raw.ocr),
+    hiddenText: readHiddenText(raw.hiddenText),
+    chunking: readChunking(raw.chunking),
+    consensus: readConsensus(raw.consensus),
+    breakdown: readBreakdown(raw.breakdown),
+    languages: readLanguages(raw.languages),
+  };
+};
@@ -0,0 +1,110 @@
+import type { ChunkingSummary } from '../analyze';
+import { agreementLevel } from '../consensus';
+import type { ConsensusSummary } from '../consensus';
+import { describeLanguages, t } from '../i18n';
+import { screenResume } from '../privacy';
+import { categoryContribution } from '../rubric/score';
+import type { ScoreBreakdown } from '../rubric/types';
+import { formatTokens } from '../tokens';
+import type { Report } from './types';
+
+const list = (items: string[]) => (items.length > 0 ? items.map((item) => `- ${item}`).join('\n') : '_None_');
+
+export const describeChunking = ({ chunks, jobDescriptionCondensed, promptTokens, contextTokens }: ChunkingSummary) =>
+  [
+    `The inputs needed about ${formatTokens(promptTokens)}, more than fits in a ${formatTokens(contextTokens)} context window.`,
+    chunks > 1 && `The resume was analyzed in ${chunks} parts and the results merged.`,
+    jobDescriptionCondensed && 'The job description was condensed to its requirements.',
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+// With a rubric breakdown the headline score is weighted locally, so the runs' range is the models' own scores.
+export const describeConsensus = ({ models, ranges }: ConsensusSummary, weighted = false) =>
+  `Combined from ${models.length} runs (${[...new Set(models)].join(', ')}). ${weighted ? "The models' own resume scores" : 'Resume score'} ranged ${ranges.resume_score.min}–${ranges.resume_score.max}%, readability ${ranges.readability_score.min}–${ranges.readability_score.max}% and skills match ${ranges.match_percentage.min}–${ranges.match_percentage.max}%.`;
+
+const describeBreakdown = (breakdown: ScoreBreakdown) =>
+  [
+    '| Category | Score | Weight | Points | Basis |',
+    '| --- | --- | --- | --- | --- |',
+    ...breakdown.categories.map(
+      (category) =>
+        `| ${t(`rubric.${category.category}`)} | ${category.score}% | ${breakdown.weights[category.category]} | ${categoryContribution(category, breakdown.weights).toFixed(1)} | ${category.detail} |`,
+    ),
+    '',
+    `The model's own estimate was ${breakdown.modelScore}%.`,
+  ].join('\n');
+
+const section = (title: string, body: string) => `## ${title}\n\n${body}`;
+
+export const buildMarkdownReport = ({
+  metadata,
+  resumeText,
+  result,
+  ocr,
+  issues,
+  hiddenText,
+  chunking,
+  consensus,
+  breakdown,
+  languages,
+}: Report) => {
+  const findings = screenResume(resumeText, hiddenText);
+  const parts = [
+    `# Resume Analysis: ${metadata.fileName}`,
+    [
+      `- **Analyzed:** ${new Date(metadata.analyzedAt).toLocaleString()}`,
+      metadata.model && `- **Model:** ${metadata.model}`,
+      `- **Resume score:** ${result.resume_score}%`,
+      `- **ATS compatibility:** ${result.ats_compatibility}`,
+      `- **Readability:** ${result.readability_score}%`,
+      `- **Skills match:** ${result.skills_match.match_percentage}%`,
+      `- **Length:** ${result.resume_length}`,
+      `- **Tone:** ${result.tone_of_language}`,
+      languages && `- **Languages:** ${describeLanguages(languages)}`,
+    ]
+      .filter(Boolean)
+      .join('\n'),
+    ocr &&
+      `> **Note:** this resume has no selectable text and was read with OCR (${ocr.pages} pages, ${ocr.confidence}% confidence). Most ATSs would see an empty document.`,
+    issues.length > 0 && `> **Note:** this analysis is incomplete. ${issues.length} ${issues.length === 1 ? 'field' : 'fields'} could not be read from the model's response.`,
+    chunking && `> **Note:** ${describeChunking(chunking)}`,
+    consensus && `> **Note:** ${describeConsensus(consensus, Boolean(breakdown))}`,
+    consensus &&
+      section(
+        'Agreement Between Runs',
+        list(Object.entries(consensus.agreement).map(([name, agreement]) => `${name.replace('_', ' ')}: ${agreementLevel(agreement)} (${Math.round(agreement * 100)}%)`)),
+      ),
+    findings.length > 0 &&
+      section('Integrity Warnings', list(findings.map((finding) => (finding.excerpt ? `${finding.message}: "${finding.excerpt}"` : finding.message)))),
+    section('Summary', result.overall_summary),
+    breakdown && section('Score Breakdown', describeBreakdown(breakdown)),
+    section('Matched Skills', list(result.skills_match.matched)),
+    section('Missing Skills', list(result.skills_match.missing)),
+    section(
+      'Technical Proficiency',
+      [
+        `**Strong**\n\n${list(result.technical_proficiency.strong)}`,
+        `**Moderate**\n\n${list(result.technical_proficiency.moderate)}`,
+        `**Areas for improvement**\n\n${list(result.technical_proficiency.weak_or_missing)}`,
+      ].join('\n\n'),
+    ),
+    section(
+      'Keywords',
+      `**Present**\n\n${list(result.keywords_analysis.present_keywords)}\n\n**Missing**\n\n${list(result.keywords_analysis.missing_keywords)}`,
+    ),
+    section(
+      'Job Requirements',
+      `**Met**\n\n${list(result.job_requirements_coverage.met_requirements)}\n\n**Missing**\n\n${list(result.job_requirements_coverage.missing_requirements)}`,
+    ),
+    section(
+      'Soft Skills',
+      `**Present**\n\n${list(result.soft_skills_match.matched)}\n\n**Missing**\n\n${list(result.soft_skills_match.missing)}`,
+    ),
+    section('Formatting Issues', list(result.formatting_issues)),
+    section('Grammar Issues', list(result.grammar_issues)),
+    section('Recommendations', list(result.recommendations)),
+  ];
+
+  return `${parts.filter(Boolean).join('\n\n')}\n`;
+};
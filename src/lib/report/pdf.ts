@@ -0,0 +1,25 @@
+const PAGE_MARGIN_MM = 10;
+
+// Renders the on-screen report, charts included, into an A4 PDF sliced across as many pages as needed.
+export const buildPdfReport = async (element: HTMLElement) => {
+  const [{ default: html2canvas }, { jsPDF }] = await Promise.all([import('html2canvas'), import('jspdf')]);
+
+  const canvas = await html2canvas(element, { scale: 2, backgroundColor: '#f9fafb', useCORS: true });
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth() - PAGE_MARGIN_MM * 2;
+  const pageHeight = pdf.internal.pageSize.getHeight() - PAGE_MARGIN_MM * 2;
+  const pixelsPerPage = Math.floor((canvas.width * pageHeight) / pageWidth);
+
+  const slice = document.createElement('canvas');
+  slice.width = canvas.width;
+  for (let offset = 0; offset < canvas.height; offset += pixelsPerPage) {
+    const height = Math.min(pixelsPerPage, canvas.height - offset);
+    slice.height = height;
+    slice.getContext('2d')?.drawImage(canvas, 0, offset, canvas.width, height, 0, 0, canvas.width, height);
+
+    if (offset > 0) pdf.addPage();
+    pdf.addImage(slice.toDataURL('image/png'), 'PNG', PAGE_MARGIN_MM, PAGE_MARGIN_MM, pageWidth, (height * pageWidth) / canvas.width);
+  }
+
+  return pdf.output('blob');
+};
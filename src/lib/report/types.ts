@@ -0,0 +1,39 @@
+import type { ChunkingSummary } from '../analyze';
+import type { SchemaIssue } from '../analysisSchema';
+import type { ConsensusSummary } from '../consensus';
+import type { HiddenText } from '../extraction/hiddenText';
+import type { OcrSummary } from '../extraction/types';
+import type { AnalysisLanguages } from '../i18n/languages';
+import type { ScoreBreakdown } from '../rubric/types';
+import type { AnalysisResult } from '../../types';
+
+export interface ReportMetadata {
+  fileName: string;
+  provider: string;
+  model: string;
+  analyzedAt: number;
+}
+
+export interface Report {
+  metadata: ReportMetadata;
+  resumeText: string;
+  jobDescription: string;
+  result: AnalysisResult;
+  issues: SchemaIssue[];
+  ocr: OcrSummary | null;
+  hiddenText?: HiddenText[];
+  chunking?: ChunkingSummary;
+  consensus?: ConsensusSummary;
+  breakdown?: ScoreBreakdown;
+  languages?: AnalysisLanguages;
+}
+
+export const REPORT_FORMAT = 'atsight-report';
+export const REPORT_VERSION = 1;
+
+export interface ReportFile extends Report {
+  format: typeof REPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  jobDescriptionHash: string;
+}
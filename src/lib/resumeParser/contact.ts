@@ -0,0 +1,44 @@
+import type { ContactInfo } from './types';
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?)?\d[\d\s.-]{6,14}\d/g;
+const LINK_PATTERN = /\b(?:https?:\/\/\S+|(?:www\.)?(?:linkedin\.com|github\.com|gitlab\.com|behance\.net|dribbble\.com)\/\S+)/gi;
+const LOCATION_PATTERN = /^(?:[A-Z][a-zA-Z.'-]+(?:\s[A-Z][a-zA-Z.'-]+)*,\s*(?:[A-Z]{2}|[A-Z][a-zA-Z]+(?:\s[A-Z][a-zA-Z]+)*)|Remote)$/;
+
+const digitCount = (value: string) => value.replace(/\D/g, '').length;
+
+const findPhone = (text: string) =>
+  (text.match(PHONE_PATTERN) ?? [])
+    .map((match) => match.trim())
+    // Date ranges such as "2019 - 2021" also look like digit runs.
+    .find((match) => digitCount(match) >= 10 && digitCount(match) <= 15) ?? null;
+
+const isName = (line: string) =>
+  !/[@\d/:|]/.test(line) &&
+  /^[A-Z][a-zA-Z'.-]*(?:\s+[A-Z][a-zA-Z'.-]*){1,3}$/.test(line.trim());
+
+export const parseContact = (header: string[], fullText: string): { contact: ContactInfo; used: Set<string> } => {
+  const used = new Set<string>();
+  const segments = header.flatMap((line) => line.split(/\s*[|•·]\s*/)).filter(Boolean);
+
+  const name = header.find(isName) ?? null;
+  if (name) used.add(name);
+
+  const location = segments.find((segment) => LOCATION_PATTERN.test(segment)) ?? null;
+  const email = (header.join(' ').match(EMAIL_PATTERN) ?? fullText.match(EMAIL_PATTERN))?.[0] ?? null;
+  const phone = findPhone(header.join(' ')) ?? findPhone(fullText);
+  const links = [...new Set(fullText.match(LINK_PATTERN) ?? [])].map((link) => link.replace(/[),.;]+$/, ''));
+
+  // Header lines made up only of contact details are fully accounted for.
+  for (const line of header) {
+    const remainder = line
+      .replace(EMAIL_PATTERN, '')
+      .replace(LINK_PATTERN, '')
+      .replace(PHONE_PATTERN, (match) => (digitCount(match) >= 10 ? '' : match))
+      .replace(location ?? '\u0000', '')
+      .replace(/[|•·,\s]+/g, '');
+    if (!remainder) used.add(line);
+  }
+
+  return { contact: { name, email, phone, location, links }, used };
+};
@@ -0,0 +1,55 @@
+import type { ResumeDate } from './types';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const MONTH_NAME = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DATE = `(?:${MONTH_NAME}\\s*'?\\d{2,4}|\\d{1,2}\\s*[/.-]\\s*\\d{4}|\\d{4})`;
+const PRESENT = '(?:present|current|now|today|ongoing)';
+
+export const DATE_RANGE_PATTERN = new RegExp(`(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE}|${PRESENT})`, 'i');
+export const SINGLE_DATE_PATTERN = new RegExp(`\\b${DATE}\\b`, 'i');
+
+const expandYear = (year: number) => (year < 100 ? (year > 50 ? 1900 + year : 2000 + year) : year);
+
+export const parseDate = (value: string): ResumeDate | null => {
+  const text = value.trim().toLowerCase();
+
+  const named = text.match(new RegExp(`^(${MONTH_NAME})\\s*'?(\\d{2,4})$`, 'i'));
+  if (named) {
+    return { year: expandYear(Number(named[2])), month: MONTHS.indexOf(named[1].slice(0, 3)) + 1 };
+  }
+
+  const numeric = text.match(/^(\d{1,2})\s*[/.-]\s*(\d{4})$/);
+  if (numeric && Number(numeric[1]) >= 1 && Number(numeric[1]) <= 12) {
+    return { year: Number(numeric[2]), month: Number(numeric[1]) };
+  }
+
+  const year = text.match(/^(\d{4})$/);
+  if (year) {
+    return { year: Number(year[1]), month: null };
+  }
+  return null;
+};
+
+export const isPresent = (value: string) => new RegExp(`^${PRESENT}$`, 'i').test(value.trim());
+
+export const toDate = (now: Date): ResumeDate => ({ year: now.getFullYear(), month: now.getMonth() + 1 });
+
+// Month index used for interval arithmetic. Year-only starts count from January
+// and year-only ends from December, which gives candidates the benefit of the doubt.
+export const monthIndex = (date: ResumeDate, edge: 'start' | 'end') =>
+  date.year * 12 + (date.month ?? (edge === 'start' ? 1 : 12)) - 1;
+
+export const formatDate = (date: ResumeDate) =>
+  date.month ? `${MONTHS[date.month - 1].replace(/^./, (c) => c.toUpperCase())} ${date.year}` : String(date.year);
+
+export const fromMonthIndex = (index: number): ResumeDate => ({ year: Math.floor(index / 12), month: (index % 12) + 1 });
+
+export const formatMonths = (months: number) => {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  const parts = [];
+  if (years) parts.push(`${years} ${years === 1 ? 'year' : 'years'}`);
+  if (rest || !years) parts.push(`${rest} ${rest === 1 ? 'month' : 'months'}`);
+  return parts.join(' ');
+};
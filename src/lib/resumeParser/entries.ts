@@ -0,0 +1,176 @@
+import { DATE_RANGE_PATTERN, SINGLE_DATE_PATTERN, isPresent, parseDate } from './dates';
+import type { EducationEntry, ExperienceEntry, ParseIssue } from './types';
+
+const BULLET_PATTERN = /^[•●▪■◦‣∙·*–-]\s*/;
+const TITLE_WORDS = /\b(?:engineer|developer|programmer|manager|analyst|intern|designer|lead|director|consultant|specialist|scientist|architect|administrator|coordinator|associate|assistant|officer|head|vp|president|founder|co-founder|owner|technician|researcher|teacher|instructor|editor|writer|accountant|representative|executive|strategist|product owner|scrum master)\b/i;
+const INSTITUTION_WORDS = /\b(?:university|college|institute|school|academy|polytechnic|universit[äa]t|école)\b/i;
+export const DEGREE_WORDS = /\b(?:bachelor(?:'s)?|master(?:'s)?|ph\.?\s?d|doctor(?:ate)?|associate(?:'s)? degree|diploma|b\.?\s?sc?|m\.?\s?sc?|b\.a\.|m\.a\.|mba|b\.?\s?tech|m\.?\s?tech|b\.e\.|m\.e\.|b\.?\s?eng|m\.?\s?eng|high school|ged)\b/i;
+
+export const stripBullet = (line: string) => line.replace(BULLET_PATTERN, '').trim();
+
+const isBullet = (line: string) => BULLET_PATTERN.test(line) || line.length > 80 || /\.$/.test(line);
+
+const splitHeader = (parts: string[]) =>
+  parts
+    .flatMap((part) => part.split(/\s+(?:at|@)\s+|\s*[|•·–—,]\s*|\s+-\s+/i))
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+
+const assignHeader = (entry: ExperienceEntry, parts: string[]) => {
+  const segments = splitHeader(parts);
+  if (!segments.length) return;
+
+  const titleIndex = segments.findIndex((segment) => TITLE_WORDS.test(segment));
+  if (titleIndex === -1) {
+    entry.title = segments[0];
+    entry.company = segments[1] ?? null;
+    return;
+  }
+  entry.title = segments[titleIndex];
+  entry.company = segments.find((_, index) => index !== titleIndex) ?? null;
+};
+
+const emptyEntry = (): ExperienceEntry => ({
+  title: null,
+  company: null,
+  startDate: null,
+  endDate: null,
+  current: false,
+  bullets: [],
+});
+
+export const parseExperience = (lines: string[], issues: ParseIssue[]): ExperienceEntry[] => {
+  const entries: ExperienceEntry[] = [];
+  let pending: string[] = [];
+  let current: ExperienceEntry | null = null;
+
+  const appendToLastBullet = (line: string) => {
+    if (current && current.bullets.length) {
+      current.bullets[current.bullets.length - 1] += ` ${line}`;
+      return true;
+    }
+    return false;
+  };
+
+  const flushPending = () => {
+    if (!pending.length) return;
+    if (current && !current.title && !current.company) {
+      // Dates came first and the title and company follow on their own lines.
+      assignHeader(current, pending);
+    } else {
+      current = emptyEntry();
+      assignHeader(current, pending);
+      entries.push(current);
+    }
+    pending = [];
+  };
+
+  for (const line of lines) {
+    const range = line.match(DATE_RANGE_PATTERN);
+
+    if (range) {
+      current = emptyEntry();
+      current.startDate = parseDate(range[1]);
+      current.current = isPresent(range[2]);
+      current.endDate = current.current ? null : parseDate(range[2]);
+
+      const rest = line.replace(range[0], '').replace(/^[\s|,–—()-]+|[\s|,–—()-]+$/g, '');
+      assignHeader(current, [...pending, rest].filter(Boolean));
+      pending = [];
+      entries.push(current);
+    } else if (isBullet(line)) {
+      flushPending();
+      if (!current) {
+        current = emptyEntry();
+        entries.push(current);
+      }
+      current.bullets.push(stripBullet(line));
+    } else if (!(/^[a-z]/.test(line) && !pending.length && appendToLastBullet(line))) {
+      pending.push(line);
+    }
+  }
+
+  if (pending.length) {
+    if (current && (current.title || current.company)) {
+      current.bullets.push(...pending.map(stripBullet));
+    } else {
+      flushPending();
+    }
+  }
+
+  for (const entry of entries) {
+    const label = [entry.title, entry.company].filter(Boolean).join(' at ') || entry.bullets[0] || 'Untitled entry';
+    if (!entry.startDate) {
+      issues.push({ section: 'experience', message: 'No employment dates detected for this position', text: label });
+    }
+    if (!entry.title || !entry.company) {
+      issues.push({ section: 'experience', message: 'Could not tell the job title and company apart', text: label });
+    }
+  }
+  return entries;
+};
+
+const findYear = (line: string) => {
+  const range = line.match(DATE_RANGE_PATTERN);
+  if (range) return isPresent(range[2]) ? null : parseDate(range[2]);
+
+  const single = line.match(SINGLE_DATE_PATTERN);
+  return single ? parseDate(single[0]) : null;
+};
+
+export const parseEducation = (lines: string[], issues: ParseIssue[]): EducationEntry[] => {
+  const entries: EducationEntry[] = [];
+  let current: EducationEntry | null = null;
+
+  for (const raw of lines) {
+    const line = stripBullet(raw);
+    const hasInstitution = INSTITUTION_WORDS.test(line);
+    const hasDegree = DEGREE_WORDS.test(line);
+    const date = findYear(line);
+    const text = line.replace(DATE_RANGE_PATTERN, '').replace(SINGLE_DATE_PATTERN, '').replace(/[\s|,–—()-]+$/g, '').trim();
+
+    const startsEntry =
+      !current ||
+      (hasInstitution && current.institution !== null) ||
+      (hasDegree && !hasInstitution && current.degree !== null);
+
+    if (startsEntry && (hasInstitution || hasDegree || !current)) {
+      current = { institution: null, degree: null, graduationDate: null, details: [] };
+      entries.push(current);
+    }
+    if (!current) continue;
+
+    if (hasInstitution && !current.institution) {
+      const [institution, ...rest] = text.split(/\s*[|,–—]\s*|\s+-\s+/);
+      current.institution = institution;
+      if (hasDegree && !current.degree) current.degree = rest.find((part) => DEGREE_WORDS.test(part)) ?? text;
+    } else if (hasDegree && !current.degree) {
+      current.degree = text;
+    } else if (text) {
+      current.details.push(text);
+    }
+    if (date && !current.graduationDate) current.graduationDate = date;
+  }
+
+  for (const entry of entries) {
+    if (!entry.degree) {
+      issues.push({ section: 'education', message: 'No degree detected', text: entry.institution ?? entry.details[0] });
+    }
+  }
+  return entries;
+};
+
+export const parseList = (lines: string[]) => {
+  const seen = new Set<string>();
+  return lines
+    .map(stripBullet)
+    // Drop category labels such as "Languages:" in "Languages: Python, Go".
+    .flatMap((line) => line.replace(/^[^:,]{1,30}:\s*/, '').split(/\s*[,;•|·]\s*|\s{2,}/))
+    .map((item) => item.trim().replace(/\.$/, ''))
+    .filter((item) => {
+      const key = item.toLowerCase();
+      if (!item || item.length > 40 || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
@@ -0,0 +1,68 @@
+import { parseContact } from './contact';
+import { parseEducation, parseExperience, parseList, stripBullet } from './entries';
+import { SECTION_LABELS, splitSections } from './sections';
+import { analyzeTimeline } from './timeline';
+import type { ParseIssue, ParsedResume, ResumeSection } from './types';
+
+export { SECTION_LABELS, splitSections } from './sections';
+export type { SectionBlock, SplitResume } from './sections';
+export { formatDate, formatMonths } from './dates';
+export type * from './types';
+
+const REQUIRED_SECTIONS: ResumeSection[] = ['experience', 'education', 'skills'];
+
+export const parseResume = (text: string, now = new Date()): ParsedResume => {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  const issues: ParseIssue[] = [];
+  const { header, blocks } = splitSections(lines);
+  const { contact, used } = parseContact(header, text);
+
+  const linesFor = (section: ResumeSection) =>
+    blocks.filter((block) => block.section === section).flatMap((block) => block.lines);
+
+  const experience = parseExperience(linesFor('experience'), issues);
+  const education = parseEducation(linesFor('education'), issues);
+  const certifications = linesFor('certifications').map(stripBullet).filter(Boolean);
+  const skills = parseList(linesFor('skills'));
+  const sectionsFound = [...new Set(blocks.map((block) => block.section))];
+
+  // Unlabelled prose under the name is usually the summary.
+  const leftover = header.filter((line) => !used.has(line));
+  let summary = linesFor('summary').join(' ') || null;
+  if (!summary && leftover.length) {
+    summary = leftover.join(' ');
+  } else if (leftover.length) {
+    issues.push({ section: 'layout', message: 'Text above the first section heading was not recognised', text: leftover.join(' ') });
+  }
+
+  if (!blocks.length) {
+    issues.push({ section: 'layout', message: 'No section headings were recognised, so the resume could not be split into sections' });
+  }
+  for (const section of REQUIRED_SECTIONS) {
+    if (!sectionsFound.includes(section)) {
+      issues.push({ section, message: `No ${SECTION_LABELS[section]} section heading was recognised` });
+    }
+  }
+  if (!contact.name) issues.push({ section: 'contact', message: 'No name detected at the top of the resume' });
+  if (!contact.email) issues.push({ section: 'contact', message: 'No email address detected' });
+  if (!contact.phone) issues.push({ section: 'contact', message: 'No phone number detected' });
+
+  const timeline = analyzeTimeline(experience, now);
+
+  return {
+    contact,
+    summary,
+    experience,
+    education,
+    certifications,
+    skills,
+    sectionsFound,
+    totalExperienceMonths: timeline.totalMonths,
+    gaps: timeline.gaps,
+    issues,
+  };
+};
@@ -0,0 +1,96 @@
+import type { ResumeSection } from './types';
+
+const SECTION_HEADINGS: Record<ResumeSection, string[]> = {
+  summary: ['summary', 'professional summary', 'career summary', 'profile', 'professional profile', 'objective', 'career objective', 'about', 'about me'],
+  experience: [
+    'experience', 'work experience', 'professional experience', 'relevant experience', 'employment',
+    'employment history', 'work history', 'career history',
+  ],
+  education: ['education', 'academic background', 'education and training', 'academics', 'academic qualifications'],
+  certifications: [
+    'certifications', 'certification', 'certificates', 'licenses', 'licenses and certifications',
+    'certifications and licenses', 'courses and certifications',
+  ],
+  skills: [
+    'skills', 'technical skills', 'key skills', 'core skills', 'core competencies', 'competencies', 'technologies',
+    'tools', 'skills and tools', 'tools and technologies', 'areas of expertise', 'expertise',
+  ],
+  projects: ['projects', 'personal projects', 'selected projects', 'key projects', 'academic projects'],
+  other: [
+    'awards', 'honors', 'honors and awards', 'awards and honors', 'publications', 'languages', 'interests', 'hobbies',
+    'volunteer', 'volunteering', 'volunteer experience', 'references', 'achievements', 'activities', 'leadership',
+  ],
+};
+
+export const SECTION_LABELS: Record<ResumeSection, string> = {
+  summary: 'Summary',
+  experience: 'Experience',
+  education: 'Education',
+  certifications: 'Certifications',
+  skills: 'Skills',
+  projects: 'Projects',
+  other: 'Other',
+};
+
+const HEADING_LOOKUP = new Map(
+  Object.entries(SECTION_HEADINGS).flatMap(([section, headings]) =>
+    headings.map((heading) => [heading, section as ResumeSection] as const),
+  ),
+);
+
+const normalizeHeading = (line: string) =>
+  line
+    .toLowerCase()
+    .replace(/&/g, 'and')
+    .replace(/[^a-z ]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export interface SectionBlock {
+  section: ResumeSection;
+  // The heading line as written in the resume.
+  heading: string;
+  lines: string[];
+}
+
+export interface SplitResume {
+  // Lines before the first recognised heading, usually the contact block.
+  header: string[];
+  blocks: SectionBlock[];
+}
+
+const matchHeading = (
+  line: string,
+  current: ResumeSection | null,
+): { section: ResumeSection; heading: string; rest: string } | null => {
+  if (line.length > 60) return null;
+
+  const exact = HEADING_LOOKUP.get(normalizeHeading(line));
+  if (exact) return { section: exact, heading: line, rest: '' };
+
+  // Inline headings such as "Skills: Python, SQL". Inside the skills section
+  // the same shape is a category label like "Languages: Python, Go".
+  const colon = line.indexOf(':');
+  if (colon > 0 && current !== 'skills') {
+    const inline = HEADING_LOOKUP.get(normalizeHeading(line.slice(0, colon)));
+    if (inline) return { section: inline, heading: line.slice(0, colon + 1), rest: line.slice(colon + 1).trim() };
+  }
+  return null;
+};
+
+export const splitSections = (lines: string[]): SplitResume => {
+  const header: string[] = [];
+  const blocks: SectionBlock[] = [];
+
+  for (const line of lines) {
+    const heading = matchHeading(line, blocks.length ? blocks[blocks.length - 1].section : null);
+    if (heading) {
+      blocks.push({ section: heading.section, heading: heading.heading, lines: heading.rest ? [heading.rest] : [] });
+    } else if (blocks.length) {
+      blocks[blocks.length - 1].lines.push(line);
+    } else {
+      header.push(line);
+    }
+  }
+  return { header, blocks };
+};
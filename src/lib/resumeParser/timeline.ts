@@ -0,0 +1,41 @@
+import { fromMonthIndex, monthIndex, toDate } from './dates';
+import type { ExperienceEntry, TimelineGap } from './types';
+
+// Shorter breaks between roles are normal and not reported.
+export const GAP_THRESHOLD_MONTHS = 3;
+
+export const analyzeTimeline = (entries: ExperienceEntry[], now: Date) => {
+  const intervals = entries
+    .filter((entry) => entry.startDate)
+    .map((entry) => {
+      const start = monthIndex(entry.startDate!, 'start');
+      const end = entry.current
+        ? monthIndex(toDate(now), 'end')
+        : monthIndex(entry.endDate ?? entry.startDate!, 'end');
+      return [start, end] as const;
+    })
+    .filter(([start, end]) => end >= start)
+    .sort((a, b) => a[0] - b[0]);
+
+  // Overlapping roles are merged so concurrent jobs are not counted twice.
+  const merged: [number, number][] = [];
+  for (const [start, end] of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  const totalMonths = merged.reduce((total, [start, end]) => total + end - start + 1, 0);
+  const gaps: TimelineGap[] = [];
+  for (let i = 1; i < merged.length; i++) {
+    const months = merged[i][0] - merged[i - 1][1] - 1;
+    if (months >= GAP_THRESHOLD_MONTHS) {
+      gaps.push({ from: fromMonthIndex(merged[i - 1][1]), to: fromMonthIndex(merged[i][0]), months });
+    }
+  }
+
+  return { totalMonths, gaps };
+};
@@ -0,0 +1,64 @@
+export type ResumeSection =
+  | 'summary'
+  | 'experience'
+  | 'education'
+  | 'certifications'
+  | 'skills'
+  | 'projects'
+  | 'other';
+
+export interface ResumeDate {
+  year: number;
+  // 1-12, or null when only the year is given.
+  month: number | null;
+}
+
+export interface ContactInfo {
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  location: string | null;
+  links: string[];
+}
+
+export interface ExperienceEntry {
+  title: string | null;
+  company: string | null;
+  startDate: ResumeDate | null;
+  endDate: ResumeDate | null;
+  current: boolean;
+  bullets: string[];
+}
+
+export interface EducationEntry {
+  institution: string | null;
+  degree: string | null;
+  graduationDate: ResumeDate | null;
+  details: string[];
+}
+
+export interface TimelineGap {
+  from: ResumeDate;
+  to: ResumeDate;
+  months: number;
+}
+
+export interface ParseIssue {
+  section: ResumeSection | 'contact' | 'layout';
+  message: string;
+  // The source text the issue refers to, when there is one.
+  text?: string;
+}
+
+export interface ParsedResume {
+  contact: ContactInfo;
+  summary: string | null;
+  experience: ExperienceEntry[];
+  education: EducationEntry[];
+  certifications: string[];
+  skills: string[];
+  sectionsFound: ResumeSection[];
+  totalExperienceMonths: number;
+  gaps: TimelineGap[];
+  issues: ParseIssue[];
+}
@@ -0,0 +1,51 @@
+import type { ParsedResume } from '../resumeParser';
+
+export type WeaknessReason = 'weak-opening' | 'no-metrics' | 'too-short' | 'too-long' | 'no-target-terms';
+
+export interface ResumeBullet {
+  id: string;
+  text: string;
+  // "Title at Company" of the position the bullet belongs to.
+  role: string;
+  reasons: WeaknessReason[];
+}
+
+const WEAK_OPENINGS = /^(?:responsible for|helped|assisted|worked on|worked with|involved in|participated in|tasked with|duties included|in charge of|handled|did)\b/i;
+const METRIC_PATTERN = /\d|%|\$|€|£/;
+const MIN_WORDS = 8;
+const MAX_WORDS = 40;
+
+// Bullets with several weaknesses are rewritten first.
+export const MAX_REWRITE_BULLETS = 12;
+
+export const assessBullet = (text: string, targetTerms: string[]): WeaknessReason[] => {
+  const reasons: WeaknessReason[] = [];
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const lower = text.toLowerCase();
+
+  if (WEAK_OPENINGS.test(text)) reasons.push('weak-opening');
+  if (!METRIC_PATTERN.test(text)) reasons.push('no-metrics');
+  if (words < MIN_WORDS) reasons.push('too-short');
+  if (words > MAX_WORDS) reasons.push('too-long');
+  if (targetTerms.length > 0 && !targetTerms.some((term) => lower.includes(term.toLowerCase()))) {
+    reasons.push('no-target-terms');
+  }
+  return reasons;
+};
+
+export const findWeakBullets = (parsed: ParsedResume, targetTerms: string[]): ResumeBullet[] => {
+  const bullets = parsed.experience.flatMap((entry, entryIndex) =>
+    entry.bullets.map((text, bulletIndex) => ({
+      id: `b${entryIndex + 1}-${bulletIndex + 1}`,
+      text,
+      role: [entry.title, entry.company].filter(Boolean).join(' at ') || 'Experience',
+      reasons: assessBullet(text, targetTerms),
+    })),
+  );
+
+  // A bullet that only lacks the missing keywords is not weak in itself.
+  return bullets
+    .filter((bullet) => bullet.reasons.some((reason) => reason !== 'no-target-terms'))
+    .sort((a, b) => b.reasons.length - a.reasons.length)
+    .slice(0, MAX_REWRITE_BULLETS);
+};
@@ -0,0 +1,66 @@
+import { parseJsonResponse } from '../analysisSchema';
+import { buildRewritePrompt } from '../prompt';
+import type { CompleteFn } from '../providers/types';
+
+export { MAX_REWRITE_BULLETS, assessBullet, findWeakBullets } from './bullets';
+export type { ResumeBullet, WeaknessReason } from './bullets';
+
+export interface RewriteTarget {
+  id: string;
+  text: string;
+}
+
+export interface RewriteInput {
+  bullets: RewriteTarget[];
+  missingKeywords: string[];
+  missingRequirements: string[];
+  jobDescription: string;
+}
+
+export interface BulletRewrite {
+  id: string;
+  rewrite: string;
+}
+
+export const parseRewriteResponse = (content: string, ids: string[]): BulletRewrite[] => {
+  const raw = parseJsonResponse(content) as { rewrites?: unknown } | null;
+  if (!Array.isArray(raw?.rewrites)) {
+    throw new Error('The model response did not contain a "rewrites" list');
+  }
+
+  const known = new Set(ids);
+  return raw.rewrites.flatMap((item: { id?: unknown; rewrite?: unknown }) =>
+    typeof item?.id === 'string' && known.has(item.id) && typeof item.rewrite === 'string' && item.rewrite.trim()
+      ? [{ id: item.id, rewrite: item.rewrite.trim() }]
+      : [],
+  );
+};
+
+export const runRewrite = async (complete: CompleteFn, input: RewriteInput): Promise<BulletRewrite[]> => {
+  const content = await complete([{ role: 'user', content: buildRewritePrompt(input) }]);
+  return parseRewriteResponse(
+    content,
+    input.bullets.map((bullet) => bullet.id),
+  );
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Parsed bullets join wrapped lines with single spaces, so match any whitespace between words.
+const locate = (text: string, bullet: string) => {
+  const words = bullet.split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (!words.length) return null;
+  const match = new RegExp(words.join('\\s+')).exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
+
+export interface AcceptedRewrite {
+  original: string;
+  replacement: string;
+}
+
+export const applyRewrites = (resumeText: string, accepted: AcceptedRewrite[]) =>
+  accepted.reduce((text, { original, replacement }) => {
+    const span = locate(text, original);
+    return span ? text.slice(0, span.start) + replacement + text.slice(span.end) : text;
+  }, resumeText);
@@ -0,0 +1,5 @@
+export { BUILT_IN_PRESETS, DEFAULT_RUBRIC_WEIGHTS, findPreset } from './presets';
+export { buildBreakdown, categoryContribution, rescoreBreakdown, scoreCategories } from './score';
+export { createPreset, loadCustomPresets, saveCustomPresets } from './storage';
+export { RUBRIC_CATEGORIES } from './types';
+export type * from './types';
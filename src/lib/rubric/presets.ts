@@ -0,0 +1,28 @@
+import type { RubricPreset, RubricWeights } from './types';
+
+export const BUILT_IN_PRESETS: RubricPreset[] = [
+  {
+    id: 'balanced',
+    name: 'Balanced',
+    weights: { keywords: 25, must_haves: 25, experience: 20, formatting: 10, readability: 10, grammar: 10 },
+    builtIn: true,
+  },
+  {
+    id: 'engineering',
+    name: 'Engineering',
+    weights: { keywords: 20, must_haves: 30, experience: 30, formatting: 10, readability: 5, grammar: 5 },
+    builtIn: true,
+  },
+  {
+    id: 'new-grad',
+    name: 'New grad',
+    // Little experience to judge, so presentation counts for more.
+    weights: { keywords: 25, must_haves: 20, experience: 10, formatting: 15, readability: 15, grammar: 15 },
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_RUBRIC_WEIGHTS: RubricWeights = BUILT_IN_PRESETS[0].weights;
+
+export const findPreset = (presets: RubricPreset[], weights: RubricWeights) =>
+  presets.find((preset) => Object.entries(preset.weights).every(([category, weight]) => weights[category as keyof RubricWeights] === weight));
@@ -0,0 +1,117 @@
+import { parseJobDescription, scoreRequirementCoverage } from '../jobParser';
+import { parseResume } from '../resumeParser';
+import { scoreResume } from '../scoring';
+import type { AnalysisResult, AtsCompatibility } from '../../types';
+import { RUBRIC_CATEGORIES } from './types';
+import type { CategoryScore, RubricWeights, ScoreBreakdown } from './types';
+
+// Points lost for each formatting or grammar issue the model reports.
+const ISSUE_PENALTY = 10;
+
+const ATS_BASE_SCORES: Record<AtsCompatibility, number> = { High: 100, Medium: 75, Low: 40 };
+
+const percentage = (part: number, total: number) => (total ? Math.round((part / total) * 100) : 0);
+
+const penalized = (base: number, issues: number) => Math.max(0, base - issues * ISSUE_PENALTY);
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const scoreMustHaves = (result: AnalysisResult, jobDescription: string): CategoryScore => {
+  const { requirements } = parseJobDescription(jobDescription);
+  const { mustHaves } = scoreRequirementCoverage(requirements, result.job_requirements_coverage);
+  if (mustHaves.total) {
+    return {
+      category: 'must_haves',
+      score: percentage(mustHaves.met, mustHaves.total),
+      source: 'local',
+      detail: `${mustHaves.met} of ${plural(mustHaves.total, 'must-have')} met`,
+    };
+  }
+
+  // Postings without marked must-haves fall back to every requirement the model checked.
+  const { met_requirements: met, missing_requirements: missing } = result.job_requirements_coverage;
+  return {
+    category: 'must_haves',
+    score: met.length + missing.length ? percentage(met.length, met.length + missing.length) : result.skills_match.match_percentage,
+    source: 'model',
+    detail: met.length + missing.length ? `${met.length} of ${plural(met.length + missing.length, 'requirement')} met` : 'No requirements found; skills match used',
+  };
+};
+
+const scoreExperience = (result: AnalysisResult, resumeText: string, jobDescription: string): CategoryScore => {
+  const { strong, moderate, weak_or_missing: weak } = result.technical_proficiency;
+  const rated = strong.length + moderate.length + weak.length;
+  const proficiency = rated ? Math.round(((strong.length + moderate.length / 2) / rated) * 100) : result.skills_match.match_percentage;
+
+  const { minYearsExperience } = parseJobDescription(jobDescription);
+  if (!minYearsExperience) {
+    return { category: 'experience', score: proficiency, source: 'model', detail: `${strong.length} strong, ${moderate.length} moderate areas` };
+  }
+
+  // Half from the model's judgement of the work, half from dated years against the posting.
+  const years = parseResume(resumeText).totalExperienceMonths / 12;
+  const tenure = Math.min(100, Math.round((years / minYearsExperience) * 100));
+  return {
+    category: 'experience',
+    score: Math.round((proficiency + tenure) / 2),
+    source: 'mixed',
+    detail: `${years.toFixed(1)} of ${minYearsExperience}+ years, ${strong.length} strong areas`,
+  };
+};
+
+export const scoreCategories = (result: AnalysisResult, resumeText: string, jobDescription: string): CategoryScore[] => {
+  const local = scoreResume(resumeText, jobDescription);
+  const keywordTotal = local.matchedKeywords.length + local.missingKeywords.length;
+
+  return [
+    {
+      category: 'keywords',
+      score: local.keywordCoverage,
+      source: 'local',
+      detail: `${local.matchedKeywords.length} of ${plural(keywordTotal, 'job keyword')} found`,
+    },
+    scoreMustHaves(result, jobDescription),
+    scoreExperience(result, resumeText, jobDescription),
+    {
+      category: 'formatting',
+      score: penalized(ATS_BASE_SCORES[result.ats_compatibility], result.formatting_issues.length),
+      source: 'model',
+      detail: `${result.ats_compatibility} ATS compatibility, ${plural(result.formatting_issues.length, 'issue')}`,
+    },
+    {
+      category: 'readability',
+      score: local.readability.score,
+      source: 'local',
+      detail:
+        local.readability.gradeLevel === null
+          ? local.readability.formula
+          : `${local.readability.formula}, grade ${local.readability.gradeLevel}`,
+    },
+    {
+      category: 'grammar',
+      score: penalized(100, result.grammar_issues.length),
+      source: 'model',
+      detail: plural(result.grammar_issues.length, 'issue'),
+    },
+  ];
+};
+
+const weightTotal = (weights: RubricWeights) => RUBRIC_CATEGORIES.reduce((sum, category) => sum + Math.max(0, weights[category] ?? 0), 0);
+
+// Points a category adds to the total under these weights.
+export const categoryContribution = ({ category, score }: CategoryScore, weights: RubricWeights) => {
+  const total = weightTotal(weights);
+  return total ? (score * Math.max(0, weights[category] ?? 0)) / total : 0;
+};
+
+export const rescoreBreakdown = (breakdown: ScoreBreakdown, weights: RubricWeights): ScoreBreakdown => ({
+  ...breakdown,
+  weights,
+  total: Math.round(breakdown.categories.reduce((sum, category) => sum + categoryContribution(category, weights), 0)),
+});
+
+export const buildBreakdown = (result: AnalysisResult, resumeText: string, jobDescription: string, weights: RubricWeights) =>
+  rescoreBreakdown(
+    { weights, categories: scoreCategories(result, resumeText, jobDescription), total: 0, modelScore: result.resume_score },
+    weights,
+  );
@@ -0,0 +1,33 @@
+import { RUBRIC_CATEGORIES } from './types';
+import type { RubricPreset, RubricWeights } from './types';
+
+const STORAGE_KEY = 'atsight:rubric-presets';
+
+const isPreset = (value: unknown): value is RubricPreset => {
+  const preset = value as Partial<RubricPreset> | null;
+  return (
+    typeof preset?.id === 'string' &&
+    typeof preset.name === 'string' &&
+    RUBRIC_CATEGORIES.every((category) => typeof preset.weights?.[category] === 'number')
+  );
+};
+
+export const loadCustomPresets = (): RubricPreset[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isPreset).map((preset) => ({ ...preset, builtIn: false })) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: RubricPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+export const createPreset = (name: string, weights: RubricWeights): RubricPreset => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  weights: { ...weights },
+  builtIn: false,
+});
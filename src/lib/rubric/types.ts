@@ -0,0 +1,33 @@
+export const RUBRIC_CATEGORIES = ['keywords', 'must_haves', 'experience', 'formatting', 'readability', 'grammar'] as const;
+
+export type RubricCategory = typeof RUBRIC_CATEGORIES[number];
+
+// Relative weights; they do not have to add up to 100.
+export type RubricWeights = Record<RubricCategory, number>;
+
+export interface RubricPreset {
+  id: string;
+  name: string;
+  weights: RubricWeights;
+  builtIn: boolean;
+}
+
+export const CATEGORY_SOURCES = ['model', 'local', 'mixed'] as const;
+
+export type CategorySource = typeof CATEGORY_SOURCES[number];
+
+export interface CategoryScore {
+  category: RubricCategory;
+  score: number;
+  // Whether the number comes from the model's judgement, a deterministic check in code, or both.
+  source: CategorySource;
+  detail: string;
+}
+
+export interface ScoreBreakdown {
+  weights: RubricWeights;
+  categories: CategoryScore[];
+  total: number;
+  // The model's own resume_score, kept for comparison.
+  modelScore: number;
+}
@@ -0,0 +1,47 @@
+import { detectLanguage } from '../i18n/detect';
+import { extractKeywords, matchTerms } from './keywords';
+import { computeReadability } from './readability';
+import type { ReadabilityResult } from './readability';
+
+export type { ReadabilityResult } from './readability';
+
+export interface LocalScores {
+  resumeScore: number;
+  keywordCoverage: number;
+  skillsMatch: number;
+  readability: ReadabilityResult;
+  matchedKeywords: string[];
+  missingKeywords: string[];
+  matchedSkills: string[];
+  missingSkills: string[];
+}
+
+// Score gaps (in points) at which the model's number is flagged as doubtful.
+export const DISAGREEMENT_THRESHOLD = 20;
+
+const percentage = (part: number, total: number) => (total ? Math.round((part / total) * 100) : 0);
+
+export const scoreResume = (resumeText: string, jobDescription: string): LocalScores => {
+  const { keywords, skills } = extractKeywords(jobDescription);
+  const keywordMatch = matchTerms(keywords, resumeText);
+  const skillMatch = matchTerms(skills, resumeText);
+  const readability = computeReadability(resumeText, detectLanguage(resumeText, detectLanguage(jobDescription)));
+
+  const keywordCoverage = percentage(keywordMatch.matched.length, keywords.length);
+  // Without recognised skill terms in the posting, fall back to overall keyword coverage.
+  const skillsMatch = skills.length ? percentage(skillMatch.matched.length, skills.length) : keywordCoverage;
+
+  return {
+    resumeScore: Math.round(0.5 * keywordCoverage + 0.3 * skillsMatch + 0.2 * readability.score),
+    keywordCoverage,
+    skillsMatch,
+    readability,
+    matchedKeywords: keywordMatch.matched,
+    missingKeywords: keywordMatch.missing,
+    matchedSkills: skillMatch.matched,
+    missingSkills: skillMatch.missing,
+  };
+};
+
+export const scoresDisagree = (modelScore: number, localScore: number) =>
+  Math.abs(modelScore - localScore) >= DISAGREEMENT_THRESHOLD;
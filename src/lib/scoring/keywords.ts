@@ -0,0 +1,95 @@
+import { detectableTerms, listSkills, skillAliases } from '../taxonomy';
+
+export const STOPWORDS = new Set(
+  `a about above after again all also am an and any are as at be because been before being below between both but by
+  can could did do does doing down during each etc few for from further had has have having he her here hers him his
+  how i if in into is it its itself just me more most my no nor not now of off on once only or other our ours out over
+  own same she should so some such than that the their them then there these they this those through to too under
+  until up very was we were what when where which while who whom why will with would you your yours
+  able ability across additional based best big day days environment excellent experience experienced following
+  good great help ideal including join looking make must new candidate candidates company opportunity plus
+  position preferred required requirements responsibilities responsible role skills strong team teams using
+  work working world year years within well wide apply benefits build building develop developing create ensure
+  familiarity knowledge understanding proficiency proven`.split(/\s+/),
+);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+// Word boundaries that also respect symbols used in skill names such as c++, c# and node.js.
+const termPattern = (term: string) => new RegExp(`(^|[^a-z0-9+#])${escapeRegExp(term)}(?=$|[^a-z0-9+#])`);
+
+export const normalizeText = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[–—]/g, '-')
+    .replace(/\s+/g, ' ');
+
+const stem = (word: string) => word.replace(/(?:ing|ed|es|s)$/, '');
+
+const tokenize = (text: string) =>
+  (text.match(/[a-z][a-z0-9+#]*(?:[.-][a-z0-9+#]+)*/g) ?? []).filter(
+    (token) => token.length >= 3 && !STOPWORDS.has(token),
+  );
+
+export const containsTerm = (normalizedText: string, term: string) => termPattern(term).test(normalizedText);
+
+// Skills from the taxonomy mentioned under any of their names, as lower-case canonical names.
+export const findSkillTerms = (normalizedText: string) =>
+  listSkills()
+    .filter((skill) => detectableTerms(skill).some((term) => containsTerm(normalizedText, term)))
+    .map((skill) => skill.name.toLowerCase());
+
+export const extractKeywords = (jobDescription: string, limit = 30) => {
+  const text = normalizeText(jobDescription);
+  const skills = findSkillTerms(text);
+  const covered = new Set(
+    listSkills()
+      .filter((skill) => skills.includes(skill.name.toLowerCase()))
+      .flatMap((skill) => detectableTerms(skill).flatMap((term) => term.split(' '))),
+  );
+  const counts = new Map<string, number>();
+
+  // Count single terms and adjacent pairs per line so phrases do not span bullets.
+  for (const line of jobDescription.split(/\n|[.;](?=\s|$)/)) {
+    const tokens = tokenize(normalizeText(line));
+    tokens.forEach((token, index) => {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+      const next = tokens[index + 1];
+      if (next) {
+        const phrase = `${token} ${next}`;
+        counts.set(phrase, (counts.get(phrase) ?? 0) + 1);
+      }
+    });
+  }
+
+  const ranked = [...counts.entries()]
+    .filter(([term, count]) => !covered.has(term) && (term.includes(' ') ? count >= 2 : count >= 1))
+    .sort((a, b) => b[1] - a[1] || Number(b[0].includes(' ')) - Number(a[0].includes(' ')))
+    .map(([term]) => term);
+
+  const keywords = [...skills];
+  for (const term of ranked) {
+    if (keywords.length >= limit) break;
+    // Skip single words already represented by a chosen phrase, and vice versa.
+    if (keywords.some((keyword) => keyword.split(' ').includes(term) || term.split(' ').includes(keyword))) continue;
+    keywords.push(term);
+  }
+
+  return { keywords, skills };
+};
+
+export const matchTerms = (terms: string[], resumeText: string) => {
+  const text = normalizeText(resumeText);
+  const stemmed = ` ${tokenize(text).map(stem).join(' ')} `;
+
+  const matched: string[] = [];
+  const missing: string[] = [];
+  for (const term of terms) {
+    const found =
+      [term, ...skillAliases(term)].some((variant) => containsTerm(text, variant)) ||
+      stemmed.includes(` ${term.split(' ').map(stem).join(' ')} `);
+    (found ? matched : missing).push(term);
+  }
+  return { matched, missing };
+};
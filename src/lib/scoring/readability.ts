@@ -0,0 +1,94 @@
+import type { LanguageCode } from '../i18n/languages';
+
+export interface ReadabilityResult {
+  // Reading ease clamped to 0-100, higher is easier to read.
+  score: number;
+  // Flesch-Kincaid grade, which is only calibrated for English.
+  gradeLevel: number | null;
+  sentences: number;
+  words: number;
+  language: LanguageCode;
+  // Name of the reading ease formula used for the language.
+  formula: string;
+}
+
+interface EaseFormula {
+  name: string;
+  // Vowel groups, so diphthongs count as one syllable.
+  vowels: RegExp | null;
+  ease: (wordsPerSentence: number, syllablesPerWord: number) => number;
+}
+
+// Flesch reading ease and its published adaptations. Hindi has no widely used syllable-based formula,
+// so its score comes from sentence length alone.
+const FORMULAS: Record<LanguageCode, EaseFormula> = {
+  en: {
+    name: 'Flesch reading ease',
+    vowels: /[aeiouy]{1,2}/g,
+    ease: (wps, spw) => 206.835 - 1.015 * wps - 84.6 * spw,
+  },
+  de: {
+    name: 'Flesch-Amstad reading ease',
+    vowels: /[aeiouyäöü]+/g,
+    ease: (wps, spw) => 180 - wps - 58.5 * spw,
+  },
+  fr: {
+    name: 'Kandel-Moles reading ease',
+    vowels: /[aeiouyàâéèêëîïôûùüÿœæ]+/g,
+    ease: (wps, spw) => 207 - 1.015 * wps - 73.6 * spw,
+  },
+  es: {
+    name: 'Fernández Huerta reading ease',
+    vowels: /[aeiouáéíóúü]+/g,
+    ease: (wps, spw) => 206.84 - 1.02 * wps - 60 * spw,
+  },
+  hi: {
+    name: 'Sentence length',
+    vowels: null,
+    ease: (wps) => 120 - 2.5 * wps,
+  },
+};
+
+export const countSyllables = (word: string, language: LanguageCode = 'en') => {
+  const cleaned = word.toLowerCase().replace(/[^\p{L}]/gu, '');
+  const vowels = FORMULAS[language].vowels;
+  if (!vowels || cleaned.length <= 3) return 1;
+
+  let trimmed = cleaned;
+  if (language === 'en') {
+    trimmed = cleaned.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  } else if (language === 'fr') {
+    // Final e, es and verb endings in ent are silent.
+    trimmed = cleaned.replace(/(?:ent|es|e)$/, '');
+  }
+  return Math.max(1, trimmed.match(vowels)?.length ?? 1);
+};
+
+export const computeReadability = (text: string, language: LanguageCode = 'en'): ReadabilityResult => {
+  const formula = FORMULAS[language];
+  // Resume bullets rarely end with punctuation, so line breaks also end a sentence. Hindi ends sentences with a danda.
+  const sentences = text
+    .split(/[.!?।]+|\n+/)
+    .filter((sentence) => /\p{L}/u.test(sentence));
+  const words = text.match(/[\p{L}\p{M}]+(?:['’][\p{L}\p{M}]+)?/gu) ?? [];
+
+  if (!sentences.length || !words.length) {
+    return { score: 0, gradeLevel: language === 'en' ? 0 : null, sentences: 0, words: 0, language, formula: formula.name };
+  }
+
+  const syllables = words.reduce((total, word) => total + countSyllables(word, language), 0);
+  const wordsPerSentence = words.length / sentences.length;
+  const syllablesPerWord = syllables / words.length;
+
+  const readingEase = formula.ease(wordsPerSentence, syllablesPerWord);
+  const gradeLevel = 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59;
+
+  return {
+    score: Math.min(100, Math.max(0, Math.round(readingEase))),
+    gradeLevel: language === 'en' ? Math.max(0, Math.round(gradeLevel * 10) / 10) : null,
+    sentences: sentences.length,
+    words: words.length,
+    language,
+    formula: formula.name,
+  };
+};
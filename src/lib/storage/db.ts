@@ -0,0 +1,63 @@
+const DB_NAME = 'atsight';
+const DB_VERSION = 2;
+
+export const STORES = {
+  analyses: 'analyses',
+  analysisCache: 'analysisCache',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let connection: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () => {
+  if (!connection) {
+    connection = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.analyses)) {
+          const store = db.createObjectStore(STORES.analyses, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+        // Added in version 2.
+        if (!db.objectStoreNames.contains(STORES.analysisCache)) {
+          const store = db.createObjectStore(STORES.analysisCache, { keyPath: 'key' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        connection = null;
+        reject(request.error);
+      };
+    });
+  }
+  return connection;
+};
+
+const withStore = async <T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+) => {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(name, mode).objectStore(name)));
+};
+
+export const getRecord = <T>(name: StoreName, key: IDBValidKey) =>
+  withStore<T | undefined>(name, 'readonly', (store) => store.get(key));
+
+export const getAllRecords = <T>(name: StoreName) => withStore<T[]>(name, 'readonly', (store) => store.getAll());
+
+export const putRecord = <T>(name: StoreName, value: T) =>
+  withStore(name, 'readwrite', (store) => store.put(value));
+
+export const deleteRecord = (name: StoreName, key: IDBValidKey) =>
+  withStore(name, 'readwrite', (store) => store.delete(key));
@@ -0,0 +1,125 @@
+import type { AnalysisResult } from '../../types';
+import customSkills from './customSkills.json';
+import { BUNDLED_SKILLS } from './skills';
+import { SKILL_CATEGORIES } from './types';
+import type { SkillCategory, SkillDefinition } from './types';
+
+export { SKILL_CATEGORIES } from './types';
+export type * from './types';
+
+// Everyday words that are skill names only in context, so they are never detected in free text on their own.
+const AMBIGUOUS_TERMS = new Set(['go', 'node', 'rest', 'express', 'rails']);
+
+const isCategory = (value: unknown): value is SkillCategory => SKILL_CATEGORIES.includes(value as SkillCategory);
+
+/*
+ * Company-specific skills live in customSkills.json as a list of
+ * { "name": string, "category"?: string, "aliases"?: string[] }.
+ * An entry whose name or alias is already known adds its aliases to that skill.
+ */
+export const readCustomSkills = (raw: unknown): SkillDefinition[] => {
+  if (!Array.isArray(raw)) {
+    console.warn('customSkills.json must contain an array of skills');
+    return [];
+  }
+  return raw.flatMap((entry, index) => {
+    if (!entry || typeof entry.name !== 'string' || !entry.name.trim()) {
+      console.warn(`Skipping custom skill ${index}: it has no name`);
+      return [];
+    }
+    const aliases: unknown[] = Array.isArray(entry.aliases) ? entry.aliases : [];
+    return [
+      {
+        name: entry.name.trim(),
+        category: isCategory(entry.category) ? entry.category : 'other',
+        aliases: aliases.filter((alias): alias is string => typeof alias === 'string' && !!alias.trim()).map((alias) => alias.trim()),
+      },
+    ];
+  });
+};
+
+const buildLookup = (definitions: SkillDefinition[]) => {
+  const lookup = new Map<string, SkillDefinition>();
+  const skills: SkillDefinition[] = [];
+
+  for (const definition of definitions) {
+    const terms = [definition.name, ...definition.aliases];
+    const existing = terms.map((term) => lookup.get(term.toLowerCase())).find(Boolean);
+    const skill = existing ?? { ...definition, aliases: [...definition.aliases] };
+    if (existing) {
+      existing.aliases.push(...terms.filter((term) => !lookup.has(term.toLowerCase())));
+    } else {
+      skills.push(skill);
+    }
+    // The first skill to claim a spelling keeps it.
+    terms.forEach((term) => lookup.has(term.toLowerCase()) || lookup.set(term.toLowerCase(), skill));
+  }
+  return { lookup, skills };
+};
+
+const { lookup, skills: SKILLS } = buildLookup([...BUNDLED_SKILLS, ...readCustomSkills(customSkills)]);
+
+const keyOf = (term: string) => term.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const listSkills = (): readonly SkillDefinition[] => SKILLS;
+
+export const findSkill = (term: string) => lookup.get(keyOf(term)) ?? null;
+
+// The canonical name for a known skill, or the term itself, tidied, when it is not in the taxonomy.
+export const canonicalSkill = (term: string) => findSkill(term)?.name ?? term.trim().replace(/\s+/g, ' ');
+
+// Lower-case spellings of a skill other than the term itself.
+export const skillAliases = (term: string) => {
+  const skill = findSkill(term);
+  if (!skill) return [];
+  const key = keyOf(term);
+  return [skill.name, ...skill.aliases].map((alias) => alias.toLowerCase()).filter((alias) => alias !== key);
+};
+
+// Spellings that are safe to look for when scanning free text for skills.
+export const detectableTerms = (skill: SkillDefinition) =>
+  [skill.name, ...skill.aliases].map((term) => term.toLowerCase()).filter((term) => !AMBIGUOUS_TERMS.has(term));
+
+export const normalizeSkillList = (terms: string[], exclude: string[] = []) => {
+  const seen = new Set(exclude.map((term) => keyOf(canonicalSkill(term))));
+  const result: string[] = [];
+  for (const term of terms) {
+    const name = canonicalSkill(term);
+    const key = keyOf(name);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    result.push(name);
+  }
+  return result;
+};
+
+// Canonicalises every skill list and drops gaps that are already covered under another name.
+export const normalizeResultSkills = (result: AnalysisResult): AnalysisResult => {
+  const matched = normalizeSkillList(result.skills_match.matched);
+  const softMatched = normalizeSkillList(result.soft_skills_match.matched);
+  const present = normalizeSkillList(result.keywords_analysis.present_keywords);
+  const strong = normalizeSkillList(result.technical_proficiency.strong);
+  const moderate = normalizeSkillList(result.technical_proficiency.moderate, strong);
+
+  return {
+    ...result,
+    skills_match: {
+      ...result.skills_match,
+      matched,
+      missing: normalizeSkillList(result.skills_match.missing, matched),
+    },
+    soft_skills_match: {
+      matched: softMatched,
+      missing: normalizeSkillList(result.soft_skills_match.missing, softMatched),
+    },
+    technical_proficiency: {
+      strong,
+      moderate,
+      weak_or_missing: normalizeSkillList(result.technical_proficiency.weak_or_missing, [...strong, ...moderate]),
+    },
+    keywords_analysis: {
+      present_keywords: present,
+      missing_keywords: normalizeSkillList(result.keywords_analysis.missing_keywords, present),
+    },
+  };
+};
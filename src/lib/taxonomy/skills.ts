@@ -0,0 +1,117 @@
+import type { SkillDefinition } from './types';
+
+const define = (category: SkillDefinition['category'], entries: [string, ...string[]][]): SkillDefinition[] =>
+  entries.map(([name, ...aliases]) => ({ name, category, aliases }));
+
+// The bundled taxonomy: a canonical name followed by the aliases that mean the same skill.
+export const BUNDLED_SKILLS: SkillDefinition[] = [
+  ...define('languages', [
+    ['JavaScript', 'js', 'ecmascript', 'es6'],
+    ['TypeScript', 'ts'],
+    ['Python', 'py'],
+    ['Java'],
+    ['C++', 'cpp'],
+    ['C#', 'csharp', 'c sharp'],
+    ['Go', 'golang'],
+    ['Rust'],
+    ['Ruby'],
+    ['PHP'],
+    ['Kotlin'],
+    ['Swift'],
+    ['Scala'],
+    ['SQL'],
+    ['Bash', 'shell scripting'],
+    ['HTML', 'html5'],
+    ['CSS', 'css3'],
+    ['Sass', 'scss'],
+  ]),
+  ...define('frameworks', [
+    ['React', 'react.js', 'reactjs'],
+    ['React Native'],
+    ['Next.js', 'nextjs'],
+    ['Vue', 'vue.js', 'vuejs'],
+    ['Angular', 'angularjs'],
+    ['Svelte'],
+    ['Node.js', 'nodejs', 'node'],
+    ['Express.js', 'express', 'expressjs'],
+    ['Django'],
+    ['Flask'],
+    ['FastAPI'],
+    ['Spring'],
+    ['Spring Boot'],
+    ['.NET', 'dotnet', 'asp.net'],
+    ['Ruby on Rails', 'rails', 'ror'],
+    ['Laravel'],
+    ['Tailwind', 'tailwind css', 'tailwindcss'],
+    ['Redux'],
+    ['GraphQL'],
+    ['REST API', 'rest', 'restful api', 'restful apis', 'rest apis'],
+    ['Jest'],
+    ['Cypress'],
+    ['Playwright'],
+    ['PyTorch'],
+    ['TensorFlow'],
+    ['pandas'],
+    ['NumPy'],
+    ['scikit-learn', 'sklearn'],
+  ]),
+  ...define('data', [
+    ['PostgreSQL', 'postgres'],
+    ['MySQL'],
+    ['MongoDB', 'mongo'],
+    ['Redis'],
+    ['Elasticsearch'],
+    ['Kafka', 'apache kafka'],
+    ['Spark', 'apache spark', 'pyspark'],
+    ['Airflow', 'apache airflow'],
+    ['Snowflake'],
+    ['Data Analysis', 'data analytics'],
+    ['Data Engineering'],
+  ]),
+  ...define('cloud', [
+    ['AWS', 'amazon web services'],
+    ['Azure', 'microsoft azure'],
+    ['GCP', 'google cloud', 'google cloud platform'],
+    ['Docker'],
+    ['Kubernetes', 'k8s'],
+    ['Terraform'],
+    ['Ansible'],
+    ['Serverless'],
+    ['Microservices', 'microservice architecture'],
+  ]),
+  ...define('tools', [
+    ['Linux'],
+    ['Git'],
+    ['CI/CD', 'continuous integration', 'continuous delivery', 'continuous deployment'],
+    ['Jenkins'],
+    ['GitHub Actions'],
+    ['Figma'],
+  ]),
+  ...define('practices', [
+    ['Machine Learning', 'ml'],
+    ['Deep Learning'],
+    ['Artificial Intelligence', 'ai'],
+    ['NLP', 'natural language processing'],
+    ['Computer Vision'],
+    ['Agile'],
+    ['Scrum'],
+    ['TDD', 'test-driven development'],
+    ['Unit Testing'],
+    ['System Design'],
+    ['Distributed Systems'],
+    ['Accessibility', 'a11y'],
+    ['SEO', 'search engine optimization'],
+    ['User Experience', 'ux'],
+    ['User Interface', 'ui'],
+    ['Product Management'],
+    ['Project Management'],
+  ]),
+  ...define('soft skills', [
+    ['Communication', 'communication skills'],
+    ['Leadership'],
+    ['Mentoring', 'mentorship'],
+    ['Collaboration', 'teamwork'],
+    ['Problem Solving', 'problem-solving'],
+    ['Stakeholder Management'],
+  ]),
+];
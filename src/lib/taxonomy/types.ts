@@ -0,0 +1,9 @@
+export const SKILL_CATEGORIES = ['languages', 'frameworks', 'data', 'cloud', 'tools', 'practices', 'soft skills', 'other'] as const;
+
+export type SkillCategory = typeof SKILL_CATEGORIES[number];
+
+export interface SkillDefinition {
+  name: string;
+  category: SkillCategory;
+  aliases: string[];
+}
@@ -0,0 +1,21 @@
+export const DEFAULT_CONTEXT_TOKENS = 8192;
+
+export const CONTEXT_TOKEN_LIMITS = { min: 4096, max: 131_072 };
+
+// Left free for the JSON analysis the model writes back.
+export const RESPONSE_TOKEN_RESERVE = 1500;
+
+// A tokenizer-free estimate: about four characters per token for prose, more tokens for text dense with short words and symbols.
+export const estimateTokens = (text: string) => {
+  if (!text) return 0;
+  const words = text.match(/[A-Za-z0-9]+|[^\sA-Za-z0-9]/g)?.length ?? 0;
+  return Math.ceil(Math.max(text.length / 4, words * 0.75));
+};
+
+export const clampContextTokens = (value: number) =>
+  Math.min(CONTEXT_TOKEN_LIMITS.max, Math.max(CONTEXT_TOKEN_LIMITS.min, Math.round(value) || DEFAULT_CONTEXT_TOKENS));
+
+// Tokens a prompt may use in a context window of this size.
+export const promptTokenLimit = (contextTokens: number) => clampContextTokens(contextTokens) - RESPONSE_TOKEN_RESERVE;
+
+export const formatTokens = (tokens: number) => `${tokens.toLocaleString('en-US')} ${tokens === 1 ? 'token' : 'tokens'}`;
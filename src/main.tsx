@@ -1,8 +1,13 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { pickUiLanguage, setUiLanguage } from './lib/i18n';
 import './index.css';
 
+const uiLanguage = pickUiLanguage(navigator.languages);
+setUiLanguage(uiLanguage);
+document.documentElement.lang = uiLanguage;
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
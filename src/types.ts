@@ -0,0 +1,41 @@
+export const ATS_LEVELS = ['High', 'Medium', 'Low'] as const;
+export const RESUME_LENGTHS = ['Too Short', 'Optimal', 'Too Long'] as const;
+export const TONES = ['Professional', 'Casual', 'Neutral', 'Aggressive'] as const;
+
+export type AtsCompatibility = typeof ATS_LEVELS[number];
+export type ResumeLength = typeof RESUME_LENGTHS[number];
+export type ToneOfLanguage = typeof TONES[number];
+
+export interface AnalysisResult {
+  overall_summary: string;
+  resume_score: number;
+  ats_compatibility: AtsCompatibility;
+  resume_length: ResumeLength;
+  readability_score: number;
+  skills_match: {
+    matched: string[];
+    missing: string[];
+    match_percentage: number;
+  };
+  soft_skills_match: {
+    matched: string[];
+    missing: string[];
+  };
+  technical_proficiency: {
+    strong: string[];
+    moderate: string[];
+    weak_or_missing: string[];
+  };
+  keywords_analysis: {
+    present_keywords: string[];
+    missing_keywords: string[];
+  };
+  job_requirements_coverage: {
+    met_requirements: string[];
+    missing_requirements: string[];
+  };
+  tone_of_language: ToneOfLanguage;
+  formatting_issues: string[];
+  grammar_issues: string[];
+  recommendations: string[];
+}